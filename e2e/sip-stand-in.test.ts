@@ -0,0 +1,393 @@
+import type { SessionDescriptionHandler, SessionDescriptionHandlerFactory } from 'sip.js';
+
+import { createServer, type Server } from 'node:http';
+import { UserAgent } from 'sip.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { CallHistoryEntry, CallLine, SipError } from '@/@types/sip.types';
+
+import { Phone } from '@/lib/phone';
+
+import type { SipStandInServer } from '../server/sip-stand-in/stand-in-server.ts';
+
+import { createAnswerSdp, createOfferSdp } from '../server/sip-stand-in/sdp.ts';
+import { createSipStandInServer } from '../server/sip-stand-in/stand-in-server.ts';
+
+/**
+ * 自動切断内線が切断するまでの時間（ミリ秒）
+ */
+const HANGUP_AFTER_MS = 300;
+
+/**
+ * WebRTCを使用せずにSDPのオファー・アンサーだけを交換するSessionDescriptionHandlerを作成する
+ * 相手のオファーを受け取った後はアンサーを、それ以外はオファーを返す
+ * @returns SessionDescriptionHandlerのファクトリ
+ */
+const createFakeSessionDescriptionHandlerFactory = (): SessionDescriptionHandlerFactory => () => {
+  let remoteOffer: string | null = null;
+  let hasLocalOffer = false;
+  const sessionDescriptionHandler: SessionDescriptionHandler = {
+    close: () => undefined,
+    getDescription: () => {
+      const body = remoteOffer === null ? createOfferSdp() : createAnswerSdp(remoteOffer);
+      hasLocalOffer = remoteOffer === null;
+      remoteOffer = null;
+      return Promise.resolve({ body, contentType: 'application/sdp' });
+    },
+    hasDescription: contentType => contentType === 'application/sdp',
+    sendDtmf: () => false,
+    setDescription: (sdp) => {
+      if (hasLocalOffer) {
+        hasLocalOffer = false;
+      }
+      else {
+        remoteOffer = sdp;
+      }
+      return Promise.resolve();
+    },
+  };
+  return sessionDescriptionHandler;
+};
+
+/**
+ * 電話エンジンの最初の回線を取得する
+ * @param phone - 電話エンジン
+ * @returns 回線（回線がない場合はundefined）
+ */
+const getFirstLine = (phone: Phone): CallLine | undefined => phone.getSnapshot().lines[0];
+
+describe('SIP代役サーバとの接続・通話', () => {
+  let server: Server;
+  let standIn: SipStandInServer;
+  let url: string;
+  let phone: Phone;
+  let errors: SipError[];
+  let endedCalls: CallHistoryEntry[];
+  let network: EventTarget;
+  let networkState: { onLine: boolean };
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+    // オンライン/オフライン状態の変化の購読先と現在の状態（ブラウザのwindow・navigatorの代わり）
+    network = new EventTarget();
+    networkState = { onLine: true };
+    vi.stubGlobal('window', network);
+    vi.stubGlobal('navigator', networkState);
+
+    standIn = createSipStandInServer({ hangupAfterMs: HANGUP_AFTER_MS, log: () => undefined });
+    server = createServer();
+    server.on('upgrade', (request, socket) => {
+      if (!standIn.handleUpgrade(request, socket)) {
+        socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+      }
+    });
+    await new Promise<void>((resolve) => {
+      server.listen(0, '127.0.0.1', resolve);
+    });
+    const address = server.address();
+    url = `ws://127.0.0.1:${String(typeof address === 'object' && address ? address.port : 0)}/sip`;
+
+    phone = new Phone({ sessionDescriptionHandlerFactory: createFakeSessionDescriptionHandlerFactory() });
+    errors = [];
+    endedCalls = [];
+    phone.on('error', (error) => {
+      errors.push(error);
+    });
+    phone.on('call-ended', (entry) => {
+      endedCalls.push(entry);
+    });
+  });
+
+  afterEach(async () => {
+    if (phone.getUserAgent()) {
+      await phone.disconnect();
+    }
+    standIn.close();
+    await new Promise((resolve) => {
+      server.close(resolve);
+    });
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * 1001として接続し、登録が完了するまで待つ
+   */
+  const connectAndRegister = async (): Promise<void> => {
+    await phone.connect({ url, username: '1001', password: '1234', registerExpires: 600, dtmfTransport: 'info' });
+    await phone.register(600);
+    await vi.waitFor(() => {
+      expect(phone.getSnapshot().registrationState.status).toBe('registered');
+    });
+  };
+
+  it('ダイジェスト認証でREGISTERし、登録を解除して切断できる', async () => {
+    await connectAndRegister();
+    expect(phone.getSnapshot().connectionStatus).toBe('connected');
+    expect(phone.getSnapshot().registrationState.statusCode).toBe(200);
+    expect(standIn.getRegistrations().map(registration => registration.user)).toEqual(['1001']);
+
+    await phone.unregister();
+    await vi.waitFor(() => {
+      expect(standIn.getRegistrations()).toEqual([]);
+    });
+    expect(phone.getSnapshot().registrationState.status).toBe('unregistered');
+
+    await phone.disconnect();
+    expect(phone.getSnapshot().connectionStatus).toBe('disconnected');
+    expect(errors).toEqual([]);
+  });
+
+  it('接続し直すと前のUserAgentの登録を解除して停止する', async () => {
+    await connectAndRegister();
+    const previousUserAgent = phone.getUserAgent();
+
+    await connectAndRegister();
+    expect(phone.getUserAgent()).not.toBe(previousUserAgent);
+    expect(previousUserAgent?.isConnected()).toBe(false);
+    expect(standIn.getRegistrations()).toHaveLength(1);
+    expect(errors).toEqual([]);
+  });
+
+  it('接続に失敗したUserAgentは停止して保持しない', async () => {
+    // NodeのWebSocketはハンドシェイクの失敗でcloseを通知せず接続が終わらないため、
+    // WebSocketを作成できないURL（範囲外のポート番号）で接続に失敗させる
+    const config = { url: 'ws://127.0.0.1:99999/sip', username: '1001', password: '1234', registerExpires: 600 };
+    const stop = vi.spyOn(UserAgent.prototype, 'stop');
+    await expect(phone.connect({ ...config, dtmfTransport: 'info' })).rejects.toThrow();
+    expect(stop).toHaveBeenCalledTimes(1);
+    expect(phone.getUserAgent()).toBeNull();
+    expect(phone.getSnapshot().connectionStatus).toBe('error');
+  });
+
+  it('パスワードが違う場合は登録に失敗する', async () => {
+    await phone.connect({ url, username: '1001', password: 'wrong', registerExpires: 600, dtmfTransport: 'info' });
+    await phone.register(600);
+    await vi.waitFor(() => {
+      expect(phone.getSnapshot().registrationState.status).toBe('failed');
+    });
+    expect(errors.map(error => error.operation)).toEqual(['register']);
+    expect(standIn.getRegistrations()).toEqual([]);
+  });
+
+  it('エコー内線（9000）へ発信し、DTMFを送信してから切断できる', async () => {
+    await connectAndRegister();
+    await phone.makeCall('9000');
+    await vi.waitFor(() => {
+      expect(getFirstLine(phone)?.status).toBe('in-call');
+    });
+    const line = getFirstLine(phone);
+    expect(line?.direction).toBe('outgoing');
+    expect(line?.remoteIdentity.uri).toContain('sip:9000@');
+
+    await phone.sendDtmf(line?.id ?? '', '5', 'info');
+    expect(getFirstLine(phone)?.sentDtmfDigits).toBe('5');
+
+    await phone.hangupCall(line?.id ?? '');
+    await vi.waitFor(() => {
+      expect(getFirstLine(phone)?.status).toBe('ended');
+    });
+    expect(endedCalls.map(entry => entry.endReason)).toEqual(['answered']);
+    expect(errors).toEqual([]);
+  });
+
+  it('自動切断内線（9001）へ発信すると、一定時間後に相手から切断される', async () => {
+    await connectAndRegister();
+    await phone.makeCall('9001');
+    await vi.waitFor(() => {
+      expect(getFirstLine(phone)?.status).toBe('in-call');
+    });
+    await vi.waitFor(() => {
+      expect(getFirstLine(phone)?.status).toBe('ended');
+    }, { timeout: HANGUP_AFTER_MS * 10 });
+    expect(endedCalls.map(entry => entry.endReason)).toEqual(['answered']);
+  });
+
+  it('登録していない内線への発信は480で失敗する', async () => {
+    await connectAndRegister();
+    await phone.makeCall('1002');
+    await vi.waitFor(() => {
+      expect(getFirstLine(phone)?.status).toBe('rejected');
+    });
+    expect(errors.map(error => [error.operation, error.statusCode])).toEqual([['call', 480]]);
+    expect(endedCalls.map(entry => entry.endReason)).toEqual(['failed']);
+  });
+
+  it('打診通話は転送元を保留して別の回線で発信し、打診を中止すると転送元の通話へ戻る', async () => {
+    await connectAndRegister();
+    await phone.makeCall('9000');
+    await vi.waitFor(() => {
+      expect(getFirstLine(phone)?.status).toBe('in-call');
+    });
+    const lineId = getFirstLine(phone)?.id ?? '';
+
+    await phone.startConsultation(lineId, '9000');
+    await vi.waitFor(() => {
+      expect(phone.getSnapshot().transferState.isConsultEstablished).toBe(true);
+    });
+    const { transferState, lines, activeLineId } = phone.getSnapshot();
+    expect(transferState).toMatchObject({ status: 'consulting', mode: 'attended', lineId });
+    expect(lines.map(line => [line.id, line.status])).toEqual([
+      [lineId, 'on-hold'],
+      [transferState.consultLineId, 'in-call'],
+    ]);
+    expect(activeLineId).toBe(transferState.consultLineId);
+
+    await phone.cancelConsultation();
+    expect(phone.getSnapshot().transferState.status).toBe('idle');
+    await vi.waitFor(() => {
+      expect(phone.getSnapshot().lines.map(line => line.status)).toEqual(['in-call', 'ended']);
+    });
+    expect(phone.getSnapshot().activeLineId).toBe(lineId);
+    expect(errors).toEqual([]);
+  });
+
+  it('打診通話の相手が切断すると打診をやめ、転送元の通話は保留のまま残る', async () => {
+    await connectAndRegister();
+    await phone.makeCall('9000');
+    await vi.waitFor(() => {
+      expect(getFirstLine(phone)?.status).toBe('in-call');
+    });
+    const lineId = getFirstLine(phone)?.id ?? '';
+
+    await phone.startConsultation(lineId, '9001');
+    await vi.waitFor(() => {
+      expect(phone.getSnapshot().transferState.isConsultEstablished).toBe(true);
+    });
+    await vi.waitFor(() => {
+      expect(phone.getSnapshot().transferState.status).toBe('idle');
+    }, { timeout: HANGUP_AFTER_MS * 10 });
+    expect(phone.getSnapshot().lines.map(line => line.status)).toEqual(['on-hold', 'ended']);
+  });
+
+  it('代役サーバからのテスト発信に応答し、こちらから切断できる', async () => {
+    await connectAndRegister();
+    expect(standIn.placeTestCall('1001')).not.toBeNull();
+    await vi.waitFor(() => {
+      expect(getFirstLine(phone)?.status).toBe('ringing');
+    });
+    const lineId = getFirstLine(phone)?.id ?? '';
+    expect(getFirstLine(phone)?.direction).toBe('incoming');
+
+    await phone.answerCall(lineId);
+    await vi.waitFor(() => {
+      expect(getFirstLine(phone)?.status).toBe('in-call');
+    });
+
+    await phone.hangupCall(lineId);
+    await vi.waitFor(() => {
+      expect(getFirstLine(phone)?.status).toBe('ended');
+    });
+    expect(endedCalls.map(entry => [entry.direction, entry.endReason])).toEqual([['incoming', 'answered']]);
+  });
+
+  it('代役サーバからのテスト発信を拒否すると、回線は拒否の状態で終了する', async () => {
+    await connectAndRegister();
+    expect(standIn.placeTestCall('1001')).not.toBeNull();
+    await vi.waitFor(() => {
+      expect(getFirstLine(phone)?.status).toBe('ringing');
+    });
+
+    await phone.declineCall(getFirstLine(phone)?.id ?? '', 486);
+    expect(getFirstLine(phone)?.status).toBe('rejected');
+    await vi.waitFor(() => {
+      expect(endedCalls.map(entry => [entry.direction, entry.endReason])).toEqual([['incoming', 'rejected']]);
+    });
+    expect(getFirstLine(phone)?.status).toBe('rejected');
+  });
+
+  it('オフラインになると接続断より先に通話を切断済みにし、復帰後に再接続・再登録する', async () => {
+    await connectAndRegister();
+    let transportLostCount = 0;
+    let reconnectedCount = 0;
+    phone.on('transport-lost', () => {
+      transportLostCount++;
+    });
+    phone.on('reconnected', () => {
+      reconnectedCount++;
+    });
+    await phone.makeCall('9000');
+    await vi.waitFor(() => {
+      expect(getFirstLine(phone)?.status).toBe('in-call');
+    });
+
+    // ブラウザはWebSocketが切断されるより先にofflineを通知する
+    networkState.onLine = false;
+    network.dispatchEvent(new Event('offline'));
+    expect(getFirstLine(phone)?.status).toBe('failed');
+    expect(phone.getSnapshot()).toMatchObject({
+      connectionStatus: 'reconnecting',
+      isCallDropped: true,
+      registrationState: { status: 'registering' },
+    });
+    expect(endedCalls.map(entry => entry.endReason)).toEqual(['dropped']);
+    expect(transportLostCount).toBe(1);
+
+    // 続いて届く接続断では通話と登録の後始末を繰り返さない
+    standIn.close();
+    await vi.waitFor(() => {
+      expect(phone.getUserAgent()?.isConnected()).toBe(false);
+    });
+    expect(transportLostCount).toBe(1);
+    expect(phone.getSnapshot().connectionStatus).toBe('reconnecting');
+
+    networkState.onLine = true;
+    network.dispatchEvent(new Event('online'));
+    await vi.waitFor(() => {
+      expect(phone.getSnapshot().registrationState.status).toBe('registered');
+    });
+    expect(phone.getSnapshot().connectionStatus).toBe('connected');
+    expect(reconnectedCount).toBe(1);
+  });
+
+  it('代役サーバからのテストメッセージを受信できる', async () => {
+    await connectAndRegister();
+    const received: string[] = [];
+    phone.on('message', (_peerUri, message) => {
+      received.push(message.body);
+    });
+
+    expect(standIn.sendTestMessage('1001', 'こんにちは')).toBe(true);
+    await vi.waitFor(() => {
+      expect(received).toEqual(['こんにちは']);
+    });
+    // 表示していないスレッドで受信したメッセージは未読になる
+    const [thread] = phone.getSnapshot().chatThreads;
+    expect(thread.unreadCount).toBe(1);
+    phone.openChatThread(thread.peerUri);
+    expect(phone.getSnapshot().chatThreads[0].unreadCount).toBe(0);
+  });
+
+  it('エコー内線（9000）へメッセージを送信すると配信済みになり、返信を受信する', async () => {
+    await connectAndRegister();
+    const received: string[] = [];
+    phone.on('message', (_peerUri, message) => {
+      received.push(message.body);
+    });
+    await phone.sendMessage('9000', 'テスト');
+
+    const { activeChatPeerUri } = phone.getSnapshot();
+    expect(activeChatPeerUri).toContain('sip:9000@');
+    // 送信したメッセージは最終応答を受信してから配信済みになる
+    await vi.waitFor(() => {
+      const thread = phone.getSnapshot().chatThreads.find(candidate => candidate.peerUri === activeChatPeerUri);
+      expect(thread?.messages.map(message => [message.direction, message.status, message.statusCode]))
+        .toEqual([['outgoing', 'delivered', 200]]);
+      expect(received).toEqual(['テスト']);
+    });
+  });
+
+  it('登録中だけ在席状態を購読し、購読が拒否された内線は不明とする', async () => {
+    phone.setPresenceSettings({ eventPackage: 'dialog', extensions: ['1002'] });
+    await connectAndRegister();
+    // 代役サーバはSUBSCRIBEを489 Bad Eventで拒否する
+    await vi.waitFor(() => {
+      expect(phone.getSnapshot().presenceStates).toEqual({ 1002: 'unknown' });
+    });
+
+    await phone.unregister();
+    expect(phone.getSnapshot().presenceStates).toEqual({});
+  });
+});
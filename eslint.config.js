@@ -93,6 +93,7 @@ export default tseslint.config(
         project: [
           './tsconfig.node.json',
           './tsconfig.app.json',
+          './tsconfig.e2e.json',
         ],
         tsconfigRootDir: import.meta.dirname,
       },
@@ -145,6 +146,7 @@ export default tseslint.config(
       'tsconfig.json',
       'tsconfig.app.json',
       'tsconfig.node.json',
+      'tsconfig.e2e.json',
       '.devcontainer/devcontainer.json',
     ],
     language: 'json/json',
@@ -156,6 +158,7 @@ export default tseslint.config(
       'tsconfig.json',
       'tsconfig.app.json',
       'tsconfig.node.json',
+      'tsconfig.e2e.json',
       '.devcontainer/devcontainer.json',
     ],
     language: 'json/jsonc',
@@ -0,0 +1,59 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+import type { SipStandInServer } from './stand-in-server.ts';
+
+/**
+ * 代役サーバの操作用HTTPエンドポイントのパスの接頭辞
+ */
+export const ADMIN_PATH_PREFIX = '/__sip-stand-in/';
+
+/**
+ * JSONのレスポンスを返す
+ * @param response - HTTPレスポンス
+ * @param statusCode - ステータスコード
+ * @param body - 本文
+ */
+const sendJson = (response: ServerResponse, statusCode: number, body: unknown): void => {
+  response.statusCode = statusCode;
+  response.setHeader('Content-Type', 'application/json; charset=utf-8');
+  response.end(JSON.stringify(body));
+};
+
+/**
+ * 代役サーバの操作用HTTPリクエストを処理する
+ * - GET  /__sip-stand-in/registrations        登録の一覧
+ * - POST /__sip-stand-in/call?to=1001          テスト発信
+ * - POST /__sip-stand-in/message?to=1001&body= テストメッセージ
+ * @param standIn - 代役サーバ
+ * @param request - HTTPリクエスト
+ * @param response - HTTPレスポンス
+ * @returns 操作用のパスへのリクエストを処理した場合true
+ */
+export const handleAdminRequest = (
+  standIn: SipStandInServer,
+  request: IncomingMessage,
+  response: ServerResponse,
+): boolean => {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  if (!url.pathname.startsWith(ADMIN_PATH_PREFIX)) {
+    return false;
+  }
+
+  const action = url.pathname.slice(ADMIN_PATH_PREFIX.length);
+  const to = url.searchParams.get('to') ?? '';
+  if (action === 'registrations' && request.method === 'GET') {
+    sendJson(response, 200, standIn.getRegistrations());
+  }
+  else if (action === 'call' && request.method === 'POST') {
+    const callId = standIn.placeTestCall(to);
+    sendJson(response, callId ? 200 : 404, callId ? { callId } : { error: `${to}は登録されていません` });
+  }
+  else if (action === 'message' && request.method === 'POST') {
+    const isSent = standIn.sendTestMessage(to, url.searchParams.get('body') ?? 'sip-stand-inからのテストメッセージです');
+    sendJson(response, isSent ? 200 : 404, isSent ? { sent: true } : { error: `${to}は登録されていません` });
+  }
+  else {
+    sendJson(response, 404, { error: '不明な操作です' });
+  }
+  return true;
+};
@@ -0,0 +1,32 @@
+import { createServer } from 'node:http';
+
+import { handleAdminRequest } from './admin.ts';
+import { createSipStandInServer } from './stand-in-server.ts';
+
+/**
+ * SIP over WebSocketの代役サーバを単独で起動する
+ * 使い方: pnpm sip-stand-in（待ち受けポートは環境変数SIP_STAND_IN_PORT、既定は5070）
+ */
+const port = Number(process.env.SIP_STAND_IN_PORT ?? 5070);
+const standIn = createSipStandInServer();
+
+const server = createServer((request, response) => {
+  if (!handleAdminRequest(standIn, request, response)) {
+    response.statusCode = 404;
+    response.end();
+  }
+});
+server.on('upgrade', (request, socket) => {
+  if (!standIn.handleUpgrade(request, socket)) {
+    socket.end('HTTP/1.1 404 Not Found\r\n\r\n');
+  }
+});
+
+server.listen(port, () => {
+  console.log(`[sip-stand-in] ws://localhost:${String(port)}/sip で待ち受けています`);
+});
+
+process.on('SIGINT', () => {
+  standIn.close();
+  server.close();
+});
@@ -0,0 +1,92 @@
+import { createHash, randomBytes } from 'node:crypto';
+
+/**
+ * 発行したnonceの有効期間（ミリ秒）
+ */
+const NONCE_LIFETIME_MS = 5 * 60 * 1000;
+
+/**
+ * MD5ダイジェストを16進数で求める
+ * @param value - 入力
+ * @returns 16進数のダイジェスト
+ */
+const md5 = (value: string): string => createHash('md5').update(value).digest('hex');
+
+/**
+ * Authorizationヘッダのパラメータを解析する
+ * @param header - Authorizationヘッダの値（例: Digest username="1001", realm="..."）
+ * @returns パラメータ名（小文字）と値の組。Digest認証でない場合はnull
+ */
+const parseDigestParameters = (header: string): Map<string, string> | null => {
+  const match = /^Digest\s+(.*)$/i.exec(header.trim());
+  if (!match) {
+    return null;
+  }
+  const parameters = new Map<string, string>();
+  for (const parameter of match[1].matchAll(/([a-z-]+)\s*=\s*("[^"]*"|[^,\s]+)/gi)) {
+    parameters.set(parameter[1].toLowerCase(), parameter[2].replace(/^"|"$/g, ''));
+  }
+  return parameters;
+};
+
+/**
+ * ダイジェスト認証（RFC 2617、MD5、qop=auth）のチャレンジと検証を行う認証器
+ */
+export interface DigestAuthenticator {
+  createChallenge: () => string;
+  verify: (header: string, method: string) => string | null;
+}
+
+/**
+ * ダイジェスト認証器を作成する
+ * @param realm - 認証レルム
+ * @param users - ユーザ名とパスワードの組
+ * @returns ダイジェスト認証器
+ */
+export const createDigestAuthenticator = (realm: string, users: ReadonlyMap<string, string>): DigestAuthenticator => {
+  const nonces = new Map<string, number>();
+
+  return {
+    /**
+     * WWW-Authenticateヘッダの値を作成し、nonceを発行する
+     * @returns WWW-Authenticateヘッダの値
+     */
+    createChallenge: () => {
+      const now = Date.now();
+      for (const [nonce, issuedAt] of nonces) {
+        if (now - issuedAt > NONCE_LIFETIME_MS) {
+          nonces.delete(nonce);
+        }
+      }
+      const nonce = randomBytes(16).toString('hex');
+      nonces.set(nonce, now);
+      return `Digest realm="${realm}", nonce="${nonce}", algorithm=MD5, qop="auth"`;
+    },
+
+    /**
+     * Authorizationヘッダを検証する
+     * @param header - Authorizationヘッダの値
+     * @param method - リクエストのメソッド
+     * @returns 認証できた場合はユーザ名、できない場合はnull
+     */
+    verify: (header, method) => {
+      const parameters = parseDigestParameters(header);
+      const username = parameters?.get('username') ?? '';
+      const nonce = parameters?.get('nonce') ?? '';
+      const uri = parameters?.get('uri') ?? '';
+      const password = users.get(username);
+      const issuedAt = nonces.get(nonce);
+      if (!parameters || password === undefined || issuedAt === undefined || Date.now() - issuedAt > NONCE_LIFETIME_MS) {
+        return null;
+      }
+
+      const ha1 = md5(`${username}:${realm}:${password}`);
+      const ha2 = md5(`${method}:${uri}`);
+      const qop = parameters.get('qop');
+      const expected = qop
+        ? md5(`${ha1}:${nonce}:${parameters.get('nc') ?? ''}:${parameters.get('cnonce') ?? ''}:${qop}:${ha2}`)
+        : md5(`${ha1}:${nonce}:${ha2}`);
+      return parameters.get('response') === expected ? username : null;
+    },
+  };
+};
@@ -0,0 +1,107 @@
+import { randomBytes } from 'node:crypto';
+
+/**
+ * SDPのメディアの方向と、応答する側から見た方向の対応
+ */
+const ANSWER_DIRECTIONS: Record<string, string> = {
+  inactive: 'inactive',
+  recvonly: 'sendonly',
+  sendonly: 'recvonly',
+  sendrecv: 'sendrecv',
+};
+
+/**
+ * ICEとDTLSの属性（セッションレベル）を作成する
+ * 代役サーバはメディアを扱わないため、形式だけ正しいランダムな値を使う
+ * @returns SDPの行
+ */
+const createTransportAttributes = (): string[] => {
+  const fingerprint = [...randomBytes(32)].map(byte => byte.toString(16).padStart(2, '0').toUpperCase()).join(':');
+  return [
+    `a=ice-ufrag:${randomBytes(4).toString('hex')}`,
+    `a=ice-pwd:${randomBytes(12).toString('hex')}`,
+    `a=fingerprint:sha-256 ${fingerprint}`,
+  ];
+};
+
+/**
+ * SDPのセッション記述の先頭行を作成する
+ * @returns SDPの行
+ */
+const createSessionLines = (): string[] => {
+  const sessionId = String(Date.now());
+  return [
+    'v=0',
+    `o=sip-stand-in ${sessionId} ${sessionId} IN IP4 127.0.0.1`,
+    's=sip-stand-in',
+    't=0 0',
+  ];
+};
+
+/**
+ * 代役サーバから発信するときのSDPオファーを作成する（音声のみ、Opus/PCMU）
+ * @returns SDP
+ */
+export const createOfferSdp = (): string => {
+  return [
+    ...createSessionLines(),
+    'a=group:BUNDLE 0',
+    ...createTransportAttributes(),
+    'm=audio 9 UDP/TLS/RTP/SAVPF 111 0',
+    'c=IN IP4 0.0.0.0',
+    'a=rtcp:9 IN IP4 0.0.0.0',
+    'a=mid:0',
+    'a=setup:actpass',
+    'a=rtcp-mux',
+    'a=sendrecv',
+    'a=rtpmap:111 opus/48000/2',
+    'a=rtpmap:0 PCMU/8000',
+    '',
+  ].join('\r\n');
+};
+
+/**
+ * SDPオファーに対するSDPアンサーを作成する
+ * 音声・映像はオファーの最初のペイロードタイプで受け入れ、方向はオファーに合わせる
+ * それ以外のメディア（データチャネルなど）はポート0で拒否する
+ * @param offer - 受信したSDPオファー
+ * @returns SDPアンサー
+ */
+export const createAnswerSdp = (offer: string): string => {
+  const sections = offer.split(/\r?\nm=/).slice(1).map(section => `m=${section}`.split(/\r?\n/).filter(line => line !== ''));
+  const acceptedMids: string[] = [];
+  const mediaLines: string[] = [];
+
+  for (const lines of sections) {
+    const [media, , protocol, ...formats] = lines[0].slice(2).split(' ');
+    const mid = lines.find(line => line.startsWith('a=mid:'))?.slice(6) ?? '';
+    if ((media !== 'audio' && media !== 'video') || formats.length === 0) {
+      mediaLines.push(`m=${media} 0 ${protocol} ${formats.join(' ')}`, ...(mid ? [`a=mid:${mid}`] : []));
+      continue;
+    }
+
+    const format = formats[0];
+    const direction = lines.find(line => /^a=(sendrecv|sendonly|recvonly|inactive)$/.test(line))?.slice(2) ?? 'sendrecv';
+    if (mid) {
+      acceptedMids.push(mid);
+    }
+    mediaLines.push(
+      `m=${media} 9 ${protocol} ${format}`,
+      'c=IN IP4 0.0.0.0',
+      'a=rtcp:9 IN IP4 0.0.0.0',
+      ...(mid ? [`a=mid:${mid}`] : []),
+      'a=setup:active',
+      'a=rtcp-mux',
+      `a=${ANSWER_DIRECTIONS[direction] ?? 'sendrecv'}`,
+      ...lines.filter(line => line.startsWith(`a=rtpmap:${format} `) || line.startsWith(`a=fmtp:${format} `)),
+    );
+  }
+
+  return [
+    ...createSessionLines(),
+    ...(acceptedMids.length > 0 ? [`a=group:BUNDLE ${acceptedMids.join(' ')}`] : []),
+    ...createTransportAttributes(),
+    ...mediaLines,
+    '',
+  ].join('\r\n');
+};
@@ -0,0 +1,218 @@
+import { randomBytes } from 'node:crypto';
+
+/**
+ * 解析したSIPメッセージ
+ * リクエストの場合はmethodとrequestUri、レスポンスの場合はstatusCodeとreasonPhraseを持つ
+ * headersは受信した順のヘッダ名と値の組（Viaは1行1値に展開する）
+ */
+export interface SipMessage {
+  method: string | null;
+  requestUri: string;
+  statusCode: number | null;
+  reasonPhrase: string;
+  headers: [string, string][];
+  body: string;
+}
+
+/**
+ * 短縮形のヘッダ名と正式名の対応（RFC 3261 7.3.3）
+ */
+const COMPACT_HEADER_NAMES: Record<string, string> = {
+  c: 'content-type',
+  e: 'content-encoding',
+  f: 'from',
+  i: 'call-id',
+  k: 'supported',
+  l: 'content-length',
+  m: 'contact',
+  s: 'subject',
+  t: 'to',
+  v: 'via',
+};
+
+/**
+ * ヘッダ名を比較用に正規化する
+ * @param name - ヘッダ名
+ * @returns 小文字の正式名
+ */
+const normalizeHeaderName = (name: string): string => {
+  const lower = name.trim().toLowerCase();
+  return COMPACT_HEADER_NAMES[lower] ?? lower;
+};
+
+/**
+ * SIPメッセージを解析する
+ * @param text - 受信したテキスト
+ * @returns SIPメッセージ。解析できない場合はnull
+ */
+export const parseSipMessage = (text: string): SipMessage | null => {
+  const separator = text.indexOf('\r\n\r\n');
+  const head = separator === -1 ? text : text.slice(0, separator);
+  const body = separator === -1 ? '' : text.slice(separator + 4);
+  const [startLine, ...headerLines] = head.split('\r\n');
+
+  const status = /^SIP\/2\.0\s+(\d{3})\s*(.*)$/.exec(startLine);
+  const request = /^([A-Z]+)\s+(\S+)\s+SIP\/2\.0$/.exec(startLine);
+  if (!status && !request) {
+    return null;
+  }
+
+  const headers: [string, string][] = [];
+  for (const line of headerLines) {
+    // 行頭が空白の行は前のヘッダの折り返し
+    const last = headers.at(-1);
+    if (/^\s/.test(line) && last) {
+      last[1] += ` ${line.trim()}`;
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon <= 0) {
+      continue;
+    }
+    const name = line.slice(0, colon).trim();
+    const value = line.slice(colon + 1).trim();
+    if (normalizeHeaderName(name) === 'via') {
+      for (const via of value.split(/,(?=\s*SIP\/2\.0\/)/i)) {
+        headers.push(['Via', via.trim()]);
+      }
+      continue;
+    }
+    headers.push([name, value]);
+  }
+
+  return {
+    method: request ? request[1] : null,
+    requestUri: request ? request[2] : '',
+    statusCode: status ? Number(status[1]) : null,
+    reasonPhrase: status ? status[2] : '',
+    headers,
+    body,
+  };
+};
+
+/**
+ * SIPメッセージを送信用のテキストに変換する（Content-Lengthは本文から設定し直す）
+ * @param message - SIPメッセージ
+ * @returns 送信するテキスト
+ */
+export const serializeSipMessage = (message: SipMessage): string => {
+  const startLine = message.method
+    ? `${message.method} ${message.requestUri} SIP/2.0`
+    : `SIP/2.0 ${String(message.statusCode)} ${message.reasonPhrase}`;
+  const headerLines = message.headers
+    .filter(([name]) => normalizeHeaderName(name) !== 'content-length')
+    .map(([name, value]) => `${name}: ${value}`);
+  headerLines.push(`Content-Length: ${String(Buffer.byteLength(message.body, 'utf8'))}`);
+  return `${[startLine, ...headerLines].join('\r\n')}\r\n\r\n${message.body}`;
+};
+
+/**
+ * ヘッダの値をすべて取得する（短縮形のヘッダ名にも対応）
+ * @param message - SIPメッセージ
+ * @param name - ヘッダ名
+ * @returns ヘッダの値の一覧
+ */
+export const getHeaders = (message: SipMessage, name: string): string[] => {
+  const normalized = normalizeHeaderName(name);
+  return message.headers
+    .filter(([headerName]) => normalizeHeaderName(headerName) === normalized)
+    .map(([, value]) => value);
+};
+
+/**
+ * 最初のヘッダの値を取得する
+ * @param message - SIPメッセージ
+ * @param name - ヘッダ名
+ * @returns ヘッダの値（ない場合は空文字）
+ */
+export const getHeader = (message: SipMessage, name: string): string => {
+  return getHeaders(message, name)[0] ?? '';
+};
+
+/**
+ * ヘッダを置き換える（同名のヘッダはすべて削除してから追加する）
+ * @param message - SIPメッセージ
+ * @param name - ヘッダ名
+ * @param value - ヘッダの値
+ */
+export const setHeader = (message: SipMessage, name: string, value: string): void => {
+  const normalized = normalizeHeaderName(name);
+  message.headers = message.headers.filter(([headerName]) => normalizeHeaderName(headerName) !== normalized);
+  message.headers.push([name, value]);
+};
+
+/**
+ * ヘッダ値（name-addr）からSIP URIを取り出す
+ * @param value - ヘッダ値（例: "Alice" <sip:1001@example.com>;tag=abc）またはURI
+ * @returns SIP URI
+ */
+export const getAddressUri = (value: string): string => {
+  const bracketed = /<([^>]*)>/.exec(value);
+  return (bracketed ? bracketed[1] : value.split(';')[0]).trim();
+};
+
+/**
+ * SIP URIまたはヘッダ値からユーザ部を取り出す
+ * @param value - SIP URIまたはヘッダ値
+ * @returns ユーザ部（ない場合は空文字）
+ */
+export const getAddressUser = (value: string): string => {
+  return /^sips?:([^@;>]+)@/.exec(getAddressUri(value))?.[1] ?? '';
+};
+
+/**
+ * ヘッダ値からパラメータを取り出す
+ * @param value - ヘッダ値
+ * @param name - パラメータ名（例: tag、branch）
+ * @returns パラメータの値（ない場合は空文字）
+ */
+export const getHeaderParameter = (value: string, name: string): string => {
+  const params = value.replace(/<[^>]*>/, '');
+  return new RegExp(`;\\s*${name}=([^;,\\s]+)`, 'i').exec(params)?.[1] ?? '';
+};
+
+/**
+ * ランダムなトークン（タグ、ブランチ、Call-IDなど）を作成する
+ * @returns 16進数の文字列
+ */
+export const createToken = (): string => randomBytes(8).toString('hex');
+
+/**
+ * リクエストに対するレスポンスを作成する
+ * Via、From、To、Call-ID、CSeqをリクエストから引き継ぎ、Toにタグがなければ付与する
+ * @param request - リクエスト
+ * @param statusCode - ステータスコード
+ * @param reasonPhrase - リーズンフレーズ
+ * @param options - 追加するヘッダ、本文、Toタグ
+ * @param options.headers - 追加するヘッダ
+ * @param options.body - 本文
+ * @param options.toTag - Toヘッダに付与するタグ
+ * @returns レスポンス
+ */
+export const createResponse = (
+  request: SipMessage,
+  statusCode: number,
+  reasonPhrase: string,
+  options: { headers?: [string, string][]; body?: string; toTag?: string } = {},
+): SipMessage => {
+  let to = getHeader(request, 'to');
+  if (statusCode > 100 && !getHeaderParameter(to, 'tag')) {
+    to += `;tag=${options.toTag ?? createToken()}`;
+  }
+
+  return {
+    method: null,
+    requestUri: '',
+    statusCode,
+    reasonPhrase,
+    headers: [
+      ...getHeaders(request, 'via').map((via): [string, string] => ['Via', via]),
+      ['From', getHeader(request, 'from')],
+      ['To', to],
+      ['Call-ID', getHeader(request, 'call-id')],
+      ['CSeq', getHeader(request, 'cseq')],
+      ...(options.headers ?? []),
+    ],
+    body: options.body ?? '',
+  };
+};
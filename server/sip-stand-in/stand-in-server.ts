@@ -0,0 +1,711 @@
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+import type { SipMessage } from './sip-message.ts';
+import type { WebSocketConnection } from './websocket.ts';
+
+import { createDigestAuthenticator } from './digest.ts';
+import { createAnswerSdp, createOfferSdp } from './sdp.ts';
+import {
+  createResponse,
+  createToken,
+  getAddressUri,
+  getAddressUser,
+  getHeader,
+  getHeaderParameter,
+  getHeaders,
+  parseSipMessage,
+  serializeSipMessage,
+  setHeader,
+} from './sip-message.ts';
+import { acceptWebSocket } from './websocket.ts';
+
+/**
+ * 代役サーバのホスト名（Via、Contact、Call-IDで使用する）
+ */
+const STAND_IN_HOST = 'sip-stand-in.invalid';
+
+/**
+ * 代役サーバ自身のユーザ名（テスト発信・テストメッセージの発信元）
+ */
+const STAND_IN_USER = 'standin';
+
+/**
+ * 代役サーバが付与するViaのブランチの接頭辞
+ * 中継したリクエストのブランチには受信した接続のIDを埋め込み、レスポンスの返送先を特定する
+ */
+const PROXY_BRANCH_PREFIX = 'z9hG4bKsi-';
+
+/**
+ * 登録の既定の有効期間（秒）
+ */
+const DEFAULT_EXPIRES = 3600;
+
+/**
+ * 代役サーバが応答するメソッド
+ */
+const ALLOWED_METHODS = 'INVITE, ACK, CANCEL, BYE, INFO, MESSAGE, OPTIONS, UPDATE';
+
+/**
+ * 代役サーバのオプション
+ * echoExtensionとhangupExtensionはシグナリングの確認用の内線で、どちらも音声（RTP）は送受信しない
+ */
+export interface SipStandInOptions {
+  path?: string;
+  realm?: string;
+  users?: Record<string, string>;
+  echoExtension?: string;
+  hangupExtension?: string;
+  hangupAfterMs?: number;
+  log?: (message: string) => void;
+}
+
+/**
+ * 代役サーバに登録されているクライアント
+ */
+export interface SipStandInRegistration {
+  user: string;
+  contact: string;
+  remoteAddress: string;
+  expiresAt: number;
+}
+
+/**
+ * SIP over WebSocketの代役サーバ
+ */
+export interface SipStandInServer {
+  handleUpgrade: (request: IncomingMessage, socket: Duplex) => boolean;
+  placeTestCall: (to: string) => string | null;
+  sendTestMessage: (to: string, body: string) => boolean;
+  getRegistrations: () => SipStandInRegistration[];
+  close: () => void;
+}
+
+/**
+ * 登録（ユーザと接続の対応）
+ */
+interface Binding {
+  user: string;
+  contact: string;
+  connection: WebSocketConnection;
+  expiresAt: number;
+}
+
+/**
+ * 代役サーバが当事者となっているダイアログ（エコー・自動切断内線の通話とテスト発信）
+ */
+interface LocalDialog {
+  callId: string;
+  connection: WebSocketConnection;
+  localUri: string;
+  localTag: string;
+  remoteUri: string;
+  remoteTag: string;
+  remoteTarget: string;
+  localCseq: number;
+  timer: null | ReturnType<typeof setTimeout>;
+}
+
+/**
+ * 既定のユーザ（パスワードはすべて1234）
+ */
+const DEFAULT_USERS: Record<string, string> = {
+  1001: '1234',
+  1002: '1234',
+  1003: '1234',
+};
+
+/**
+ * ローカル開発用のSIP over WebSocketの代役サーバを作成する
+ * ダイジェスト認証付きのREGISTER、登録済みクライアント間の中継、エコー・自動切断内線への着信応答、
+ * 登録済みクライアントへのテスト発信とテストメッセージを扱う
+ * シグナリングのみを扱い、メディア（RTP）は送受信しない
+ * @param options - オプション
+ * @returns 代役サーバ
+ */
+export const createSipStandInServer = (options: SipStandInOptions = {}): SipStandInServer => {
+  const path = options.path ?? '/sip';
+  const realm = options.realm ?? 'sip-stand-in';
+  const users = new Map(Object.entries(options.users ?? DEFAULT_USERS));
+  const echoExtension = options.echoExtension ?? '9000';
+  const hangupExtension = options.hangupExtension ?? '9001';
+  const hangupAfterMs = options.hangupAfterMs ?? 30000;
+  const log = options.log ?? ((message: string) => {
+    console.log(`[sip-stand-in] ${message}`);
+  });
+
+  const authenticator = createDigestAuthenticator(realm, users);
+  const connections = new Map<string, WebSocketConnection>();
+  const bindings = new Map<string, Binding>();
+  const dialogs = new Map<string, LocalDialog>();
+  const clientTransactions = new Map<string, (response: SipMessage) => void>();
+
+  /**
+   * SIPメッセージを送信する
+   * @param connection - 送信先の接続
+   * @param message - SIPメッセージ
+   */
+  const send = (connection: WebSocketConnection, message: SipMessage): void => {
+    connection.send(serializeSipMessage(message));
+  };
+
+  /**
+   * 有効な登録を取得する
+   * @param user - ユーザ名
+   * @returns 登録（ない場合や期限切れの場合はnull）
+   */
+  const findBinding = (user: string): Binding | null => {
+    const binding = bindings.get(user);
+    if (!binding || binding.expiresAt < Date.now()) {
+      return null;
+    }
+    return binding;
+  };
+
+  /**
+   * Contactのユーザ部から登録を取得する（ダイアログ内リクエストの転送先の特定に使用する）
+   * @param contactUser - ContactのURIのユーザ部
+   * @returns 登録（ない場合はnull）
+   */
+  const findBindingByContactUser = (contactUser: string): Binding | null => {
+    for (const user of bindings.keys()) {
+      const binding = findBinding(user);
+      if (binding && getAddressUser(binding.contact) === contactUser) {
+        return binding;
+      }
+    }
+    return null;
+  };
+
+  /**
+   * 代役サーバからリクエストを送信する
+   * @param connection - 送信先の接続
+   * @param request - リクエスト（Viaは自動で付与する）
+   * @param onResponse - レスポンスを受信したときの処理
+   */
+  const sendRequest = (
+    connection: WebSocketConnection,
+    request: SipMessage,
+    onResponse: (response: SipMessage) => void = () => undefined,
+  ): void => {
+    const branch = `z9hG4bK${createToken()}`;
+    request.headers.unshift(['Via', `SIP/2.0/WS ${STAND_IN_HOST};branch=${branch}`]);
+    if (request.method !== 'ACK') {
+      clientTransactions.set(branch, onResponse);
+    }
+    send(connection, request);
+  };
+
+  /**
+   * ダイアログ内リクエストを送信する
+   * @param dialog - ダイアログ
+   * @param method - メソッド
+   * @param headers - 追加するヘッダ
+   * @param body - 本文
+   */
+  const sendInDialog = (dialog: LocalDialog, method: string, headers: [string, string][] = [], body = ''): void => {
+    if (method !== 'ACK') {
+      dialog.localCseq++;
+    }
+    sendRequest(dialog.connection, {
+      method,
+      requestUri: dialog.remoteTarget,
+      statusCode: null,
+      reasonPhrase: '',
+      headers: [
+        ['Max-Forwards', '70'],
+        ['From', `<${dialog.localUri}>;tag=${dialog.localTag}`],
+        ['To', `<${dialog.remoteUri}>;tag=${dialog.remoteTag}`],
+        ['Call-ID', dialog.callId],
+        ['CSeq', `${String(dialog.localCseq)} ${method}`],
+        ...headers,
+      ],
+      body,
+    });
+  };
+
+  /**
+   * ダイアログを終了する
+   * @param callId - Call-ID
+   */
+  const endDialog = (callId: string): void => {
+    const dialog = dialogs.get(callId);
+    if (dialog?.timer) {
+      clearTimeout(dialog.timer);
+    }
+    dialogs.delete(callId);
+  };
+
+  /**
+   * ダイアログ外のMESSAGEを送信する
+   * @param fromUser - 送信元のユーザ名
+   * @param binding - 送信先の登録
+   * @param contentType - Content-Type
+   * @param body - 本文
+   */
+  const sendMessage = (fromUser: string, binding: Binding, contentType: string, body: string): void => {
+    sendRequest(binding.connection, {
+      method: 'MESSAGE',
+      requestUri: getAddressUri(binding.contact),
+      statusCode: null,
+      reasonPhrase: '',
+      headers: [
+        ['Max-Forwards', '70'],
+        ['From', `<sip:${fromUser}@${realm}>;tag=${createToken()}`],
+        ['To', `<sip:${binding.user}@${realm}>`],
+        ['Call-ID', `${createToken()}@${STAND_IN_HOST}`],
+        ['CSeq', '1 MESSAGE'],
+        ['Content-Type', contentType],
+      ],
+      body,
+    });
+  };
+
+  /**
+   * REGISTERを処理する
+   * @param connection - 受信した接続
+   * @param request - リクエスト
+   */
+  const handleRegister = (connection: WebSocketConnection, request: SipMessage): void => {
+    const user = getAddressUser(getHeader(request, 'to'));
+    const authenticatedUser = authenticator.verify(getHeader(request, 'authorization'), 'REGISTER');
+    if (!authenticatedUser || authenticatedUser !== user) {
+      send(connection, createResponse(request, 401, 'Unauthorized', {
+        headers: [['WWW-Authenticate', authenticator.createChallenge()]],
+      }));
+      return;
+    }
+
+    const contact = getHeader(request, 'contact');
+    const expires = Number(getHeaderParameter(contact, 'expires') || getHeader(request, 'expires') || DEFAULT_EXPIRES);
+    if (contact === '*' || expires === 0) {
+      bindings.delete(user);
+      log(`登録解除: ${user}`);
+      send(connection, createResponse(request, 200, 'OK'));
+      return;
+    }
+
+    const contactValue = contact.replace(/;\s*expires=\d+/i, '');
+    bindings.set(user, { user, contact: contactValue, connection, expiresAt: Date.now() + expires * 1000 });
+    log(`登録: ${user} (${connection.remoteAddress})`);
+    send(connection, createResponse(request, 200, 'OK', {
+      headers: [['Contact', `${contactValue};expires=${String(expires)}`], ['Expires', String(expires)]],
+    }));
+  };
+
+  /**
+   * エコー・自動切断内線へのINVITEに応答する
+   * エコー内線はダイアログ内のINFOとMESSAGEを送り返し（音声は折り返さない）、自動切断内線は一定時間後に切断する
+   * @param connection - 受信した接続
+   * @param request - INVITE
+   * @param extension - 着信した内線番号
+   */
+  const answerLocalInvite = (connection: WebSocketConnection, request: SipMessage, extension: string): void => {
+    const localTag = createToken();
+    const callId = getHeader(request, 'call-id');
+    const from = getHeader(request, 'from');
+    const contentType = getHeader(request, 'content-type');
+    if (!request.body || !contentType.startsWith('application/sdp')) {
+      send(connection, createResponse(request, 488, 'Not Acceptable Here'));
+      return;
+    }
+
+    const dialog: LocalDialog = {
+      callId,
+      connection,
+      localUri: getAddressUri(getHeader(request, 'to')),
+      localTag,
+      remoteUri: getAddressUri(from),
+      remoteTag: getHeaderParameter(from, 'tag'),
+      remoteTarget: getAddressUri(getHeader(request, 'contact')),
+      localCseq: 0,
+      timer: null,
+    };
+    dialogs.set(callId, dialog);
+    send(connection, createResponse(request, 100, 'Trying'));
+    send(connection, createResponse(request, 200, 'OK', {
+      toTag: localTag,
+      headers: [
+        ['Contact', `<sip:${extension}@${STAND_IN_HOST};transport=ws>`],
+        ['Allow', ALLOWED_METHODS],
+        ['Content-Type', 'application/sdp'],
+      ],
+      body: createAnswerSdp(request.body),
+    }));
+    log(`応答: ${getAddressUser(from)} → ${extension}`);
+
+    if (extension === hangupExtension) {
+      dialog.timer = setTimeout(() => {
+        log(`自動切断内線の通話を終了: ${getAddressUser(from)}`);
+        sendInDialog(dialog, 'BYE');
+        endDialog(callId);
+      }, hangupAfterMs);
+    }
+  };
+
+  /**
+   * 代役サーバが当事者となっているダイアログ内のリクエストを処理する
+   * @param dialog - ダイアログ
+   * @param request - リクエスト
+   */
+  const handleDialogRequest = (dialog: LocalDialog, request: SipMessage): void => {
+    const method = request.method ?? '';
+    const contentType = getHeader(request, 'content-type');
+    const isEcho = getAddressUser(dialog.localUri) === echoExtension;
+
+    switch (method) {
+      case 'ACK':
+        return;
+      case 'BYE':
+        send(dialog.connection, createResponse(request, 200, 'OK'));
+        endDialog(dialog.callId);
+        log(`切断: ${getAddressUser(dialog.remoteUri)}`);
+        return;
+      case 'INFO':
+      case 'MESSAGE':
+        send(dialog.connection, createResponse(request, 200, 'OK'));
+        if (isEcho && request.body) {
+          sendInDialog(dialog, method, [['Content-Type', contentType]], request.body);
+        }
+        return;
+      case 'INVITE':
+      case 'UPDATE': {
+        // 保留・ビデオ追加などの再ネゴシエーションにはオファーの方向に合わせたアンサーを返す
+        const contact = getHeader(request, 'contact');
+        if (contact) {
+          dialog.remoteTarget = getAddressUri(contact);
+        }
+        const hasOffer = request.body !== '' && contentType.startsWith('application/sdp');
+        send(dialog.connection, createResponse(request, 200, 'OK', {
+          headers: [
+            ['Contact', `<sip:${getAddressUser(dialog.localUri)}@${STAND_IN_HOST};transport=ws>`],
+            ...(hasOffer ? [['Content-Type', 'application/sdp'] as [string, string]] : []),
+          ],
+          body: hasOffer ? createAnswerSdp(request.body) : '',
+        }));
+        return;
+      }
+      default:
+        send(dialog.connection, createResponse(request, 405, 'Method Not Allowed', {
+          headers: [['Allow', ALLOWED_METHODS]],
+        }));
+    }
+  };
+
+  /**
+   * 登録済みクライアントへリクエストを中継する
+   * @param connection - 受信した接続
+   * @param request - リクエスト
+   * @param binding - 転送先の登録
+   * @param isRetargeted - Request-URIを登録のContactに書き換える場合true
+   */
+  const proxyRequest = (
+    connection: WebSocketConnection,
+    request: SipMessage,
+    binding: Binding,
+    isRetargeted: boolean,
+  ): void => {
+    const maxForwards = Number(getHeader(request, 'max-forwards') || 70);
+    if (maxForwards <= 0) {
+      send(connection, createResponse(request, 483, 'Too Many Hops'));
+      return;
+    }
+
+    const branch = getHeaderParameter(getHeaders(request, 'via')[0] ?? '', 'branch');
+    const forwarded: SipMessage = {
+      ...request,
+      requestUri: isRetargeted ? getAddressUri(binding.contact) : request.requestUri,
+      headers: [
+        ['Via', `SIP/2.0/WS ${STAND_IN_HOST};branch=${PROXY_BRANCH_PREFIX}${connection.id}-${branch}`],
+        ...request.headers,
+      ],
+    };
+    setHeader(forwarded, 'Max-Forwards', String(maxForwards - 1));
+    send(binding.connection, forwarded);
+  };
+
+  /**
+   * 受信したリクエストを処理する
+   * @param connection - 受信した接続
+   * @param request - リクエスト
+   */
+  const handleRequest = (connection: WebSocketConnection, request: SipMessage): void => {
+    const method = request.method ?? '';
+    const targetUser = getAddressUser(request.requestUri);
+    const isInDialog = getHeaderParameter(getHeader(request, 'to'), 'tag') !== '';
+
+    if (method === 'REGISTER') {
+      handleRegister(connection, request);
+      return;
+    }
+
+    // 代役サーバが当事者となっているダイアログ内のリクエスト
+    const dialog = isInDialog ? dialogs.get(getHeader(request, 'call-id')) : undefined;
+    if (dialog) {
+      handleDialogRequest(dialog, request);
+      return;
+    }
+
+    if (method === 'CANCEL' && (targetUser === echoExtension || targetUser === hangupExtension)) {
+      // エコー・自動切断内線は即座に応答するため、取り消せるトランザクションは残っていない
+      send(connection, createResponse(request, 481, 'Call/Transaction Does Not Exist'));
+      return;
+    }
+
+    if (!isInDialog && (targetUser === echoExtension || targetUser === hangupExtension)) {
+      if (method === 'INVITE') {
+        answerLocalInvite(connection, request, targetUser);
+        return;
+      }
+      if (method === 'MESSAGE') {
+        send(connection, createResponse(request, 200, 'OK'));
+        const sender = findBinding(getAddressUser(getHeader(request, 'from')));
+        if (targetUser === echoExtension && sender) {
+          sendMessage(targetUser, sender, getHeader(request, 'content-type') || 'text/plain', request.body);
+        }
+        return;
+      }
+      send(connection, createResponse(request, method === 'OPTIONS' ? 200 : 405, method === 'OPTIONS' ? 'OK' : 'Method Not Allowed', {
+        headers: [['Allow', ALLOWED_METHODS]],
+      }));
+      return;
+    }
+
+    if (method === 'SUBSCRIBE' || method === 'PUBLISH') {
+      send(connection, createResponse(request, 489, 'Bad Event'));
+      return;
+    }
+
+    const binding = findBinding(targetUser);
+    if (binding) {
+      proxyRequest(connection, request, binding, !isInDialog);
+      return;
+    }
+    const contactBinding = findBindingByContactUser(targetUser);
+    if (contactBinding) {
+      proxyRequest(connection, request, contactBinding, false);
+      return;
+    }
+
+    if (method === 'ACK') {
+      return;
+    }
+    if (users.has(targetUser)) {
+      send(connection, createResponse(request, 480, 'Temporarily Unavailable'));
+      return;
+    }
+    send(connection, createResponse(request, 404, 'Not Found'));
+  };
+
+  /**
+   * 受信したレスポンスを処理する
+   * 代役サーバが送信したリクエストへのレスポンスは登録された処理へ渡し、中継したリクエストへのレスポンスは送信元へ返す
+   * @param response - レスポンス
+   */
+  const handleResponse = (response: SipMessage): void => {
+    const otherVias = getHeaders(response, 'via').slice(1);
+    const branch = getHeaderParameter(getHeader(response, 'via'), 'branch');
+
+    const onResponse = clientTransactions.get(branch);
+    if (onResponse) {
+      if ((response.statusCode ?? 0) >= 200) {
+        clientTransactions.delete(branch);
+      }
+      onResponse(response);
+      return;
+    }
+
+    const connectionId = branch.startsWith(PROXY_BRANCH_PREFIX)
+      ? /^([0-9a-f-]{36})-/.exec(branch.slice(PROXY_BRANCH_PREFIX.length))?.[1] ?? ''
+      : '';
+    const connection = connections.get(connectionId);
+    if (!connection) {
+      return;
+    }
+    const forwarded: SipMessage = { ...response, headers: response.headers.filter(([name]) => name !== 'Via') };
+    forwarded.headers.unshift(...otherVias.map((via): [string, string] => ['Via', via]));
+    send(connection, forwarded);
+  };
+
+  /**
+   * 受信したテキストを処理する
+   * @param connection - 受信した接続
+   * @param text - 受信したテキスト
+   */
+  const handleText = (connection: WebSocketConnection, text: string): void => {
+    // sip.jsのキープアライブ（空行）には空行で応答する
+    if (text.trim() === '') {
+      connection.send('\r\n');
+      return;
+    }
+    const message = parseSipMessage(text);
+    if (!message) {
+      log(`解析できないメッセージを破棄しました: ${text.slice(0, 80)}`);
+      return;
+    }
+    if (message.method) {
+      handleRequest(connection, message);
+    }
+    else {
+      handleResponse(message);
+    }
+  };
+
+  return {
+    /**
+     * HTTPのUpgradeリクエストを受け付ける
+     * @param request - Upgradeリクエスト
+     * @param socket - リクエストのソケット
+     * @returns 代役サーバのパスへのリクエストを受け付けた場合true
+     */
+    handleUpgrade: (request, socket) => {
+      const protocols = String(request.headers['sec-websocket-protocol'] ?? '').split(',').map(protocol => protocol.trim());
+      if (new URL(request.url ?? '/', 'http://localhost').pathname !== path || !protocols.includes('sip')) {
+        return false;
+      }
+
+      const connection = acceptWebSocket(request, socket, 'sip');
+      if (!connection) {
+        return true;
+      }
+      connections.set(connection.id, connection);
+      log(`接続: ${connection.remoteAddress}`);
+      connection.onMessage((text) => {
+        handleText(connection, text);
+      });
+      connection.onClose(() => {
+        connections.delete(connection.id);
+        for (const [user, binding] of bindings) {
+          if (binding.connection === connection) {
+            bindings.delete(user);
+          }
+        }
+        for (const dialog of dialogs.values()) {
+          if (dialog.connection === connection) {
+            endDialog(dialog.callId);
+          }
+        }
+        log(`切断: ${connection.remoteAddress}`);
+      });
+      return true;
+    },
+
+    /**
+     * 登録済みクライアントへテスト発信する（応答されると代役サーバとのダイアログになる）
+     * @param to - 発信先のユーザ名
+     * @returns Call-ID（発信先が登録されていない場合はnull）
+     */
+    placeTestCall: (to) => {
+      const binding = findBinding(to);
+      if (!binding) {
+        return null;
+      }
+
+      const dialog: LocalDialog = {
+        callId: `${createToken()}@${STAND_IN_HOST}`,
+        connection: binding.connection,
+        localUri: `sip:${STAND_IN_USER}@${realm}`,
+        localTag: createToken(),
+        remoteUri: `sip:${to}@${realm}`,
+        remoteTag: '',
+        remoteTarget: getAddressUri(binding.contact),
+        localCseq: 1,
+        timer: null,
+      };
+      const invite: SipMessage = {
+        method: 'INVITE',
+        requestUri: dialog.remoteTarget,
+        statusCode: null,
+        reasonPhrase: '',
+        headers: [
+          ['Max-Forwards', '70'],
+          ['From', `"sip-stand-in" <${dialog.localUri}>;tag=${dialog.localTag}`],
+          ['To', `<${dialog.remoteUri}>`],
+          ['Call-ID', dialog.callId],
+          ['CSeq', '1 INVITE'],
+          ['Contact', `<sip:${STAND_IN_USER}@${STAND_IN_HOST};transport=ws>`],
+          ['Allow', ALLOWED_METHODS],
+          ['Content-Type', 'application/sdp'],
+        ],
+        body: createOfferSdp(),
+      };
+
+      log(`テスト発信: ${to}`);
+      sendRequest(binding.connection, invite, (response) => {
+        const statusCode = response.statusCode ?? 0;
+        if (statusCode < 200) {
+          return;
+        }
+        dialog.remoteTag = getHeaderParameter(getHeader(response, 'to'), 'tag');
+        if (statusCode >= 300) {
+          // 2xx以外の最終レスポンスへのACKはINVITEと同じトランザクションで送る
+          log(`テスト発信が拒否されました: ${to} ${String(statusCode)} ${response.reasonPhrase}`);
+          send(binding.connection, {
+            ...invite,
+            method: 'ACK',
+            headers: [
+              ['Via', getHeader(invite, 'via')],
+              ['Max-Forwards', '70'],
+              ['From', getHeader(invite, 'from')],
+              ['To', getHeader(response, 'to')],
+              ['Call-ID', dialog.callId],
+              ['CSeq', '1 ACK'],
+            ],
+            body: '',
+          });
+          return;
+        }
+        const contact = getHeader(response, 'contact');
+        if (contact) {
+          dialog.remoteTarget = getAddressUri(contact);
+        }
+        dialogs.set(dialog.callId, dialog);
+        log(`テスト発信に応答しました: ${to}`);
+        sendInDialog(dialog, 'ACK', [], '');
+      });
+      return dialog.callId;
+    },
+
+    /**
+     * 登録済みクライアントへテストメッセージを送信する
+     * @param to - 送信先のユーザ名
+     * @param body - 本文
+     * @returns 送信した場合true（送信先が登録されていない場合false）
+     */
+    sendTestMessage: (to, body) => {
+      const binding = findBinding(to);
+      if (!binding) {
+        return false;
+      }
+      log(`テストメッセージ: ${to}`);
+      sendMessage(STAND_IN_USER, binding, 'text/plain;charset=UTF-8', body);
+      return true;
+    },
+
+    /**
+     * 有効な登録の一覧を取得する
+     * @returns 登録の一覧
+     */
+    getRegistrations: () => {
+      return [...bindings.keys()].flatMap((user) => {
+        const binding = findBinding(user);
+        return binding
+          ? [{ user, contact: binding.contact, remoteAddress: binding.connection.remoteAddress, expiresAt: binding.expiresAt }]
+          : [];
+      });
+    },
+
+    /**
+     * すべての接続を閉じ、代役サーバを停止する
+     */
+    close: () => {
+      for (const callId of [...dialogs.keys()]) {
+        endDialog(callId);
+      }
+      for (const connection of [...connections.values()]) {
+        connection.close();
+      }
+      clientTransactions.clear();
+    },
+  };
+};
@@ -0,0 +1,35 @@
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+import type { Plugin } from 'vite';
+
+import type { SipStandInOptions } from './stand-in-server.ts';
+
+import { handleAdminRequest } from './admin.ts';
+import { createSipStandInServer } from './stand-in-server.ts';
+
+/**
+ * Viteの開発サーバでSIP over WebSocketの代役サーバを起動するプラグイン
+ * ws://localhost:5173/sip で接続を受け付け、/__sip-stand-in/ で操作用のエンドポイントを提供する
+ * @param options - 代役サーバのオプション
+ * @returns Viteのプラグイン
+ */
+export const sipStandIn = (options: SipStandInOptions = {}): Plugin => ({
+  name: 'sip-stand-in',
+  apply: 'serve',
+  configureServer: (server) => {
+    const standIn = createSipStandInServer(options);
+    server.httpServer?.on('upgrade', (request: IncomingMessage, socket: Duplex) => {
+      standIn.handleUpgrade(request, socket);
+    });
+    server.httpServer?.on('close', () => {
+      standIn.close();
+    });
+    server.middlewares.use((request, response, next) => {
+      if (!handleAdminRequest(standIn, request, response)) {
+        next();
+      }
+    });
+  },
+});
+
+export default sipStandIn;
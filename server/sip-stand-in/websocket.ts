@@ -0,0 +1,208 @@
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+import { createHash, randomUUID } from 'node:crypto';
+
+/**
+ * WebSocketのハンドシェイクで使用するGUID（RFC 6455）
+ */
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/**
+ * WebSocketのフレームのオペコード
+ */
+const OPCODE = {
+  continuation: 0x0,
+  text: 0x1,
+  binary: 0x2,
+  close: 0x8,
+  ping: 0x9,
+  pong: 0xa,
+} as const;
+
+/**
+ * 受け付けたWebSocket接続
+ */
+export interface WebSocketConnection {
+  id: string;
+  remoteAddress: string;
+  send: (text: string) => void;
+  close: () => void;
+  onMessage: (listener: (text: string) => void) => void;
+  onClose: (listener: () => void) => void;
+}
+
+/**
+ * サーバから送信するフレームを作成する（サーバからのフレームはマスクしない）
+ * @param opcode - オペコード
+ * @param payload - ペイロード
+ * @returns フレーム
+ */
+const createFrame = (opcode: number, payload: Buffer): Buffer => {
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([0x80 | opcode, payload.length]);
+  }
+  else if (payload.length < 0x10000) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(payload.length, 2);
+  }
+  else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+/**
+ * HTTPのUpgradeリクエストを受け付け、WebSocket接続を確立する
+ * SIP over WebSocket（RFC 7118）で使用するテキストフレームのみを扱う最小限の実装
+ * @param request - Upgradeリクエスト
+ * @param socket - リクエストのソケット
+ * @param protocol - 応答するサブプロトコル（例: sip）
+ * @returns WebSocket接続。ハンドシェイクできない場合はnull
+ */
+export const acceptWebSocket = (
+  request: IncomingMessage,
+  socket: Duplex,
+  protocol: string,
+): WebSocketConnection | null => {
+  const key = request.headers['sec-websocket-key'];
+  if (typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    `Sec-WebSocket-Protocol: ${protocol}`,
+    '',
+    '',
+  ].join('\r\n'));
+
+  const messageListeners: ((text: string) => void)[] = [];
+  const closeListeners: (() => void)[] = [];
+  let buffer = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let isClosed = false;
+
+  /**
+   * 接続を閉じ、終了を通知する
+   */
+  const finish = (): void => {
+    if (isClosed) {
+      return;
+    }
+    isClosed = true;
+    socket.end();
+    for (const listener of closeListeners) {
+      listener();
+    }
+  };
+
+  /**
+   * 受信したフレームを処理する
+   * @param opcode - オペコード
+   * @param isFinal - 最後のフラグメントの場合true
+   * @param payload - マスクを解除したペイロード
+   */
+  const handleFrame = (opcode: number, isFinal: boolean, payload: Buffer): void => {
+    switch (opcode) {
+      case OPCODE.binary:
+      case OPCODE.continuation:
+      case OPCODE.text:
+        fragments.push(payload);
+        if (isFinal) {
+          const text = Buffer.concat(fragments).toString('utf8');
+          fragments = [];
+          for (const listener of messageListeners) {
+            listener(text);
+          }
+        }
+        break;
+      case OPCODE.close:
+        socket.write(createFrame(OPCODE.close, Buffer.alloc(0)));
+        finish();
+        break;
+      case OPCODE.ping:
+        socket.write(createFrame(OPCODE.pong, payload));
+        break;
+      default:
+        break;
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    // 受信済みのデータから完全なフレームを順に取り出す
+    while (buffer.length >= 2) {
+      const isFinal = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const isMasked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) {
+          return;
+        }
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      }
+      else if (length === 127) {
+        if (buffer.length < 10) {
+          return;
+        }
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      const maskOffset = offset;
+      if (isMasked) {
+        offset += 4;
+      }
+      if (buffer.length < offset + length) {
+        return;
+      }
+
+      const payload = Buffer.from(buffer.subarray(offset, offset + length));
+      if (isMasked) {
+        for (let index = 0; index < payload.length; index++) {
+          payload[index] ^= buffer[maskOffset + (index % 4)];
+        }
+      }
+      buffer = buffer.subarray(offset + length);
+      handleFrame(opcode, isFinal, payload);
+    }
+  });
+  socket.on('close', finish);
+  socket.on('error', finish);
+
+  return {
+    id: randomUUID(),
+    remoteAddress: `${request.socket.remoteAddress ?? ''}:${String(request.socket.remotePort ?? '')}`,
+    send: (text: string) => {
+      if (!isClosed) {
+        socket.write(createFrame(OPCODE.text, Buffer.from(text, 'utf8')));
+      }
+    },
+    close: () => {
+      if (!isClosed) {
+        socket.write(createFrame(OPCODE.close, Buffer.alloc(0)));
+      }
+      finish();
+    },
+    onMessage: (listener) => {
+      messageListeners.push(listener);
+    },
+    onClose: (listener) => {
+      closeListeners.push(listener);
+    },
+  };
+};
@@ -1,24 +1,565 @@
-import type { Web } from 'sip.js';
+/**
+ * 選択中の音声デバイスのインターフェース定義
+ * 空文字はブラウザの既定のデバイスを表す
+ */
+export interface AudioDeviceSelection {
+  audioInputId: string;
+  audioOutputId: string;
+}
+
+/**
+ * 着信の自動応答の方式の型定義
+ * conditional: 発信者のパターンまたはインターコムのヘッダに一致した着信のみ自動応答する
+ */
+export type AutoAnswerMode = 'always' | 'conditional' | 'off';
+
+/**
+ * 通話方向の型定義
+ */
+export type CallDirection = 'incoming' | 'outgoing';
+
+/**
+ * 通話終了理由の型定義
+ */
+export type CallEndReason = 'answered' | 'dropped' | 'failed' | 'forwarded' | 'missed' | 'rejected';
+
+/**
+ * 通話状態を遷移させるイベントの型定義
+ * dial/incoming: 発信・着信の開始、early-media: SDPを含む暫定応答の受信、established: 通話の確立
+ * hold/resume: 保留・保留解除、hangup: 自分からの終了・取消・拒否、terminating: セッションの終了処理の開始
+ * reject: 発信に対する失敗の最終応答・着信の拒否、fail: 発信・応答の失敗や接続断、timeout: 呼出の時間切れ、terminated: セッションの終了
+ */
+export type CallEvent
+  = | 'dial'
+    | 'early-media'
+    | 'established'
+    | 'fail'
+    | 'hangup'
+    | 'hold'
+    | 'incoming'
+    | 'reject'
+    | 'resume'
+    | 'terminated'
+    | 'terminating'
+    | 'timeout';
+
+/**
+ * 通話履歴エントリのインターフェース定義
+ * 時刻はすべてUNIXエポックからのミリ秒、durationは秒
+ */
+export interface CallHistoryEntry {
+  id: string;
+  direction: CallDirection;
+  remoteIdentity: RemoteIdentity;
+  startedAt: number;
+  answeredAt: number | null;
+  endedAt: number;
+  duration: number;
+  endReason: CallEndReason;
+  quality?: CallQualitySummary;
+}
+
+/**
+ * 通話回線のインターフェース定義
+ * 1つのSIPセッションに対応し、回線ごとに状態・通話相手・保留状態を持つ
+ * isVideoは自分が映像を送信するセッションか、hasRemoteVideoは相手のSDPに映像が含まれるかを表す
+ * isInConferenceは他の回線と音声を合成した会議に参加しているかを表す
+ */
+export interface CallLine {
+  id: string;
+  lineNumber: number;
+  direction: CallDirection;
+  status: CallStatus;
+  remoteIdentity: RemoteIdentity;
+  isMuted: boolean;
+  isVideo: boolean;
+  isCameraOn: boolean;
+  hasRemoteVideo: boolean;
+  isHeldByRemote: boolean;
+  isIncomingCallIgnored: boolean;
+  isInConference: boolean;
+  sentDtmfDigits: string;
+}
+
+/**
+ * 着信時の処理（おやすみモード・転送・自動応答）の設定のインターフェース定義
+ * autoAnswerCallersは発信者のパターン（カンマ区切り、*は任意の文字列）
+ */
+export interface CallPolicy {
+  autoAnswerCallers: string;
+  autoAnswerDelaySeconds: number;
+  autoAnswerIntercom: boolean;
+  autoAnswerMode: AutoAnswerMode;
+  doNotDisturb: boolean;
+  doNotDisturbStatusCode: Exclude<RejectStatusCode, 603>;
+  forwardMode: ForwardMode;
+  forwardNoAnswerSeconds: number;
+  forwardTarget: string;
+}
+
+/**
+ * 通話品質の計測値のインターフェース定義
+ * getStatsから一定間隔で取得し、取得できない値はnull
+ * ビットレートとパケット損失率は前回の計測からの区間の値
+ */
+export interface CallQualitySample {
+  timestamp: number;
+  codec: string;
+  sendBitrateKbps: number | null;
+  receiveBitrateKbps: number | null;
+  roundTripTimeMs: number | null;
+  jitterMs: number | null;
+  packetLossPercent: number | null;
+  mos: number | null;
+}
+
+/**
+ * 通話品質の集計結果のインターフェース定義
+ * 通話終了時に計測値から作成し、通話履歴とともに保存する
+ */
+export interface CallQualitySummary {
+  codec: string;
+  sampleCount: number;
+  startedAt: number;
+  endedAt: number;
+  averageSendBitrateKbps: number | null;
+  averageReceiveBitrateKbps: number | null;
+  averageRoundTripTimeMs: number | null;
+  maxRoundTripTimeMs: number | null;
+  averageJitterMs: number | null;
+  maxJitterMs: number | null;
+  averagePacketLossPercent: number | null;
+  maxPacketLossPercent: number | null;
+  averageMos: number | null;
+  minMos: number | null;
+}
+
+/**
+ * 通話録音のインターフェース定義
+ * 録音データ（blob）とともにIndexedDBへ保存し、ユーザが削除するまで保持する
+ */
+export interface CallRecording {
+  id: string;
+  remoteIdentity: RemoteIdentity;
+  startedAt: number;
+  duration: number;
+  fileName: string;
+  mimeType: string;
+  blob: Blob;
+}
 
 /**
  * 通話状態の型定義
+ * ended・failed・rejectedは終了した通話の状態で、回線は一定時間表示してから解放する
+ */
+export type CallStatus
+  = | 'calling'
+    | 'early-media'
+    | 'ended'
+    | 'ending'
+    | 'failed'
+    | 'idle'
+    | 'in-call'
+    | 'on-hold'
+    | 'rejected'
+    | 'ringing';
+
+/**
+ * チャットメッセージのインターフェース定義
+ * statusCodeは送信したMESSAGEに対する最終応答（受信したメッセージはnull）
+ */
+export interface ChatMessage {
+  id: string;
+  direction: CallDirection;
+  body: string;
+  timestamp: number;
+  status: ChatMessageStatus;
+  statusCode: number | null;
+}
+
+/**
+ * チャットメッセージの送信状態の型定義
+ * sending: 応答待ち、delivered: 2xx受信、failed: 4xx以上の受信または送信失敗、received: 受信したメッセージ
  */
-export type CallStatus = 'calling' | 'ending' | 'idle' | 'in-call' | 'ringing';
+export type ChatMessageStatus = 'delivered' | 'failed' | 'received' | 'sending';
+
+/**
+ * 相手ごとのチャットスレッドのインターフェース定義
+ * peerUriは相手のAOR（パラメータを除いたSIP URI）で、スレッドの識別子を兼ねる
+ */
+export interface ChatThread {
+  peerUri: string;
+  displayName: string;
+  messages: ChatMessage[];
+  unreadCount: number;
+}
 
 /**
  * SIP接続状態の型定義
  */
-export type ConnectionStatus = 'connected' | 'connecting' | 'disconnected' | 'error';
+export type ConnectionStatus = 'connected' | 'connecting' | 'disconnected' | 'error' | 'reconnecting';
+
+/**
+ * アドレス帳の連絡先のインターフェース定義
+ */
+export interface Contact {
+  id: string;
+  name: string;
+  organization: string;
+  numbers: ContactNumber[];
+}
+
+/**
+ * 連絡先のエクスポート形式の型定義
+ */
+export type ContactExportFormat = 'csv' | 'vcard3' | 'vcard4';
+
+/**
+ * 連絡先の番号のインターフェース定義
+ * valueは電話番号、内線番号またはSIP URI
+ */
+export interface ContactNumber {
+  label: string;
+  value: string;
+}
+
+/**
+ * ダイアルプランのインターフェース定義
+ * rulesは上から順に評価し、パターンに一致したルールをすべて適用する
+ * 国番号・国際プレフィックス・国内プレフィックスはE.164変換で使用する（例: 81, 010, 0）
+ */
+export interface DialPlan {
+  countryCode: string;
+  internationalPrefix: string;
+  trunkPrefix: string;
+  rules: DialPlanRule[];
+}
+
+/**
+ * ダイアルプランのルールの処理の型定義
+ * add-prefix: 先頭に追加、block: 発信を禁止、e164: E.164形式へ変換、
+ * set-domain: 宛先のドメインを指定、strip-prefix: 先頭から削除
+ */
+export type DialPlanAction = 'add-prefix' | 'block' | 'e164' | 'set-domain' | 'strip-prefix';
+
+/**
+ * ダイアルプランの適用結果のインターフェース定義
+ * 禁止された場合や番号が空の場合、targetUriはnull
+ */
+export interface DialPlanResult {
+  targetUri: string | null;
+  blockedBy: DialPlanRule | null;
+  appliedRules: DialPlanRule[];
+}
+
+/**
+ * ダイアルプランのルールのインターフェース定義
+ * patternは区切り文字を除いたダイアル番号（SIPアドレスの場合はユーザ部）に対する正規表現
+ * valueは追加/削除するプレフィックスまたはドメイン（block/e164では使用しない）
+ */
+export interface DialPlanRule {
+  id: string;
+  description: string;
+  pattern: string;
+  action: DialPlanAction;
+  value: string;
+}
+
+/**
+ * DTMF送信方式の型定義
+ * info: SIP INFO、rfc4733: RTPのtelephone-event
+ */
+export type DtmfTransport = 'info' | 'rfc4733';
+
+/**
+ * 着信転送の方式の型定義
+ * always: すべての着信を転送、no-answer: 一定時間応答しなかった着信を転送
+ */
+export type ForwardMode = 'always' | 'no-answer' | 'off';
+
+/**
+ * 着信時の処理の判定結果の型定義
+ * ringの場合、自動応答・無応答転送までの時間（ミリ秒）を持つ（行わない場合はnull）
+ */
+export type IncomingCallDecision
+  = | { action: 'forward'; target: string }
+    | { action: 'reject'; statusCode: RejectStatusCode }
+    | { action: 'ring'; autoAnswerAfterMs: number | null; forwardAfterMs: number | null };
+
+/**
+ * 電話エンジンの状態のインターフェース定義
+ * 接続・登録・回線・転送・チャット・在席状態をまとめたスナップショットで、変更のたびに新しいオブジェクトへ置き換える
+ * activeChatPeerUriは表示中のチャットスレッドの相手（表示中のスレッドで受信したメッセージは未読にしない）
+ */
+export interface PhoneState {
+  connectionStatus: ConnectionStatus;
+  reconnectAttempt: number;
+  nextRetryAt: number | null;
+  registrationState: RegistrationState;
+  lines: CallLine[];
+  activeLineId: string | null;
+  isCallDropped: boolean;
+  transferState: TransferState;
+  chatThreads: ChatThread[];
+  activeChatPeerUri: string | null;
+  presenceStates: Record<string, PresenceState>;
+}
+
+/**
+ * 在席状態の購読に使用するイベントパッケージの型定義
+ * dialog: RFC 4235（application/dialog-info+xml）、presence: RFC 3856（application/pidf+xml）
+ */
+export type PresenceEventPackage = 'dialog' | 'presence';
+
+/**
+ * 在席状態の購読設定のインターフェース定義
+ * extensionsは購読する内線番号またはSIPアドレス
+ */
+export interface PresenceSettings {
+  eventPackage: PresenceEventPackage;
+  extensions: string[];
+}
+
+/**
+ * 内線の在席状態（BLFランプ）の型定義
+ * unknown: NOTIFY未受信または購読が終了している状態
+ */
+export type PresenceState = 'busy' | 'idle' | 'offline' | 'ringing' | 'unknown';
+
+/**
+ * 通話録音の状態の型定義
+ */
+export type RecordingStatus = 'idle' | 'paused' | 'recording';
+
+/**
+ * SIP登録状態の詳細のインターフェース定義
+ * statusCode/reasonPhraseは最後に受信したREGISTERの最終応答
+ */
+export interface RegistrationState {
+  status: RegistrationStatus;
+  statusCode: number | null;
+  reasonPhrase: string;
+}
+
+/**
+ * SIP登録（REGISTER）状態の型定義
+ * トランスポートの接続状態（ConnectionStatus）とは独立して管理する
+ */
+export type RegistrationStatus = 'failed' | 'registered' | 'registering' | 'unregistered';
+
+/**
+ * 着信拒否時に送信するSIPステータスコードの型定義
+ */
+export type RejectStatusCode = 480 | 486 | 603;
+
+/**
+ * 通話相手の識別情報のインターフェース定義
+ */
+export interface RemoteIdentity {
+  displayName: string;
+  uri: string;
+}
 
 /**
  * SIP設定のインターフェース定義
  */
 export interface SipConfig {
+  dtmfTransport: DtmfTransport;
   password: string;
+  registerExpires: number;
   url: string;
   username: string;
 }
 
+/**
+ * 利用者に表示する失敗の理由のインターフェース定義
+ * SIPの最終応答、またはトランスポート・WebRTCのエラーから分類する
+ * statusCode/reasonPhraseはSIPの応答による失敗の場合のみ設定され、targetは発信先など再試行に使う値
+ */
+export interface SipError {
+  id: string;
+  kind: SipErrorKind;
+  operation: SipErrorOperation;
+  statusCode: number | null;
+  reasonPhrase: string;
+  target: string;
+  occurredAt: number;
+}
+
+/**
+ * 失敗の理由の種類の型定義
+ */
+export type SipErrorKind
+  = | 'bad-credentials'
+    | 'blocked'
+    | 'busy'
+    | 'cancelled'
+    | 'codec-mismatch'
+    | 'declined'
+    | 'invalid-target'
+    | 'microphone-denied'
+    | 'microphone-unavailable'
+    | 'no-free-line'
+    | 'not-found'
+    | 'server-error'
+    | 'timeout'
+    | 'unavailable'
+    | 'unknown'
+    | 'websocket-unreachable';
+
+/**
+ * 失敗した操作の型定義
+ */
+export type SipErrorOperation = 'answer' | 'call' | 'connect' | 'register' | 'transfer';
+
+/**
+ * 保存済みSIPアカウントプロファイルのインターフェース定義
+ * rememberPasswordがfalseの場合、passwordは空文字で保存される
+ */
+export interface SipProfile extends SipConfig {
+  id: string;
+  name: string;
+  rememberPassword: boolean;
+}
+
+/**
+ * Call-IDごとにまとめたSIPメッセージ（ダイアログのラダー）のインターフェース定義
+ * methodはダイアログを開始したリクエストのメソッド
+ */
+export interface SipTraceDialog {
+  callId: string;
+  method: string;
+  startedAt: number;
+  entries: SipTraceEntry[];
+}
+
+/**
+ * SIPメッセージの送受信方向の型定義
+ */
+export type SipTraceDirection = 'received' | 'sent';
+
+/**
+ * 送受信したSIPメッセージのトレースのインターフェース定義
+ * リクエストの場合statusCodeはnull、レスポンスの場合methodはCSeqのメソッド
+ * rawは認証情報を伏せ字にしたメッセージ全文
+ */
+export interface SipTraceEntry {
+  id: string;
+  timestamp: number;
+  direction: SipTraceDirection;
+  callId: string;
+  method: string;
+  statusCode: number | null;
+  startLine: string;
+  raw: string;
+}
+
+/**
+ * SIPトレースの出力形式の型定義
+ */
+export type SipTraceExportFormat = 'har' | 'text';
+
+/**
+ * 通話転送の状態のインターフェース定義
+ * lineIdは転送元の回線、consultLineIdは打診通話の回線（打診転送のみ）
+ * statusCode/reasonPhraseはNOTIFYのsipfragで受信した最新の応答
+ */
+export interface TransferState {
+  status: TransferStatus;
+  mode: 'attended' | 'blind' | null;
+  target: string;
+  lineId: string | null;
+  consultLineId: string | null;
+  isConsultEstablished: boolean;
+  statusCode: number | null;
+  reasonPhrase: string;
+}
+
+/**
+ * 通話転送の進行状態の型定義
+ * consulting: 打診通話中、referring: REFER送信済み、trying: 転送先を呼出中
+ */
+export type TransferStatus = 'completed' | 'consulting' | 'failed' | 'idle' | 'referring' | 'trying';
+
+/**
+ * 着信拒否コードの選択肢
+ */
+export const REJECT_STATUS_OPTIONS: readonly { label: string; statusCode: RejectStatusCode }[] = [
+  { label: '486 Busy Here', statusCode: 486 },
+  { label: '603 Decline', statusCode: 603 },
+  { label: '480 Temporarily Unavailable', statusCode: 480 },
+];
+
+/**
+ * おやすみモードで着信を拒否するコードの選択肢
+ */
+export const DO_NOT_DISTURB_STATUS_OPTIONS: readonly { label: string; statusCode: CallPolicy['doNotDisturbStatusCode'] }[] = [
+  { label: '486 Busy Here', statusCode: 486 },
+  { label: '480 Temporarily Unavailable', statusCode: 480 },
+];
+
+/**
+ * 着信転送の方式の選択肢
+ */
+export const FORWARD_MODE_OPTIONS: readonly { label: string; value: ForwardMode }[] = [
+  { label: '転送しない', value: 'off' },
+  { label: 'すべて転送', value: 'always' },
+  { label: '無応答時に転送', value: 'no-answer' },
+];
+
+/**
+ * 着信の自動応答の方式の選択肢
+ */
+export const AUTO_ANSWER_MODE_OPTIONS: readonly { label: string; value: AutoAnswerMode }[] = [
+  { label: '自動応答しない', value: 'off' },
+  { label: 'すべて自動応答', value: 'always' },
+  { label: '条件に一致した着信のみ', value: 'conditional' },
+];
+
+/**
+ * 連絡先のエクスポート形式の選択肢
+ */
+export const CONTACT_EXPORT_OPTIONS: readonly { label: string; value: ContactExportFormat }[] = [
+  { label: 'vCard 3.0', value: 'vcard3' },
+  { label: 'vCard 4.0', value: 'vcard4' },
+  { label: 'CSV', value: 'csv' },
+];
+
+/**
+ * SIPトレースの出力形式の選択肢
+ */
+export const SIP_TRACE_EXPORT_OPTIONS: readonly { label: string; value: SipTraceExportFormat }[] = [
+  { label: 'テキスト', value: 'text' },
+  { label: 'HAR形式（JSON）', value: 'har' },
+];
+
+/**
+ * 在席状態の購読に使用するイベントパッケージの選択肢
+ */
+export const PRESENCE_EVENT_PACKAGE_OPTIONS: readonly { label: string; value: PresenceEventPackage }[] = [
+  { label: 'dialog（通話状態）', value: 'dialog' },
+  { label: 'presence（在席状態）', value: 'presence' },
+];
+
+/**
+ * ダイアルプランのルールの処理の選択肢
+ */
+export const DIAL_PLAN_ACTION_OPTIONS: readonly { label: string; value: DialPlanAction }[] = [
+  { label: 'プレフィックスを削除', value: 'strip-prefix' },
+  { label: 'プレフィックスを追加', value: 'add-prefix' },
+  { label: 'E.164形式に変換', value: 'e164' },
+  { label: 'ドメインを指定', value: 'set-domain' },
+  { label: '発信を禁止', value: 'block' },
+];
+
+/**
+ * DTMF送信方式の選択肢
+ */
+export const DTMF_TRANSPORT_OPTIONS: readonly { label: string; value: DtmfTransport }[] = [
+  { label: 'RFC 4733 (telephone-event)', value: 'rfc4733' },
+  { label: 'SIP INFO', value: 'info' },
+];
+
 /**
  * ダイアルパッドのボタン配列の型
  */
@@ -30,11 +571,6 @@ export const DIAL_PAD_BUTTONS = [
 ] as const;
 
 /**
- * SimpleUserインスタンスの型
- */
-export type SimpleUserInstance = Web.SimpleUser;
-
-/**
- * SimpleUserオプションの型
+ * 同時に保持できる通話回線の数（回線キーの数）
  */
-export type SimpleUserOptions = Web.SimpleUserOptions;
+export const LINE_COUNT = 4;
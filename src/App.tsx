@@ -1,18 +1,81 @@
-import { Phone, PhoneCall, PhoneOff, Wifi, WifiOff } from 'lucide-react';
-import { type ReactElement, useEffect } from 'react';
+import {
+  Circle,
+  Mic,
+  MicOff,
+  Pause,
+  Phone,
+  PhoneCall,
+  PhoneForwarded,
+  PhoneOff,
+  Play,
+  Square,
+  Users,
+  Video,
+  VideoOff,
+  Wifi,
+  WifiOff,
+  X,
+} from 'lucide-react';
+import { type ReactElement, useEffect, useState } from 'react';
 
-import { DIAL_PAD_BUTTONS } from '@/@types/sip.types';
+import { DIAL_PAD_BUTTONS, DTMF_TRANSPORT_OPTIONS, type DtmfTransport, type SipError } from '@/@types/sip.types';
+import { AudioSettingsPanel } from '@/components/AudioSettingsPanel';
+import { BusyLampPanel } from '@/components/BusyLampPanel';
+import { CallHistoryPanel } from '@/components/CallHistoryPanel';
+import { CallPolicyPanel } from '@/components/CallPolicyPanel';
+import { CallQualityPanel } from '@/components/CallQualityPanel';
+import { ChatPanel } from '@/components/ChatPanel';
+import { ConferencePanel } from '@/components/ConferencePanel';
+import { ContactsPanel } from '@/components/ContactsPanel';
+import { DialPlanPanel } from '@/components/DialPlanPanel';
+import { IncomingCallPanel } from '@/components/IncomingCallPanel';
+import { LineKeys } from '@/components/LineKeys';
+import { RecordingsPanel } from '@/components/RecordingsPanel';
+import { SipErrorBanners } from '@/components/SipErrorBanners';
+import { SipProfilePanel } from '@/components/SipProfilePanel';
+import { SipStatusIndicator } from '@/components/SipStatusIndicator';
+import { SipTracePanel } from '@/components/SipTracePanel';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { useAudioStream } from '@/hooks/useAudioStream';
-import { useCallSession } from '@/hooks/useCallSession';
+import { useCallHistory } from '@/hooks/useCallHistory';
+import { useCallPolicy } from '@/hooks/useCallPolicy';
+import { useCallQuality } from '@/hooks/useCallQuality';
+import { useCallRecorder } from '@/hooks/useCallRecorder';
+import { useCallTransfer } from '@/hooks/useCallTransfer';
+import { useChat } from '@/hooks/useChat';
+import { useContacts } from '@/hooks/useContacts';
 import { useDialer } from '@/hooks/useDialer';
+import { useDialPlan } from '@/hooks/useDialPlan';
+import { useDtmfKeyboard } from '@/hooks/useDtmfKeyboard';
+import { useLineManager } from '@/hooks/useLineManager';
+import { useMediaDevices } from '@/hooks/useMediaDevices';
+import { useMediaStream } from '@/hooks/useMediaStream';
+import { usePhone } from '@/hooks/usePhone';
+import { usePresence } from '@/hooks/usePresence';
+import { CALL_WAITING_CADENCE, useRingtone } from '@/hooks/useRingtone';
 import { useSipConfig } from '@/hooks/useSipConfig';
 import { useSipConnection } from '@/hooks/useSipConnection';
-import { getCallButtonContent } from '@/lib/call-button-utils';
+import { useSipErrors } from '@/hooks/useSipErrors';
+import { useSipProfiles } from '@/hooks/useSipProfiles';
+import { useSipRegistration } from '@/hooks/useSipRegistration';
+import { useSipTrace } from '@/hooks/useSipTrace';
+import {
+  getCallButtonContent,
+  getCameraButtonContent,
+  getHoldButtonContent,
+  getMuteButtonContent,
+  getRecordingButtonContents,
+  getTransferButtonContents,
+} from '@/lib/call-button-utils';
+import { exportCallQuality } from '@/lib/call-quality-utils';
+import { getCallStatusMessage, isEndedCallStatus } from '@/lib/call-state-utils';
 import { getConnectionButtonContent } from '@/lib/connection-button-utils';
+import { applyDialPlan, formatDialPlanResult } from '@/lib/dial-plan-utils';
+import { downloadBlob } from '@/lib/download-utils';
+import { createSipError } from '@/lib/sip-error-utils';
+import { formatRemoteIdentity, formatTransferStatus, getSipDomain } from '@/lib/sip-session-utils';
 
 /**
  * アイコンコンポーネントを取得するヘルパー関数
@@ -30,16 +93,38 @@ const getIconComponent = (
   const fullClassName = `${className} ${animatedClass}`.trim();
 
   switch (iconType) {
+    case 'circle':
+      return <Circle className={fullClassName} />;
+    case 'mic':
+      return <Mic className={fullClassName} />;
+    case 'mic-off':
+      return <MicOff className={fullClassName} />;
+    case 'pause':
+      return <Pause className={fullClassName} />;
     case 'phone':
       return <Phone className={fullClassName} />;
     case 'phone-call':
       return <PhoneCall className={fullClassName} />;
+    case 'phone-forwarded':
+      return <PhoneForwarded className={fullClassName} />;
     case 'phone-off':
       return <PhoneOff className={fullClassName} />;
+    case 'play':
+      return <Play className={fullClassName} />;
+    case 'square':
+      return <Square className={fullClassName} />;
+    case 'users':
+      return <Users className={fullClassName} />;
+    case 'video':
+      return <Video className={fullClassName} />;
+    case 'video-off':
+      return <VideoOff className={fullClassName} />;
     case 'wifi':
       return <Wifi className={fullClassName} />;
     case 'wifi-off':
       return <WifiOff className={fullClassName} />;
+    case 'x':
+      return <X className={fullClassName} />;
     default:
       return <Phone className={fullClassName} />;
   }
@@ -50,51 +135,180 @@ const getIconComponent = (
  */
 function App() {
   // カスタムフックの使用
-  const { sipConfig, updateSipConfig, isSipConfigValid } = useSipConfig();
-  const { dialedNumber, handleDialedNumberChange, handleDialPadClick, clearDialedNumber } = useDialer();
-  const { connectionStatus, connect, disconnect, getSimpleUser } = useSipConnection();
-  const { audioRef } = useAudioStream();
+  const phone = usePhone();
+  const { sipConfig, updateSipConfig, replaceSipConfig, isSipConfigValid } = useSipConfig();
+  const { sipTrace, logConnector, clearSipTrace, exportSipTrace } = useSipTrace({ secrets: [sipConfig.password] });
   const {
-    callStatus,
-    incomingCallNumber,
+    profiles,
+    selectedProfileId,
+    defaultProfileId,
+    selectProfile,
+    saveProfile,
+    deleteProfile,
+    setDefaultProfile,
+  } = useSipProfiles(replaceSipConfig);
+  const { dialedNumber, setDialedNumber, handleDialedNumberChange, handleDialPadClick, clearDialedNumber } = useDialer();
+  const {
+    dialPlan,
+    updateDialPlanSetting,
+    addDialPlanRule,
+    updateDialPlanRule,
+    removeDialPlanRule,
+    moveDialPlanRule,
+    resetDialPlan,
+  } = useDialPlan();
+  const { callPolicy, updateCallPolicy } = useCallPolicy();
+  const { audioRef, localVideoRef, remoteVideoRef, attachSession } = useMediaStream();
+  const {
+    audioInputs,
+    audioOutputs,
+    audioInputId,
+    audioOutputId,
+    isOutputSelectable,
+    selectAudioInput,
+    selectAudioOutput,
+    requestPermission,
+  } = useMediaDevices(audioRef);
+  const { sipErrors, reportSipError, dismissSipError, dismissSipErrors } = useSipErrors();
+  const { registrationState, register, unregister } = useSipRegistration(phone, { onError: reportSipError });
+  const { callHistory, addCallHistoryEntry, deleteCallHistoryEntry, clearCallHistory } = useCallHistory();
+  const { qualitySamples, monitorSession, takeQualitySummary } = useCallQuality();
+  const { contacts, saveContact, deleteContact, importContacts, exportContacts, resolveIdentity } = useContacts();
+  const {
+    lines,
+    activeLine,
+    isCallDropped,
     makeCall,
     answerCall,
+    endAndAnswerCall,
+    declineCall,
+    ignoreCall,
     hangupCall,
-    handleIncomingCall,
-  } = useCallSession();
+    holdCall,
+    resumeCall,
+    switchLine,
+    mergeLines,
+    splitConference,
+    toggleMute,
+    toggleCamera,
+    upgradeToVideo,
+    sendDtmf,
+    getSession,
+    dismissCallDropped,
+  } = useLineManager(phone, {
+    attachMedia: attachSession,
+    audioInputId,
+    callPolicy,
+    dialPlan,
+    onCallEnded: (entry, lineId) => {
+      addCallHistoryEntry({ ...entry, quality: takeQualitySummary(lineId) });
+    },
+    onError: reportSipError,
+  });
+  const {
+    transferState,
+    blindTransfer,
+    startConsultation,
+    completeAttendedTransfer,
+    cancelConsultation,
+    resetTransfer,
+  } = useCallTransfer(phone, { onError: reportSipError });
+  const {
+    recordings,
+    recordingStatus,
+    recordingLineId,
+    startRecording,
+    pauseRecording,
+    resumeRecording,
+    stopRecording,
+    removeRecording,
+  } = useCallRecorder(phone);
+  const {
+    threads,
+    activePeerUri,
+    unreadTotal,
+    openThread,
+    sendMessage,
+    deleteThread,
+  } = useChat(phone);
+  const {
+    presenceSettings,
+    presenceStates,
+    addPresenceExtension,
+    removePresenceExtension,
+    setPresenceEventPackage,
+  } = usePresence(phone);
+  const {
+    connectionStatus,
+    reconnectAttempt,
+    nextRetryAt,
+    connect,
+    disconnect,
+  } = useSipConnection(phone, { logConnector });
 
-  // 接続時の着信ハンドラーセットアップ
+  // 選択中の回線の状態（選択中の回線がなければ待機中）
+  const callStatus = activeLine?.status ?? 'idle';
+  // 終了した通話を表示している間も待機中と同様に発信できる
+  const canStartCall = callStatus === 'idle' || isEndedCallStatus(callStatus);
+  // 通話相手はアドレス帳に登録されていれば連絡先の名前で表示する
+  const remoteIdentity = activeLine ? resolveIdentity(activeLine.remoteIdentity) : null;
+  const sentDtmfDigits = activeLine?.sentDtmfDigits ?? '';
+  const ringingLine = lines.find(line => line.status === 'ringing') ?? null;
+  const isVideoShown = activeLine ? activeLine.isVideo || activeLine.hasRemoteVideo : false;
+  // ダイアルプランを適用した発信先（ダイアル番号の下に表示する）
+  const sipDomain = getSipDomain(sipConfig.url);
+  const dialPlanPreview = applyDialPlan(dialPlan, dialedNumber, sipDomain);
+
+  // 次の発信をビデオ通話にするかどうか
+  const [isVideoCall, setIsVideoCall] = useState<boolean>(false);
+
+  // 接続中（再接続待ちを含む）はSIP設定を変更できない
+  const isSipConfigLocked = connectionStatus === 'connected' || connectionStatus === 'reconnecting';
+
+  // 他の回線で通話中の着信（キャッチホン）かどうか
+  const isCallWaiting = lines.some(line => line.status === 'in-call' || line.status === 'on-hold');
+  const isRingtoneActive = lines.some(line => line.status === 'ringing' && !line.isIncomingCallIgnored);
+
+  // 着信中（無視していない間）は呼出音を鳴らす（通話中は通話を妨げない通知音にする）
+  useRingtone(isRingtoneActive && !isCallWaiting);
+  useRingtone(isRingtoneActive && isCallWaiting, CALL_WAITING_CADENCE);
+
+  // 選択中の回線が通話中の間は通話品質を計測する（保留中は計測しない）
+  const monitoredLineId = callStatus === 'in-call' ? activeLine?.id : undefined;
   useEffect(() => {
-    const simpleUser = getSimpleUser();
-    if (simpleUser && connectionStatus === 'connected') {
-      handleIncomingCall(simpleUser);
-    }
-  }, [connectionStatus, getSimpleUser, handleIncomingCall]);
+    monitorSession(monitoredLineId ? getSession(monitoredLineId) : undefined);
+  }, [getSession, monitorSession, monitoredLineId]);
 
-  // コンポーネントのクリーンアップ
+  // 接続・登録に成功したら、それぞれの失敗の表示を閉じる
   useEffect(() => {
-    return () => {
-      const simpleUser = getSimpleUser();
-      if (simpleUser) {
-        void simpleUser.disconnect();
-      }
-    };
-  }, [getSimpleUser]);
+    if (connectionStatus === 'connected') {
+      dismissSipErrors('connect');
+    }
+  }, [connectionStatus, dismissSipErrors]);
+  useEffect(() => {
+    if (registrationState.status === 'registered') {
+      dismissSipErrors('register');
+    }
+  }, [dismissSipErrors, registrationState.status]);
 
   /**
    * SIP接続/切断処理
    */
   const handleConnect = async (): Promise<void> => {
-    if (connectionStatus === 'connected') {
+    if (isSipConfigLocked) {
+      // 切断前に明示的に登録を解除する
+      await unregister();
       await disconnect();
       return;
     }
 
     try {
-      await connect(sipConfig, audioRef.current);
+      await connect(sipConfig);
+      await register(sipConfig.registerExpires);
     }
     catch (error) {
       console.error('接続エラー:', error);
+      reportSipError(createSipError('connect', { error }, sipConfig.url));
     }
   };
 
@@ -102,32 +316,81 @@ function App() {
    * 発信処理のラッパー
    */
   const handleCall = async (): Promise<void> => {
-    const simpleUser = getSimpleUser();
-    await makeCall(dialedNumber, simpleUser);
+    await makeCall(dialedNumber, isVideoCall);
   };
 
   /**
-   * 着信通話の自動応答（デモ用）
+   * ダイアルパッド押下処理
+   * 通話中はDTMFを送信し、それ以外はダイアル番号へ追加する
+   * @param digit - 押下された数字または記号
    */
-  useEffect(() => {
-    if (callStatus === 'ringing') {
-      // 実際のアプリケーションでは手動応答を実装
-      const timer = setTimeout(() => {
-        const simpleUser = getSimpleUser();
-        void answerCall(simpleUser);
-      }, 1000);
-      return () => {
-        clearTimeout(timer);
-      };
+  const handleDialPadPress = (digit: string): void => {
+    if (activeLine?.status === 'in-call') {
+      void sendDtmf(activeLine.id, digit, sipConfig.dtmfTransport);
+      return;
     }
-  }, [callStatus, answerCall, getSimpleUser]);
+    handleDialPadClick(digit);
+  };
+
+  // 通話中は物理キーボードからもDTMFを送信
+  useDtmfKeyboard(callStatus === 'in-call', (tone) => {
+    if (activeLine) {
+      void sendDtmf(activeLine.id, tone, sipConfig.dtmfTransport);
+    }
+  });
+
+  /**
+   * 通話履歴からの再発信、アドレス帳からの発信
+   * @param number - 発信する番号またはSIP URI
+   */
+  const handleRedial = (number: string): void => {
+    setDialedNumber(number);
+    void makeCall(number, isVideoCall);
+  };
+
+  /**
+   * 失敗した操作の再試行処理
+   * 発信は同じ発信先へ、接続・登録は現在のSIP設定でやり直す
+   * @param error - 再試行する失敗の理由
+   */
+  const handleSipErrorRetry = async (error: SipError): Promise<void> => {
+    switch (error.operation) {
+      case 'call':
+        handleRedial(error.target);
+        break;
+      case 'connect':
+        if (!isSipConfigLocked) {
+          await handleConnect();
+        }
+        break;
+      case 'register':
+        await register(sipConfig.registerExpires);
+        break;
+      default:
+        break;
+    }
+  };
+
+  /**
+   * BLFのランプ選択処理
+   * 待機中はその内線へ発信し、通話中は転送先としてダイアル番号に入力する
+   * @param extension - 選択した内線
+   */
+  const handleLampSelect = (extension: string): void => {
+    if (canStartCall) {
+      handleRedial(extension);
+      return;
+    }
+    setDialedNumber(extension);
+  };
 
   /**
    * 通話終了処理のラッパー
    */
   const handleHangup = async (): Promise<void> => {
-    const simpleUser = getSimpleUser();
-    await hangupCall(simpleUser);
+    if (activeLine) {
+      await hangupCall(activeLine.id);
+    }
   };
 
   /**
@@ -141,7 +404,7 @@ function App() {
       {
         handleCall,
         hangupCall: handleHangup,
-        answerCall: () => answerCall(getSimpleUser()),
+        answerCall: () => (ringingLine ? answerCall(ringingLine.id) : undefined),
       },
     );
     return {
@@ -150,11 +413,82 @@ function App() {
     };
   };
 
+  /**
+   * 通話中の保留/ミュートボタンの内容を決定
+   */
+  const getInCallButtonContents = () => {
+    if (!activeLine) {
+      return [];
+    }
+    const lineId = activeLine.id;
+    return [
+      getHoldButtonContent(callStatus, {
+        holdCall: () => holdCall(lineId),
+        resumeCall: () => resumeCall(lineId),
+      }),
+      getMuteButtonContent(activeLine.isMuted, callStatus, {
+        toggleMute: () => { toggleMute(lineId); },
+      }),
+      getCameraButtonContent(activeLine, callStatus, {
+        toggleCamera: () => { toggleCamera(lineId); },
+        upgradeToVideo: () => upgradeToVideo(lineId),
+      }),
+    ].map(content => ({
+      ...content,
+      icon: getIconComponent(content.iconType, 'h-4 w-4', content.iconAnimated),
+    }));
+  };
+
+  /**
+   * 通話中の転送ボタンの内容を決定
+   * 転送先はダイアル番号の入力欄から取得する
+   */
+  const getTransferButtonContentsWrapper = () => {
+    if (!activeLine) {
+      return [];
+    }
+    const lineId = activeLine.id;
+    return getTransferButtonContents(transferState, callStatus, dialedNumber, {
+      blindTransfer: () => blindTransfer(lineId, dialedNumber),
+      // 打診通話は別の回線で発信し、打診中は転送元の通話を保留する
+      startConsultation: () => startConsultation(lineId, dialedNumber),
+      completeAttendedTransfer,
+      cancelConsultation,
+    }).map(content => ({
+      ...content,
+      icon: getIconComponent(content.iconType, 'h-4 w-4', content.iconAnimated),
+    }));
+  };
+
+  /**
+   * 通話中の録音ボタンの内容を決定
+   * 録音中は、録音している回線以外を選択していても停止できる
+   */
+  const getRecordingButtonContentsWrapper = () => {
+    if (!activeLine) {
+      return [];
+    }
+    const lineId = activeLine.id;
+    const lineRemoteIdentity = resolveIdentity(activeLine.remoteIdentity);
+    return getRecordingButtonContents(recordingStatus, callStatus, {
+      startRecording: () => { startRecording(lineId, lineRemoteIdentity); },
+      pauseRecording,
+      resumeRecording,
+      stopRecording,
+    }).map(content => ({
+      ...content,
+      icon: getIconComponent(content.iconType, 'h-4 w-4', content.iconAnimated),
+    }));
+  };
+
   /**
    * 接続ボタンの表示内容を決定
    */
   const getConnectionButtonContentWrapper = () => {
-    const content = getConnectionButtonContent(connectionStatus);
+    const content = getConnectionButtonContent(connectionStatus, {
+      attempt: reconnectAttempt,
+      nextRetryAt,
+    });
     return {
       ...content,
       icon: getIconComponent(content.iconType, 'mr-2 h-4 w-4', content.iconAnimated),
@@ -176,16 +510,32 @@ function App() {
               {connectionStatus === 'connected' && (
                 <div className="ml-2 w-2 h-2 bg-green-500 rounded-full animate-pulse shadow-lg" />
               )}
+              {connectionStatus === 'reconnecting' && (
+                <div className="ml-2 w-2 h-2 bg-yellow-500 rounded-full animate-pulse shadow-lg" />
+              )}
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4 p-6">
+            <SipProfilePanel
+              defaultProfileId={defaultProfileId}
+              disabled={isSipConfigLocked}
+              onDelete={deleteProfile}
+              onSave={(name, rememberPassword) => {
+                saveProfile(name, sipConfig, rememberPassword);
+              }}
+              onSelect={selectProfile}
+              onSetDefault={setDefaultProfile}
+              profiles={profiles}
+              selectedProfileId={selectedProfileId}
+            />
+
             <div className="space-y-2">
               <Label className="text-sm font-medium text-gray-700" htmlFor="sip-url">
                 SIP URL
               </Label>
               <Input
                 className="w-full border-2 border-gray-200 focus:border-blue-500 transition-colors"
-                disabled={connectionStatus === 'connected'}
+                disabled={isSipConfigLocked}
                 id="sip-url"
                 onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
                   updateSipConfig('url', e.target.value);
@@ -202,7 +552,7 @@ function App() {
               </Label>
               <Input
                 className="w-full border-2 border-gray-200 focus:border-blue-500 transition-colors"
-                disabled={connectionStatus === 'connected'}
+                disabled={isSipConfigLocked}
                 id="sip-username"
                 onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
                   updateSipConfig('username', e.target.value);
@@ -219,7 +569,7 @@ function App() {
               </Label>
               <Input
                 className="w-full border-2 border-gray-200 focus:border-blue-500 transition-colors"
-                disabled={connectionStatus === 'connected'}
+                disabled={isSipConfigLocked}
                 id="sip-password"
                 onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
                   updateSipConfig('password', e.target.value);
@@ -230,23 +580,159 @@ function App() {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-gray-700" htmlFor="dtmf-transport">
+                DTMF送信方式
+              </Label>
+              <select
+                className="w-full h-9 rounded-md border-2 border-gray-200 bg-white px-2 text-sm focus:border-blue-500 transition-colors disabled:opacity-50"
+                disabled={isSipConfigLocked}
+                id="dtmf-transport"
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                  updateSipConfig('dtmfTransport', e.target.value as DtmfTransport);
+                }}
+                value={sipConfig.dtmfTransport}
+              >
+                {DTMF_TRANSPORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium text-gray-700" htmlFor="register-expires">
+                登録有効期限（秒）
+              </Label>
+              <Input
+                className="w-full border-2 border-gray-200 focus:border-blue-500 transition-colors"
+                disabled={isSipConfigLocked}
+                id="register-expires"
+                min={60}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  updateSipConfig('registerExpires', Number(e.target.value));
+                }}
+                step={60}
+                type="number"
+                value={sipConfig.registerExpires}
+              />
+            </div>
+
+            {/* 音声デバイス（通話中も切り替え可能） */}
+            <AudioSettingsPanel
+              audioInputId={audioInputId}
+              audioInputs={audioInputs}
+              audioOutputId={audioOutputId}
+              audioOutputs={audioOutputs}
+              isOutputSelectable={isOutputSelectable}
+              onRequestPermission={requestPermission}
+              onSelectAudioInput={selectAudioInput}
+              onSelectAudioOutput={selectAudioOutput}
+            />
+
+            {/* 着信時の処理（おやすみモード・転送・自動応答） */}
+            <CallPolicyPanel callPolicy={callPolicy} onUpdate={updateCallPolicy} />
+
+            {/* 発信・応答・接続・登録の失敗 */}
+            <SipErrorBanners errors={sipErrors} onDismiss={dismissSipError} onRetry={handleSipErrorRetry} />
+
             {/* 通話状態表示 */}
             {callStatus !== 'idle' && (
               <div className="p-4 bg-gradient-to-r from-blue-50 to-indigo-50 border-2 border-blue-200 rounded-xl shadow-inner">
                 <p className="text-sm font-medium text-blue-700">
-                  {callStatus === 'calling' && '📞 発信中...'}
-                  {callStatus === 'ringing' && `📱 ${incomingCallNumber} からの着信`}
-                  {callStatus === 'in-call' && `🔊 通話中${incomingCallNumber ? ` - ${incomingCallNumber}` : ''}`}
-                  {callStatus === 'ending' && '📴 通話終了中...'}
+                  {getCallStatusMessage(callStatus, formatRemoteIdentity(remoteIdentity))}
+                </p>
+                {activeLine?.isHeldByRemote && (callStatus === 'in-call' || callStatus === 'on-hold') && (
+                  <p className="mt-1 text-xs font-medium text-yellow-700">相手により保留されています</p>
+                )}
+                {activeLine?.isInConference && (
+                  <p className="mt-1 text-xs font-medium text-teal-700">👥 会議中（全員の音声を合成しています）</p>
+                )}
+                {activeLine?.isMuted && (
+                  <p className="mt-1 text-xs font-medium text-red-700">🔇 ミュート中</p>
+                )}
+                {recordingStatus !== 'idle' && (
+                  <p className={`mt-1 text-xs font-medium text-red-700 ${recordingStatus === 'recording' ? 'animate-pulse' : ''}`}>
+                    {recordingStatus === 'recording' ? '⏺ 録音中' : '⏸ 録音一時停止中'}
+                    {recordingLineId !== activeLine?.id && '（別の回線）'}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* 3者通話（会議）の操作 */}
+            <ConferencePanel
+              activeLine={activeLine}
+              lines={lines.map(line => ({ ...line, remoteIdentity: resolveIdentity(line.remoteIdentity) }))}
+              onDrop={hangupCall}
+              onMerge={(otherLineId) => {
+                if (activeLine) {
+                  void mergeLines(activeLine.id, otherLineId);
+                }
+              }}
+              onSplit={splitConference}
+            />
+
+            {/* 通話品質 */}
+            {callStatus === 'in-call' && <CallQualityPanel samples={qualitySamples} />}
+
+            {/* 転送の進捗 */}
+            {transferState.status !== 'idle' && (
+              <div className="p-4 bg-indigo-50 border-2 border-indigo-200 rounded-xl flex items-start justify-between gap-2">
+                <p className="text-sm font-medium text-indigo-700">
+                  {`↪️ ${formatTransferStatus(transferState)}`}
+                </p>
+                {(transferState.status === 'completed' || transferState.status === 'failed') && (
+                  <button
+                    aria-label="通知を閉じる"
+                    className="text-indigo-500 hover:text-indigo-700 text-sm"
+                    onClick={resetTransfer}
+                    type="button"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* 通話切断の通知 */}
+            {isCallDropped && (
+              <div className="p-4 bg-orange-50 border-2 border-orange-200 rounded-xl flex items-start justify-between gap-2">
+                <p className="text-sm font-medium text-orange-700">
+                  ⚠️ サーバとの接続が失われたため、通話が切断されました
                 </p>
+                <button
+                  aria-label="通知を閉じる"
+                  className="text-orange-500 hover:text-orange-700 text-sm"
+                  onClick={dismissCallDropped}
+                  type="button"
+                >
+                  ✕
+                </button>
               </div>
             )}
 
+            {/* 再接続の進捗 */}
+            {connectionStatus === 'reconnecting' && (
+              <p className="text-xs text-center text-yellow-700">
+                {nextRetryAt
+                  ? `次回の再接続: ${new Date(nextRetryAt).toLocaleTimeString('ja-JP')}`
+                  : 'ネットワークの復帰を待っています...'}
+              </p>
+            )}
+
+            {/* 接続/登録状態 */}
+            <SipStatusIndicator
+              connectionStatus={connectionStatus}
+              registrationState={registrationState}
+            />
+
             {/* 接続ボタン */}
             <Button
               className={`w-full h-12 text-sm font-semibold rounded-xl shadow-lg transition-all duration-300 hover:shadow-xl hover:scale-105 ${getConnectionButtonContentWrapper().className}`}
               disabled={
-                (!isSipConfigValid() && connectionStatus !== 'connected')
+                (!isSipConfigValid() && !isSipConfigLocked)
                 || getConnectionButtonContentWrapper().disabled
               }
               onClick={() => {
@@ -260,7 +746,7 @@ function App() {
         </Card>
 
         {/* モダンな電話デザイン */}
-        <div className="flex flex-col items-center w-full lg:w-2/3">
+        <div className="flex flex-col items-center w-full lg:w-1/3">
           {/* 電話本体のフレーム */}
           <div className="relative bg-gradient-to-b from-gray-50 via-white to-gray-100 rounded-[3rem] p-8 shadow-2xl border-4 border-gray-300 w-full max-w-md">
             {/* 電話上部のスピーカーグリル */}
@@ -268,6 +754,53 @@ function App() {
               <div className="w-20 h-2 bg-gray-400 rounded-full shadow-inner"></div>
             </div>
 
+            {/* 回線キー */}
+            <div className="mb-6">
+              <LineKeys
+                activeLineId={activeLine?.id ?? null}
+                disabled={lines.length === 0}
+                lines={lines.map(line => ({ ...line, remoteIdentity: resolveIdentity(line.remoteIdentity) }))}
+                onSelect={line => (line?.status === 'ringing' ? answerCall(line.id) : switchLine(line?.id ?? null))}
+              />
+            </div>
+
+            {/* 着信画面（他の回線で通話中でも表示する） */}
+            {ringingLine && (
+              <div className="mb-8">
+                <IncomingCallPanel
+                  hasVideo={ringingLine.hasRemoteVideo}
+                  isCallWaiting={isCallWaiting}
+                  isIgnored={ringingLine.isIncomingCallIgnored}
+                  key={ringingLine.id}
+                  onAnswer={video => answerCall(ringingLine.id, video)}
+                  onDecline={statusCode => declineCall(ringingLine.id, statusCode)}
+                  onEndAndAnswer={video => endAndAnswerCall(ringingLine.id, video)}
+                  onIgnore={() => { ignoreCall(ringingLine.id); }}
+                  remoteIdentity={resolveIdentity(ringingLine.remoteIdentity)}
+                />
+              </div>
+            )}
+
+            {/* ビデオ表示（相手の映像と自分のプレビュー） */}
+            <div className={isVideoShown ? 'relative mb-6' : 'hidden'}>
+              <video
+                autoPlay
+                className="w-full aspect-video rounded-2xl bg-gray-900 object-cover shadow-inner"
+                muted
+                playsInline
+                ref={remoteVideoRef}
+              />
+              <video
+                autoPlay
+                className={activeLine?.isVideo && activeLine.isCameraOn
+                  ? 'absolute bottom-2 right-2 w-1/3 aspect-video rounded-lg border-2 border-white bg-gray-700 object-cover shadow-lg'
+                  : 'hidden'}
+                muted
+                playsInline
+                ref={localVideoRef}
+              />
+            </div>
+
             {/* ディスプレイエリア */}
             <div className="bg-gradient-to-b from-gray-50 to-gray-100 rounded-2xl p-6 mb-8 shadow-inner border-2 border-gray-300">
               <div className="flex items-center justify-between">
@@ -277,7 +810,7 @@ function App() {
                   onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
                     handleDialedNumberChange(e.target.value);
                   }}
-                  placeholder="番号を入力"
+                  placeholder={callStatus === 'in-call' || callStatus === 'on-hold' ? '転送先を入力' : '番号を入力'}
                   value={dialedNumber}
                 />
                 <Button
@@ -290,6 +823,40 @@ function App() {
                   クリア
                 </Button>
               </div>
+              {/* ダイアルプランを適用した発信先 */}
+              {canStartCall && dialedNumber && (
+                <p className={`mt-1 break-all text-center font-mono text-xs ${dialPlanPreview.blockedBy ? 'text-red-600' : 'text-gray-500'}`}>
+                  {formatDialPlanResult(dialPlanPreview)}
+                </p>
+              )}
+              {/* おやすみモード中は着信を受けないことを表示する */}
+              {callPolicy.doNotDisturb && (
+                <p className="mt-1 text-center text-xs font-medium text-red-600">🔕 おやすみモード中（着信を拒否します）</p>
+              )}
+              {/* 発信する通話の種類 */}
+              {canStartCall && (
+                <label className="mt-3 flex items-center justify-center gap-2 text-sm text-gray-600" htmlFor="video-call">
+                  <input
+                    checked={isVideoCall}
+                    className="h-4 w-4"
+                    id="video-call"
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                      setIsVideoCall(e.target.checked);
+                    }}
+                    type="checkbox"
+                  />
+                  ビデオ通話で発信
+                </label>
+              )}
+              {/* 通話中に送信したDTMF */}
+              {(callStatus === 'in-call' || callStatus === 'on-hold') && (
+                <div className="mt-3 pt-3 border-t border-gray-300 flex items-center gap-2">
+                  <span className="text-xs font-medium text-gray-500 shrink-0">DTMF</span>
+                  <span className="font-mono text-lg text-gray-700 tracking-widest truncate">
+                    {sentDtmfDigits || '-'}
+                  </span>
+                </div>
+              )}
             </div>
 
             {/* ダイアルパッド */}
@@ -298,7 +865,7 @@ function App() {
                 <Button
                   className="h-16 w-16 mx-auto text-2xl font-bold bg-gradient-to-b from-white to-gray-100 hover:from-gray-100 hover:to-gray-200 border-2 border-gray-300 rounded-full shadow-lg transition-all duration-200 hover:shadow-xl active:scale-95 text-gray-800 hover:text-gray-900"
                   key={digit}
-                  onClick={() => { handleDialPadClick(digit); }}
+                  onClick={() => { handleDialPadPress(digit); }}
                   size="lg"
                   variant="outline"
                 >
@@ -307,6 +874,27 @@ function App() {
               ))}
             </div>
 
+            {/* 通話中の操作ボタン */}
+            {(callStatus === 'in-call' || callStatus === 'on-hold') && (
+              <div className="grid grid-cols-2 gap-4 mb-6">
+                {[
+                  ...getInCallButtonContents(),
+                  ...getRecordingButtonContentsWrapper(),
+                  ...getTransferButtonContentsWrapper(),
+                ].map(content => (
+                  <Button
+                    className={`h-10 rounded-xl shadow ${content.className}`}
+                    disabled={content.disabled}
+                    key={`${content.iconType}-${content.text}`}
+                    onClick={() => { void content.onClick(); }}
+                  >
+                    {content.icon}
+                    {content.text}
+                  </Button>
+                ))}
+              </div>
+            )}
+
             {/* 発信/終了ボタン */}
             <div className="flex justify-center">
               <Button
@@ -336,6 +924,69 @@ function App() {
             </div>
           )}
         </div>
+
+        {/* 内線状態、通話履歴、アドレス帳、チャット、通話録音、ダイアルプラン、SIPトレース */}
+        <div className="w-full lg:w-1/3 space-y-6">
+          <BusyLampPanel
+            canSelect={connectionStatus === 'connected'}
+            eventPackage={presenceSettings.eventPackage}
+            lamps={presenceSettings.extensions.map(extension => ({
+              extension,
+              name: resolveIdentity({ displayName: '', uri: extension }).displayName,
+              state: presenceStates[extension] ?? 'unknown',
+            }))}
+            onAdd={addPresenceExtension}
+            onEventPackageChange={setPresenceEventPackage}
+            onRemove={removePresenceExtension}
+            onSelect={handleLampSelect}
+          />
+          <CallHistoryPanel
+            canRedial={connectionStatus === 'connected' && canStartCall}
+            entries={callHistory.map(entry => ({ ...entry, remoteIdentity: resolveIdentity(entry.remoteIdentity) }))}
+            onClear={clearCallHistory}
+            onDelete={deleteCallHistoryEntry}
+            onExportQuality={exportCallQuality}
+            onRedial={handleRedial}
+          />
+          <ContactsPanel
+            canDial={connectionStatus === 'connected' && canStartCall}
+            contacts={contacts}
+            onDelete={deleteContact}
+            onDial={handleRedial}
+            onExport={exportContacts}
+            onImport={importContacts}
+            onSave={saveContact}
+          />
+          <ChatPanel
+            activePeerUri={activePeerUri}
+            canSend={connectionStatus === 'connected'}
+            onDeleteThread={deleteThread}
+            onOpenThread={openThread}
+            onSend={sendMessage}
+            threads={threads}
+            unreadTotal={unreadTotal}
+          />
+          <RecordingsPanel
+            onDelete={removeRecording}
+            onDownload={(recording) => { downloadBlob(recording.blob, recording.fileName); }}
+            recordings={recordings}
+          />
+          <DialPlanPanel
+            dialPlan={dialPlan}
+            domain={sipDomain}
+            onAddRule={addDialPlanRule}
+            onMoveRule={moveDialPlanRule}
+            onRemoveRule={removeDialPlanRule}
+            onReset={resetDialPlan}
+            onUpdateRule={updateDialPlanRule}
+            onUpdateSetting={updateDialPlanSetting}
+          />
+          <SipTracePanel
+            entries={sipTrace}
+            onClear={clearSipTrace}
+            onExport={exportSipTrace}
+          />
+        </div>
       </div>
     </div>
   );
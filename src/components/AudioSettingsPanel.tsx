@@ -0,0 +1,114 @@
+import { Headphones } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { getDeviceLabel } from '@/lib/media-device-utils';
+
+/**
+ * 音声設定パネルのプロパティ
+ */
+interface AudioSettingsPanelProps {
+  audioInputs: MediaDeviceInfo[];
+  audioOutputs: MediaDeviceInfo[];
+  audioInputId: string;
+  audioOutputId: string;
+  isOutputSelectable: boolean;
+  onSelectAudioInput: (deviceId: string) => void;
+  onSelectAudioOutput: (deviceId: string) => void;
+  onRequestPermission: () => void | Promise<void>;
+}
+
+/**
+ * デバイス選択欄のプロパティ
+ */
+interface DeviceSelectProps {
+  id: string;
+  label: string;
+  devices: MediaDeviceInfo[];
+  value: string;
+  disabled: boolean;
+  onChange: (deviceId: string) => void;
+}
+
+/**
+ * マイクとスピーカーを選択するパネル
+ * 通話中でも切り替えられ、マイクは通話中の全回線の送信音声へ即座に反映される
+ */
+export function AudioSettingsPanel({
+  audioInputs,
+  audioOutputs,
+  audioInputId,
+  audioOutputId,
+  isOutputSelectable,
+  onSelectAudioInput,
+  onSelectAudioOutput,
+  onRequestPermission,
+}: AudioSettingsPanelProps) {
+  // 権限が許可されるまではデバイス名が取得できない
+  const hasLabels = [...audioInputs, ...audioOutputs].some(device => device.label);
+
+  return (
+    <div className="space-y-3 pb-4 border-b border-gray-200">
+      <DeviceSelect
+        devices={audioInputs}
+        disabled={false}
+        id="audio-input"
+        label="マイク"
+        onChange={onSelectAudioInput}
+        value={audioInputId}
+      />
+      <DeviceSelect
+        devices={audioOutputs}
+        disabled={!isOutputSelectable}
+        id="audio-output"
+        label={isOutputSelectable ? 'スピーカー' : 'スピーカー（このブラウザは切り替え非対応）'}
+        onChange={onSelectAudioOutput}
+        value={audioOutputId}
+      />
+      {!hasLabels && (
+        <Button
+          className="w-full"
+          onClick={() => { void onRequestPermission(); }}
+          size="sm"
+          variant="outline"
+        >
+          <Headphones className="w-4 h-4 mr-1" />
+          デバイス名を表示（マイクの使用を許可）
+        </Button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * デバイスの選択欄
+ */
+function DeviceSelect({ id, label, devices, value, disabled, onChange }: DeviceSelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium text-gray-700" htmlFor={id}>
+        {label}
+      </Label>
+      <select
+        className="w-full h-9 rounded-md border-2 border-gray-200 bg-white px-2 text-sm focus:border-blue-500 transition-colors disabled:opacity-50"
+        disabled={disabled}
+        id={id}
+        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+          onChange(e.target.value);
+        }}
+        value={value}
+      >
+        <option value="">既定のデバイス</option>
+        {devices
+          .filter(device => device.deviceId && device.deviceId !== 'default')
+          .map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {getDeviceLabel(device, index)}
+            </option>
+          ))}
+      </select>
+    </div>
+  );
+}
+
+export default AudioSettingsPanel;
@@ -0,0 +1,137 @@
+import { Lightbulb, Plus, X } from 'lucide-react';
+import { useState } from 'react';
+
+import { PRESENCE_EVENT_PACKAGE_OPTIONS, type PresenceEventPackage, type PresenceState } from '@/@types/sip.types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { PRESENCE_LAMP_CLASS_NAMES, PRESENCE_STATE_LABELS } from '@/lib/presence-utils';
+
+/**
+ * ランプ1つ分の表示内容
+ * nameはアドレス帳に登録されている場合の名前（なければ空文字）
+ */
+interface BusyLamp {
+  extension: string;
+  name: string;
+  state: PresenceState;
+}
+
+/**
+ * BLFパネルのプロパティ
+ */
+interface BusyLampPanelProps {
+  lamps: BusyLamp[];
+  eventPackage: PresenceEventPackage;
+  canSelect: boolean;
+  onSelect: (extension: string) => void;
+  onAdd: (extension: string) => void;
+  onRemove: (extension: string) => void;
+  onEventPackageChange: (eventPackage: PresenceEventPackage) => void;
+}
+
+/**
+ * 内線の在席状態をランプで表示するBLF（Busy Lamp Field）パネル
+ * ランプをクリックすると待機中はその内線へ発信し、通話中は転送先として入力する
+ */
+export function BusyLampPanel({
+  lamps,
+  eventPackage,
+  canSelect,
+  onSelect,
+  onAdd,
+  onRemove,
+  onEventPackageChange,
+}: BusyLampPanelProps) {
+  const [newExtension, setNewExtension] = useState<string>('');
+
+  return (
+    <Card className="w-full shadow-xl border-0 bg-white/80 backdrop-blur-sm">
+      <CardHeader className="border-b border-gray-200 flex flex-row items-center justify-between gap-2">
+        <CardTitle className="text-xl font-bold text-gray-800 flex items-center">
+          <Lightbulb className="mr-2 h-5 w-5 text-gray-600" />
+          内線状態
+        </CardTitle>
+        <select
+          aria-label="購読するイベント"
+          className="h-8 rounded-md border-2 border-gray-200 bg-white px-2 text-sm focus:border-blue-500 transition-colors"
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+            onEventPackageChange(e.target.value as PresenceEventPackage);
+          }}
+          value={eventPackage}
+        >
+          {PRESENCE_EVENT_PACKAGE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </CardHeader>
+      <CardContent className="p-0">
+        {lamps.length === 0
+          ? (
+              <p className="p-6 text-sm text-gray-500 text-center">監視する内線はありません</p>
+            )
+          : (
+              <ul className="grid grid-cols-2 gap-2 p-4">
+                {lamps.map(lamp => (
+                  <li className="flex items-center gap-1 rounded-lg border border-gray-200 bg-white" key={lamp.extension}>
+                    <button
+                      className="flex flex-1 min-w-0 items-center gap-2 px-3 py-2 text-left disabled:cursor-not-allowed disabled:opacity-50"
+                      disabled={!canSelect}
+                      onClick={() => { onSelect(lamp.extension); }}
+                      title={PRESENCE_STATE_LABELS[lamp.state]}
+                      type="button"
+                    >
+                      <span
+                        className={`h-3 w-3 shrink-0 rounded-full ${PRESENCE_LAMP_CLASS_NAMES[lamp.state]}`}
+                      />
+                      <span className="min-w-0">
+                        <span className="block truncate text-sm font-semibold text-gray-800">
+                          {lamp.name || lamp.extension}
+                        </span>
+                        {lamp.name && <span className="block truncate text-xs text-gray-500">{lamp.extension}</span>}
+                      </span>
+                    </button>
+                    <Button
+                      aria-label="内線を削除"
+                      className="text-gray-400 hover:text-red-600"
+                      onClick={() => { onRemove(lamp.extension); }}
+                      size="icon"
+                      variant="ghost"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+        <form
+          className="flex gap-2 border-t border-gray-200 p-4"
+          onSubmit={(e: React.FormEvent<HTMLFormElement>) => {
+            e.preventDefault();
+            if (newExtension.trim()) {
+              onAdd(newExtension);
+              setNewExtension('');
+            }
+          }}
+        >
+          <Input
+            className="flex-1 border-2 border-gray-200 focus:border-blue-500 transition-colors"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              setNewExtension(e.target.value);
+            }}
+            placeholder="内線番号またはSIPアドレス"
+            value={newExtension}
+          />
+          <Button disabled={!newExtension.trim()} size="sm" type="submit" variant="outline">
+            <Plus className="h-4 w-4 mr-1" />
+            追加
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default BusyLampPanel;
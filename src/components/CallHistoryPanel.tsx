@@ -0,0 +1,123 @@
+import { FileJson, History, PhoneIncoming, PhoneMissed, PhoneOutgoing, Trash2 } from 'lucide-react';
+
+import type { CallHistoryEntry } from '@/@types/sip.types';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CALL_END_REASON_LABELS, formatCallDuration } from '@/lib/call-history-utils';
+import { formatRemoteIdentity, getUriUser } from '@/lib/sip-session-utils';
+
+/**
+ * 通話履歴パネルのプロパティ
+ */
+interface CallHistoryPanelProps {
+  entries: CallHistoryEntry[];
+  canRedial: boolean;
+  onRedial: (number: string) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onExportQuality: (entry: CallHistoryEntry) => void;
+}
+
+/**
+ * 履歴エントリの方向と終了理由に応じたアイコンを取得
+ * @param entry - 通話履歴エントリ
+ * @returns アイコン要素
+ */
+const getEntryIcon = (entry: CallHistoryEntry) => {
+  if (entry.direction === 'outgoing') {
+    return <PhoneOutgoing className="h-4 w-4 text-blue-600" />;
+  }
+  if (entry.endReason === 'answered') {
+    return <PhoneIncoming className="h-4 w-4 text-green-600" />;
+  }
+  return <PhoneMissed className="h-4 w-4 text-red-600" />;
+};
+
+/**
+ * 通話履歴の一覧と再発信/削除操作を表示するパネル
+ * 通話品質の集計結果がある通話はJSONで出力できる
+ */
+export function CallHistoryPanel({
+  entries,
+  canRedial,
+  onRedial,
+  onDelete,
+  onClear,
+  onExportQuality,
+}: CallHistoryPanelProps) {
+  return (
+    <Card className="w-full shadow-xl border-0 bg-white/80 backdrop-blur-sm">
+      <CardHeader className="border-b border-gray-200 flex flex-row items-center justify-between">
+        <CardTitle className="text-xl font-bold text-gray-800 flex items-center">
+          <History className="mr-2 h-5 w-5 text-gray-600" />
+          通話履歴
+        </CardTitle>
+        <Button
+          disabled={entries.length === 0}
+          onClick={onClear}
+          size="sm"
+          variant="ghost"
+        >
+          すべて削除
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">
+        {entries.length === 0
+          ? (
+              <p className="p-6 text-sm text-gray-500 text-center">履歴はありません</p>
+            )
+          : (
+              <ul className="max-h-[32rem] overflow-y-auto divide-y divide-gray-200">
+                {entries.map(entry => (
+                  <li className="flex items-center gap-3 px-4 py-3" key={entry.id}>
+                    {getEntryIcon(entry)}
+                    <button
+                      className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+                      disabled={!canRedial}
+                      onClick={() => { onRedial(getUriUser(entry.remoteIdentity.uri)); }}
+                      title="再発信"
+                      type="button"
+                    >
+                      <p className={`text-sm font-semibold truncate ${entry.endReason === 'missed' ? 'text-red-600' : 'text-gray-800'}`}>
+                        {formatRemoteIdentity(entry.remoteIdentity) || '非通知'}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(entry.startedAt).toLocaleString('ja-JP')}
+                        {' ・ '}
+                        {CALL_END_REASON_LABELS[entry.endReason]}
+                        {entry.endReason === 'answered' && ` ${formatCallDuration(entry.duration)}`}
+                        {typeof entry.quality?.averageMos === 'number' && ` ・ MOS ${String(entry.quality.averageMos)}`}
+                      </p>
+                    </button>
+                    {entry.quality && (
+                      <Button
+                        aria-label="通話品質をJSONで出力"
+                        className="text-gray-400 hover:text-blue-600"
+                        onClick={() => { onExportQuality(entry); }}
+                        size="icon"
+                        title="通話品質をJSONで出力"
+                        variant="ghost"
+                      >
+                        <FileJson className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      aria-label="履歴を削除"
+                      className="text-gray-400 hover:text-red-600"
+                      onClick={() => { onDelete(entry.id); }}
+                      size="icon"
+                      variant="ghost"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default CallHistoryPanel;
@@ -0,0 +1,183 @@
+import {
+  AUTO_ANSWER_MODE_OPTIONS,
+  type AutoAnswerMode,
+  type CallPolicy,
+  DO_NOT_DISTURB_STATUS_OPTIONS,
+  FORWARD_MODE_OPTIONS,
+  type ForwardMode,
+} from '@/@types/sip.types';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { getCallPolicyBadges } from '@/lib/call-policy-utils';
+
+/**
+ * 着信時の処理パネルのプロパティ
+ */
+interface CallPolicyPanelProps {
+  callPolicy: CallPolicy;
+  onUpdate: <K extends keyof CallPolicy>(field: K, value: CallPolicy[K]) => void;
+}
+
+/**
+ * おやすみモード・着信転送・自動応答を設定するパネル
+ * 有効になっている処理を先頭にバッジで表示する
+ */
+export function CallPolicyPanel({ callPolicy, onUpdate }: CallPolicyPanelProps) {
+  const badges = getCallPolicyBadges(callPolicy);
+  const selectClassName = 'w-full h-9 rounded-md border-2 border-gray-200 bg-white px-2 text-sm focus:border-blue-500 transition-colors';
+
+  return (
+    <div className="space-y-3 pb-4 border-b border-gray-200">
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-sm font-medium text-gray-700 mr-1">着信時の処理</span>
+        {badges.length === 0
+          ? <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">通常着信</span>
+          : badges.map(badge => (
+              <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${badge.className}`} key={badge.label}>
+                {badge.label}
+              </span>
+            ))}
+      </div>
+
+      {/* おやすみモード */}
+      <div className="flex items-center gap-2">
+        <label className="flex flex-1 items-center gap-2 text-sm text-gray-700" htmlFor="do-not-disturb">
+          <input
+            checked={callPolicy.doNotDisturb}
+            className="h-4 w-4"
+            id="do-not-disturb"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              onUpdate('doNotDisturb', e.target.checked);
+            }}
+            type="checkbox"
+          />
+          おやすみモード
+        </label>
+        <select
+          aria-label="おやすみモードの拒否コード"
+          className="h-9 rounded-md border-2 border-gray-200 bg-white px-2 text-sm focus:border-blue-500 transition-colors"
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+            onUpdate('doNotDisturbStatusCode', Number(e.target.value) as CallPolicy['doNotDisturbStatusCode']);
+          }}
+          value={callPolicy.doNotDisturbStatusCode}
+        >
+          {DO_NOT_DISTURB_STATUS_OPTIONS.map(option => (
+            <option key={option.statusCode} value={option.statusCode}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* 着信転送 */}
+      <div className="space-y-2">
+        <Label className="text-sm font-medium text-gray-700" htmlFor="forward-mode">
+          着信転送（302）
+        </Label>
+        <select
+          className={selectClassName}
+          id="forward-mode"
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+            onUpdate('forwardMode', e.target.value as ForwardMode);
+          }}
+          value={callPolicy.forwardMode}
+        >
+          {FORWARD_MODE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        {callPolicy.forwardMode !== 'off' && (
+          <div className="flex gap-2">
+            <Input
+              aria-label="転送先"
+              className="flex-1 border-2 border-gray-200 focus:border-blue-500 transition-colors"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                onUpdate('forwardTarget', e.target.value);
+              }}
+              placeholder="転送先（番号またはSIPアドレス）"
+              value={callPolicy.forwardTarget}
+            />
+            {callPolicy.forwardMode === 'no-answer' && (
+              <Input
+                aria-label="無応答で転送するまでの秒数"
+                className="w-20 border-2 border-gray-200 focus:border-blue-500 transition-colors"
+                min={1}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                  onUpdate('forwardNoAnswerSeconds', Number(e.target.value));
+                }}
+                title="無応答で転送するまでの秒数"
+                type="number"
+                value={callPolicy.forwardNoAnswerSeconds}
+              />
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* 自動応答 */}
+      <div className="space-y-2">
+        <Label className="text-sm font-medium text-gray-700" htmlFor="auto-answer-mode">
+          自動応答
+        </Label>
+        <div className="flex gap-2">
+          <select
+            className={selectClassName}
+            id="auto-answer-mode"
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+              onUpdate('autoAnswerMode', e.target.value as AutoAnswerMode);
+            }}
+            value={callPolicy.autoAnswerMode}
+          >
+            {AUTO_ANSWER_MODE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {callPolicy.autoAnswerMode !== 'off' && (
+            <Input
+              aria-label="自動応答するまでの秒数"
+              className="w-20 border-2 border-gray-200 focus:border-blue-500 transition-colors"
+              min={0}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                onUpdate('autoAnswerDelaySeconds', Number(e.target.value));
+              }}
+              title="自動応答するまでの秒数"
+              type="number"
+              value={callPolicy.autoAnswerDelaySeconds}
+            />
+          )}
+        </div>
+        {callPolicy.autoAnswerMode === 'conditional' && (
+          <Input
+            aria-label="自動応答する発信者"
+            className="w-full border-2 border-gray-200 focus:border-blue-500 transition-colors"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              onUpdate('autoAnswerCallers', e.target.value);
+            }}
+            placeholder="発信者（カンマ区切り、例: 1001, 2*）"
+            value={callPolicy.autoAnswerCallers}
+          />
+        )}
+        {callPolicy.autoAnswerMode !== 'off' && (
+          <label className="flex items-center gap-2 text-xs text-gray-600" htmlFor="auto-answer-intercom">
+            <input
+              checked={callPolicy.autoAnswerIntercom}
+              className="h-4 w-4"
+              id="auto-answer-intercom"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                onUpdate('autoAnswerIntercom', e.target.checked);
+              }}
+              type="checkbox"
+            />
+            インターコム（Alert-Info/Call-Infoの自動応答指定）に従う
+          </label>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default CallPolicyPanel;
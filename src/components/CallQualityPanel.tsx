@@ -0,0 +1,91 @@
+import { Activity } from 'lucide-react';
+
+import type { CallQualitySample } from '@/@types/sip.types';
+
+import { buildSparklinePoints, formatQualityValue, getMosRating } from '@/lib/call-quality-utils';
+
+/**
+ * スパークラインの描画サイズ
+ */
+const SPARKLINE_WIDTH = 80;
+const SPARKLINE_HEIGHT = 20;
+
+/**
+ * 通話品質パネルのプロパティ
+ */
+interface CallQualityPanelProps {
+  samples: CallQualitySample[];
+}
+
+/**
+ * 計測項目の表示内容
+ */
+interface QualityMetric {
+  label: string;
+  unit: string;
+  key: 'jitterMs' | 'mos' | 'packetLossPercent' | 'receiveBitrateKbps' | 'roundTripTimeMs' | 'sendBitrateKbps';
+  strokeClassName: string;
+}
+
+/**
+ * 表示する計測項目
+ */
+const QUALITY_METRICS: QualityMetric[] = [
+  { label: '受信', unit: 'kbps', key: 'receiveBitrateKbps', strokeClassName: 'stroke-blue-500' },
+  { label: '送信', unit: 'kbps', key: 'sendBitrateKbps', strokeClassName: 'stroke-indigo-500' },
+  { label: '往復遅延', unit: 'ms', key: 'roundTripTimeMs', strokeClassName: 'stroke-orange-500' },
+  { label: 'ジッタ', unit: 'ms', key: 'jitterMs', strokeClassName: 'stroke-yellow-500' },
+  { label: 'パケット損失', unit: '%', key: 'packetLossPercent', strokeClassName: 'stroke-red-500' },
+  { label: '推定MOS', unit: '', key: 'mos', strokeClassName: 'stroke-green-500' },
+];
+
+/**
+ * 通話中の品質（getStats）を最新値とスパークラインで表示するパネル
+ */
+export function CallQualityPanel({ samples }: CallQualityPanelProps) {
+  const latest = samples.length > 0 ? samples[samples.length - 1] : null;
+  const rating = getMosRating(latest?.mos ?? null);
+
+  return (
+    <div className="p-4 bg-gray-50 border-2 border-gray-200 rounded-xl space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-semibold text-gray-700 flex items-center">
+          <Activity className="mr-1 h-4 w-4" />
+          通話品質
+        </span>
+        <span className="text-xs text-gray-500">
+          {latest?.codec ? `コーデック: ${latest.codec}` : 'コーデック: -'}
+          <span className={`ml-2 font-semibold ${rating.className}`}>{rating.label}</span>
+        </span>
+      </div>
+      <dl className="grid grid-cols-2 gap-2">
+        {QUALITY_METRICS.map(metric => (
+          <div className="flex items-center justify-between gap-2 rounded-lg bg-white px-2 py-1" key={metric.key}>
+            <div className="min-w-0">
+              <dt className="text-xs text-gray-500">{metric.label}</dt>
+              <dd className="text-sm font-semibold text-gray-800">
+                {formatQualityValue(latest?.[metric.key] ?? null, metric.unit)}
+              </dd>
+            </div>
+            <svg
+              aria-hidden="true"
+              className="shrink-0"
+              height={SPARKLINE_HEIGHT}
+              viewBox={`0 0 ${String(SPARKLINE_WIDTH)} ${String(SPARKLINE_HEIGHT)}`}
+              width={SPARKLINE_WIDTH}
+            >
+              <polyline
+                className={metric.strokeClassName}
+                fill="none"
+                points={buildSparklinePoints(samples.map(sample => sample[metric.key]), SPARKLINE_WIDTH, SPARKLINE_HEIGHT)}
+                strokeWidth={1.5}
+              />
+            </svg>
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+export default CallQualityPanel;
@@ -0,0 +1,221 @@
+import { ArrowLeft, MessageSquare, Send, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+
+import type { ChatThread } from '@/@types/sip.types';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { CHAT_MESSAGE_STATUS_LABELS } from '@/lib/chat-utils';
+import { getUriUser } from '@/lib/sip-session-utils';
+
+/**
+ * メッセージ入力欄のプロパティ
+ */
+interface ChatComposerProps {
+  canSend: boolean;
+  placeholder: string;
+  onSend: (body: string) => void;
+}
+
+/**
+ * チャットパネルのプロパティ
+ */
+interface ChatPanelProps {
+  threads: ChatThread[];
+  activePeerUri: string | null;
+  unreadTotal: number;
+  canSend: boolean;
+  onOpenThread: (peerUri: string | null) => void;
+  onSend: (target: string, body: string) => void | Promise<void>;
+  onDeleteThread: (peerUri: string) => void;
+}
+
+/**
+ * スレッドの相手の表示名を取得
+ * @param thread - チャットスレッド
+ * @returns 表示名があれば表示名、なければURIのユーザ部
+ */
+const getThreadTitle = (thread: ChatThread): string => {
+  return thread.displayName || getUriUser(thread.peerUri);
+};
+
+/**
+ * SIP MESSAGEによるチャットのスレッド一覧と会話を表示するパネル
+ * スレッドを選択すると会話を表示し、一覧では宛先を指定して新しい会話を始められる
+ */
+export function ChatPanel({
+  threads,
+  activePeerUri,
+  unreadTotal,
+  canSend,
+  onOpenThread,
+  onSend,
+  onDeleteThread,
+}: ChatPanelProps) {
+  const [newTarget, setNewTarget] = useState<string>('');
+  const activeThread = threads.find(thread => thread.peerUri === activePeerUri) ?? null;
+
+  return (
+    <Card className="w-full shadow-xl border-0 bg-white/80 backdrop-blur-sm">
+      <CardHeader className="border-b border-gray-200 flex flex-row items-center gap-2">
+        {activeThread && (
+          <Button
+            aria-label="スレッド一覧へ戻る"
+            onClick={() => { onOpenThread(null); }}
+            size="icon"
+            variant="ghost"
+          >
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        )}
+        <CardTitle className="text-xl font-bold text-gray-800 flex items-center min-w-0">
+          <MessageSquare className="mr-2 h-5 w-5 shrink-0 text-gray-600" />
+          <span className="truncate">{activeThread ? getThreadTitle(activeThread) : 'チャット'}</span>
+          {!activeThread && unreadTotal > 0 && (
+            <span className="ml-2 rounded-full bg-red-500 px-2 text-xs text-white">{unreadTotal}</span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        {activeThread
+          ? (
+              <>
+                <ul className="max-h-[20rem] overflow-y-auto space-y-2 p-4">
+                  {activeThread.messages.map(message => (
+                    <li
+                      className={`flex flex-col ${message.direction === 'outgoing' ? 'items-end' : 'items-start'}`}
+                      key={message.id}
+                    >
+                      <p
+                        className={`max-w-[80%] whitespace-pre-wrap break-words rounded-xl px-3 py-2 text-sm ${
+                          message.direction === 'outgoing' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        {message.body}
+                      </p>
+                      <span className={`text-[10px] ${message.status === 'failed' ? 'text-red-600' : 'text-gray-400'}`}>
+                        {new Date(message.timestamp).toLocaleTimeString('ja-JP')}
+                        {message.direction === 'outgoing' && ` ${CHAT_MESSAGE_STATUS_LABELS[message.status]}`}
+                        {message.status === 'failed' && message.statusCode !== null && ` (${String(message.statusCode)})`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                <ChatComposer
+                  canSend={canSend}
+                  onSend={(body) => { void onSend(activeThread.peerUri, body); }}
+                  placeholder="メッセージを入力"
+                />
+              </>
+            )
+          : (
+              <>
+                {threads.length === 0
+                  ? (
+                      <p className="p-6 text-sm text-gray-500 text-center">メッセージはありません</p>
+                    )
+                  : (
+                      <ul className="max-h-[20rem] overflow-y-auto divide-y divide-gray-200">
+                        {threads.map((thread) => {
+                          const lastMessage = thread.messages.length > 0
+                            ? thread.messages[thread.messages.length - 1]
+                            : null;
+                          return (
+                            <li className="flex items-center gap-3 px-4 py-3" key={thread.peerUri}>
+                              <button
+                                className="flex-1 min-w-0 text-left"
+                                onClick={() => { onOpenThread(thread.peerUri); }}
+                                type="button"
+                              >
+                                <p className="text-sm font-semibold text-gray-800 truncate">
+                                  {getThreadTitle(thread)}
+                                  {thread.unreadCount > 0 && (
+                                    <span className="ml-2 rounded-full bg-red-500 px-2 text-xs text-white">
+                                      {thread.unreadCount}
+                                    </span>
+                                  )}
+                                </p>
+                                <p className="text-xs text-gray-500 truncate">{lastMessage?.body}</p>
+                              </button>
+                              <Button
+                                aria-label="スレッドを削除"
+                                className="text-gray-400 hover:text-red-600"
+                                onClick={() => { onDeleteThread(thread.peerUri); }}
+                                size="icon"
+                                variant="ghost"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                <div className="border-t border-gray-200 px-4 pt-3">
+                  <Input
+                    className="w-full border-2 border-gray-200 focus:border-blue-500 transition-colors"
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                      setNewTarget(e.target.value);
+                    }}
+                    placeholder="宛先（番号またはSIPアドレス）"
+                    value={newTarget}
+                  />
+                </div>
+                <ChatComposer
+                  canSend={canSend && newTarget.trim() !== ''}
+                  onSend={(body) => {
+                    void onSend(newTarget.trim(), body);
+                    setNewTarget('');
+                  }}
+                  placeholder="新しいメッセージを入力"
+                />
+              </>
+            )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * メッセージの入力欄と送信ボタン
+ */
+function ChatComposer({ canSend, placeholder, onSend }: ChatComposerProps) {
+  const [draft, setDraft] = useState<string>('');
+  const isSendable = canSend && draft.trim() !== '';
+
+  /**
+   * 入力中のメッセージを送信
+   */
+  const handleSubmit = (): void => {
+    if (!isSendable) {
+      return;
+    }
+    onSend(draft);
+    setDraft('');
+  };
+
+  return (
+    <form
+      className="flex gap-2 p-4"
+      onSubmit={(e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        handleSubmit();
+      }}
+    >
+      <Input
+        className="flex-1 border-2 border-gray-200 focus:border-blue-500 transition-colors"
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+          setDraft(e.target.value);
+        }}
+        placeholder={placeholder}
+        value={draft}
+      />
+      <Button aria-label="送信" disabled={!isSendable} size="icon" type="submit">
+        <Send className="h-4 w-4" />
+      </Button>
+    </form>
+  );
+}
+
+export default ChatPanel;
@@ -0,0 +1,79 @@
+import type { CallLine } from '@/@types/sip.types';
+
+import { formatRemoteIdentity } from '@/lib/sip-session-utils';
+
+/**
+ * 会議パネルのプロパティ
+ */
+interface ConferencePanelProps {
+  lines: CallLine[];
+  activeLine: CallLine | null;
+  onMerge: (otherLineId: string) => void | Promise<void>;
+  onSplit: () => void | Promise<void>;
+  onDrop: (lineId: string) => void | Promise<void>;
+}
+
+/**
+ * 3者通話（会議）の操作パネル
+ * 会議中は参加者と分割・切断ボタンを、選択中の回線が通話中で他に通話中または保留中の回線がある場合は会議にするボタンを表示する
+ */
+export function ConferencePanel({ lines, activeLine, onMerge, onSplit, onDrop }: ConferencePanelProps) {
+  const conferenceLines = lines.filter(line => line.isInConference);
+  const mergeableLines = activeLine?.status === 'in-call' && !activeLine.isInConference
+    ? lines.filter(line => line.id !== activeLine.id && (line.status === 'in-call' || line.status === 'on-hold'))
+    : [];
+
+  if (conferenceLines.length > 0) {
+    return (
+      <div className="p-4 bg-teal-50 border-2 border-teal-200 rounded-xl space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-medium text-teal-700">👥 会議中</p>
+          <button
+            className="rounded-md border border-teal-300 bg-white px-2 py-1 text-xs text-teal-700 hover:bg-teal-100"
+            onClick={() => { void onSplit(); }}
+            type="button"
+          >
+            分割
+          </button>
+        </div>
+        <ul className="space-y-1">
+          {conferenceLines.map(line => (
+            <li className="flex items-center justify-between gap-2 text-xs text-teal-800" key={line.id}>
+              <span className="truncate">
+                {`L${String(line.lineNumber)} ${formatRemoteIdentity(line.remoteIdentity) || '非通知'}`}
+              </span>
+              <button
+                className="rounded-md border border-red-300 bg-white px-2 py-0.5 text-red-600 hover:bg-red-50"
+                onClick={() => { void onDrop(line.id); }}
+                type="button"
+              >
+                切断
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  if (mergeableLines.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {mergeableLines.map(line => (
+        <button
+          className="rounded-md border border-teal-300 bg-white px-2 py-1 text-xs text-teal-700 hover:bg-teal-50"
+          key={line.id}
+          onClick={() => { void onMerge(line.id); }}
+          type="button"
+        >
+          {`👥 L${String(line.lineNumber)} ${formatRemoteIdentity(line.remoteIdentity) || '非通知'} と会議`}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default ConferencePanel;
@@ -0,0 +1,335 @@
+import { BookUser, Download, Pencil, Phone, Plus, Trash2, Upload, X } from 'lucide-react';
+import { useRef, useState } from 'react';
+
+import { type Contact, CONTACT_EXPORT_OPTIONS, type ContactExportFormat, type ContactNumber } from '@/@types/sip.types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { searchContacts } from '@/lib/contact-utils';
+
+/**
+ * 連絡先編集フォームのプロパティ
+ */
+interface ContactFormProps {
+  contact: Contact | null;
+  onSave: (contact: Omit<Contact, 'id'> & { id?: string }) => void;
+  onCancel: () => void;
+}
+
+/**
+ * 番号の入力欄（入力中に並びが変わっても識別できるようキーを持つ）
+ */
+interface ContactNumberRow extends ContactNumber {
+  key: string;
+}
+
+/**
+ * アドレス帳パネルのプロパティ
+ */
+interface ContactsPanelProps {
+  contacts: Contact[];
+  canDial: boolean;
+  onDial: (number: string) => void;
+  onSave: (contact: Omit<Contact, 'id'> & { id?: string }) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => Promise<number>;
+  onExport: (format: ContactExportFormat) => void;
+}
+
+/**
+ * 番号の入力欄を作成
+ * @param number - 入力欄の初期値
+ * @returns 番号の入力欄
+ */
+const createNumberRow = (number: ContactNumber = { label: '', value: '' }): ContactNumberRow => ({
+  ...number,
+  key: crypto.randomUUID(),
+});
+
+/**
+ * 連絡先の検索・発信・編集とvCard/CSVのインポート/エクスポートを行うパネル
+ * 番号をクリックするとその番号へ発信する
+ */
+export function ContactsPanel({
+  contacts,
+  canDial,
+  onDial,
+  onSave,
+  onDelete,
+  onImport,
+  onExport,
+}: ContactsPanelProps) {
+  const [query, setQuery] = useState<string>('');
+  const [exportFormat, setExportFormat] = useState<ContactExportFormat>('vcard3');
+  // 編集中の連絡先（nullは新規追加、undefinedは編集していない）
+  const [editingContact, setEditingContact] = useState<Contact | null | undefined>(undefined);
+  const [importMessage, setImportMessage] = useState<string>('');
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const filteredContacts = searchContacts(contacts, query);
+
+  /**
+   * 選択したファイルから連絡先をインポート
+   * @param file - 選択したファイル
+   */
+  const handleImport = async (file: File): Promise<void> => {
+    const count = await onImport(file);
+    setImportMessage(count > 0 ? `${String(count)}件の連絡先を追加しました` : '追加できる連絡先がありませんでした');
+  };
+
+  return (
+    <Card className="w-full shadow-xl border-0 bg-white/80 backdrop-blur-sm">
+      <CardHeader className="border-b border-gray-200 flex flex-row items-center justify-between">
+        <CardTitle className="text-xl font-bold text-gray-800 flex items-center">
+          <BookUser className="mr-2 h-5 w-5 text-gray-600" />
+          アドレス帳
+        </CardTitle>
+        <Button
+          disabled={editingContact !== undefined}
+          onClick={() => { setEditingContact(null); }}
+          size="sm"
+          variant="ghost"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          追加
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">
+        {editingContact !== undefined && (
+          <ContactForm
+            contact={editingContact}
+            key={editingContact?.id ?? 'new'}
+            onCancel={() => { setEditingContact(undefined); }}
+            onSave={(contact) => {
+              onSave(contact);
+              setEditingContact(undefined);
+            }}
+          />
+        )}
+
+        <div className="space-y-2 p-4 border-b border-gray-200">
+          <Input
+            className="w-full border-2 border-gray-200 focus:border-blue-500 transition-colors"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              setQuery(e.target.value);
+            }}
+            placeholder="名前・組織・番号で検索"
+            type="search"
+            value={query}
+          />
+          <div className="flex gap-2">
+            <input
+              accept=".vcf,.csv,text/vcard,text/csv"
+              className="hidden"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                const file = e.target.files?.[0];
+                if (file) {
+                  void handleImport(file);
+                }
+                e.target.value = '';
+              }}
+              ref={fileInputRef}
+              type="file"
+            />
+            <Button
+              onClick={() => { fileInputRef.current?.click(); }}
+              size="sm"
+              variant="outline"
+            >
+              <Upload className="h-4 w-4 mr-1" />
+              インポート
+            </Button>
+            <select
+              aria-label="エクスポート形式"
+              className="h-8 flex-1 rounded-md border-2 border-gray-200 bg-white px-2 text-sm focus:border-blue-500 transition-colors"
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                setExportFormat(e.target.value as ContactExportFormat);
+              }}
+              value={exportFormat}
+            >
+              {CONTACT_EXPORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <Button
+              disabled={contacts.length === 0}
+              onClick={() => { onExport(exportFormat); }}
+              size="sm"
+              variant="outline"
+            >
+              <Download className="h-4 w-4 mr-1" />
+              エクスポート
+            </Button>
+          </div>
+          {importMessage && <p className="text-xs text-gray-500">{importMessage}</p>}
+        </div>
+
+        {filteredContacts.length === 0
+          ? (
+              <p className="p-6 text-sm text-gray-500 text-center">
+                {contacts.length === 0 ? '連絡先はありません' : '一致する連絡先はありません'}
+              </p>
+            )
+          : (
+              <ul className="max-h-[24rem] overflow-y-auto divide-y divide-gray-200">
+                {filteredContacts.map(contact => (
+                  <li className="flex items-start gap-3 px-4 py-3" key={contact.id}>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-gray-800 truncate">{contact.name || '（名前なし）'}</p>
+                      {contact.organization && (
+                        <p className="text-xs text-gray-500 truncate">{contact.organization}</p>
+                      )}
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {contact.numbers.map(number => (
+                          <button
+                            className="inline-flex items-center gap-1 rounded-full bg-blue-50 px-2 py-0.5 text-xs text-blue-700 hover:bg-blue-100 disabled:cursor-not-allowed disabled:opacity-50"
+                            disabled={!canDial}
+                            key={`${number.label}-${number.value}`}
+                            onClick={() => { onDial(number.value); }}
+                            title="発信"
+                            type="button"
+                          >
+                            <Phone className="h-3 w-3" />
+                            {number.label ? `${number.label}: ${number.value}` : number.value}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <Button
+                      aria-label="連絡先を編集"
+                      className="text-gray-400 hover:text-blue-600"
+                      disabled={editingContact !== undefined}
+                      onClick={() => { setEditingContact(contact); }}
+                      size="icon"
+                      variant="ghost"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      aria-label="連絡先を削除"
+                      className="text-gray-400 hover:text-red-600"
+                      onClick={() => { onDelete(contact.id); }}
+                      size="icon"
+                      variant="ghost"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * 連絡先の追加/編集フォーム
+ * 連絡先ごとに状態を持つため、呼び出し側でkeyを連絡先IDにして再マウントする
+ */
+function ContactForm({ contact, onSave, onCancel }: ContactFormProps) {
+  const [name, setName] = useState<string>(contact?.name ?? '');
+  const [organization, setOrganization] = useState<string>(contact?.organization ?? '');
+  const [numbers, setNumbers] = useState<ContactNumberRow[]>(() => (
+    contact && contact.numbers.length > 0 ? contact.numbers.map(createNumberRow) : [createNumberRow()]
+  ));
+  const isSavable = name.trim() !== '' && numbers.some(number => number.value.trim());
+
+  /**
+   * 番号の入力欄を更新
+   * @param key - 更新する入力欄のキー
+   * @param update - 更新内容
+   */
+  const updateNumber = (key: string, update: Partial<ContactNumber>): void => {
+    setNumbers(prev => prev.map(number => (number.key === key ? { ...number, ...update } : number)));
+  };
+
+  return (
+    <form
+      className="space-y-2 p-4 border-b border-gray-200 bg-gray-50"
+      onSubmit={(e: React.FormEvent<HTMLFormElement>) => {
+        e.preventDefault();
+        if (isSavable) {
+          onSave({
+            id: contact?.id,
+            name: name.trim(),
+            organization: organization.trim(),
+            numbers: numbers.map(({ label, value }) => ({ label: label.trim(), value: value.trim() })),
+          });
+        }
+      }}
+    >
+      <Input
+        aria-label="名前"
+        className="w-full border-2 border-gray-200 focus:border-blue-500 transition-colors"
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+          setName(e.target.value);
+        }}
+        placeholder="名前"
+        value={name}
+      />
+      <Input
+        aria-label="組織"
+        className="w-full border-2 border-gray-200 focus:border-blue-500 transition-colors"
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+          setOrganization(e.target.value);
+        }}
+        placeholder="組織（任意）"
+        value={organization}
+      />
+      {numbers.map(number => (
+        <div className="flex gap-2" key={number.key}>
+          <Input
+            aria-label="種別"
+            className="w-24 border-2 border-gray-200 focus:border-blue-500 transition-colors"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              updateNumber(number.key, { label: e.target.value });
+            }}
+            placeholder="種別"
+            value={number.label}
+          />
+          <Input
+            aria-label="番号またはSIP URI"
+            className="flex-1 border-2 border-gray-200 focus:border-blue-500 transition-colors"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              updateNumber(number.key, { value: e.target.value });
+            }}
+            placeholder="番号またはSIP URI"
+            value={number.value}
+          />
+          <Button
+            aria-label="番号を削除"
+            disabled={numbers.length === 1}
+            onClick={() => { setNumbers(prev => prev.filter(candidate => candidate.key !== number.key)); }}
+            size="icon"
+            type="button"
+            variant="ghost"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <Button
+          onClick={() => { setNumbers(prev => [...prev, createNumberRow()]); }}
+          size="sm"
+          type="button"
+          variant="outline"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          番号を追加
+        </Button>
+        <div className="flex-1" />
+        <Button onClick={onCancel} size="sm" type="button" variant="ghost">
+          キャンセル
+        </Button>
+        <Button disabled={!isSavable} size="sm" type="submit">
+          保存
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default ContactsPanel;
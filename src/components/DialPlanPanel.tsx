@@ -0,0 +1,245 @@
+import { ArrowDown, ArrowUp, ListOrdered, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+
+import {
+  DIAL_PLAN_ACTION_OPTIONS,
+  type DialPlan,
+  type DialPlanAction,
+  type DialPlanRule,
+} from '@/@types/sip.types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { applyDialPlan, formatDialPlanResult, validateDialPlanRule } from '@/lib/dial-plan-utils';
+
+/**
+ * ダイアルプランパネルのプロパティ
+ */
+interface DialPlanPanelProps {
+  dialPlan: DialPlan;
+  domain: string;
+  onUpdateSetting: <K extends Exclude<keyof DialPlan, 'rules'>>(field: K, value: DialPlan[K]) => void;
+  onAddRule: () => void;
+  onUpdateRule: (id: string, update: Partial<Omit<DialPlanRule, 'id'>>) => void;
+  onRemoveRule: (id: string) => void;
+  onMoveRule: (id: string, offset: -1 | 1) => void;
+  onReset: () => void;
+}
+
+/**
+ * ルールの処理ごとの値の入力欄のプレースホルダー（値を使用しない処理はnull）
+ */
+const RULE_VALUE_PLACEHOLDERS: Record<DialPlanAction, string | null> = {
+  'add-prefix': '追加するプレフィックス',
+  'block': null,
+  'e164': null,
+  'set-domain': 'ドメイン（例: gw.example.com）',
+  'strip-prefix': '削除するプレフィックス',
+};
+
+/**
+ * ダイアルプランのルールを編集し、番号を入力して適用結果を確認するパネル
+ * ルールは上から順に評価される
+ */
+export function DialPlanPanel({
+  dialPlan,
+  domain,
+  onUpdateSetting,
+  onAddRule,
+  onUpdateRule,
+  onRemoveRule,
+  onMoveRule,
+  onReset,
+}: DialPlanPanelProps) {
+  const [testNumber, setTestNumber] = useState<string>('');
+  const testResult = applyDialPlan(dialPlan, testNumber, domain || 'example.com');
+
+  return (
+    <Card className="w-full shadow-xl border-0 bg-white/80 backdrop-blur-sm">
+      <CardHeader className="border-b border-gray-200 flex flex-row items-center justify-between">
+        <CardTitle className="text-xl font-bold text-gray-800 flex items-center">
+          <ListOrdered className="mr-2 h-5 w-5 text-gray-600" />
+          ダイアルプラン
+        </CardTitle>
+        <div className="flex gap-1">
+          <Button onClick={onReset} size="sm" variant="ghost">
+            <RotateCcw className="h-4 w-4 mr-1" />
+            初期化
+          </Button>
+          <Button onClick={onAddRule} size="sm" variant="ghost">
+            <Plus className="h-4 w-4 mr-1" />
+            追加
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {/* E.164変換の設定 */}
+        <div className="grid grid-cols-3 gap-2 p-4 border-b border-gray-200">
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600" htmlFor="dial-plan-country-code">国番号</Label>
+            <Input
+              className="border-2 border-gray-200 focus:border-blue-500 transition-colors"
+              id="dial-plan-country-code"
+              inputMode="numeric"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                onUpdateSetting('countryCode', e.target.value.replace(/\D/g, ''));
+              }}
+              value={dialPlan.countryCode}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600" htmlFor="dial-plan-international-prefix">国際プレフィックス</Label>
+            <Input
+              className="border-2 border-gray-200 focus:border-blue-500 transition-colors"
+              id="dial-plan-international-prefix"
+              inputMode="numeric"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                onUpdateSetting('internationalPrefix', e.target.value.replace(/\D/g, ''));
+              }}
+              value={dialPlan.internationalPrefix}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600" htmlFor="dial-plan-trunk-prefix">国内プレフィックス</Label>
+            <Input
+              className="border-2 border-gray-200 focus:border-blue-500 transition-colors"
+              id="dial-plan-trunk-prefix"
+              inputMode="numeric"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                onUpdateSetting('trunkPrefix', e.target.value.replace(/\D/g, ''));
+              }}
+              value={dialPlan.trunkPrefix}
+            />
+          </div>
+        </div>
+
+        {/* ルール（評価順） */}
+        {dialPlan.rules.length === 0
+          ? (
+              <p className="p-6 text-sm text-gray-500 text-center">
+                ルールはありません（ドメインのない番号には登録先のドメインを付加します）
+              </p>
+            )
+          : (
+              <ol className="max-h-[24rem] overflow-y-auto divide-y divide-gray-200">
+                {dialPlan.rules.map((rule, index) => {
+                  const error = validateDialPlanRule(rule);
+                  const valuePlaceholder = RULE_VALUE_PLACEHOLDERS[rule.action];
+                  return (
+                    <li className="space-y-2 px-4 py-3" key={rule.id}>
+                      <div className="flex items-center gap-1">
+                        <span className="w-6 text-xs font-semibold text-gray-500">{index + 1}.</span>
+                        <Input
+                          aria-label="説明"
+                          className="h-8 flex-1 border-2 border-gray-200 focus:border-blue-500 transition-colors"
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                            onUpdateRule(rule.id, { description: e.target.value });
+                          }}
+                          placeholder="説明（任意）"
+                          value={rule.description}
+                        />
+                        <Button
+                          aria-label="ルールを上へ移動"
+                          disabled={index === 0}
+                          onClick={() => { onMoveRule(rule.id, -1); }}
+                          size="icon"
+                          variant="ghost"
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          aria-label="ルールを下へ移動"
+                          disabled={index === dialPlan.rules.length - 1}
+                          onClick={() => { onMoveRule(rule.id, 1); }}
+                          size="icon"
+                          variant="ghost"
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          aria-label="ルールを削除"
+                          className="text-gray-400 hover:text-red-600"
+                          onClick={() => { onRemoveRule(rule.id); }}
+                          size="icon"
+                          variant="ghost"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <div className="flex gap-2 pl-7">
+                        <Input
+                          aria-label="パターン（正規表現）"
+                          className="h-8 flex-1 font-mono border-2 border-gray-200 focus:border-blue-500 transition-colors"
+                          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                            onUpdateRule(rule.id, { pattern: e.target.value });
+                          }}
+                          placeholder="パターン（例: ^0\d{9,10}$）"
+                          value={rule.pattern}
+                        />
+                        <select
+                          aria-label="処理"
+                          className="h-8 rounded-md border-2 border-gray-200 bg-white px-2 text-sm focus:border-blue-500 transition-colors"
+                          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                            onUpdateRule(rule.id, { action: e.target.value as DialPlanAction });
+                          }}
+                          value={rule.action}
+                        >
+                          {DIAL_PLAN_ACTION_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      {valuePlaceholder !== null && (
+                        <div className="pl-7">
+                          <Input
+                            aria-label={valuePlaceholder}
+                            className="h-8 font-mono border-2 border-gray-200 focus:border-blue-500 transition-colors"
+                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+                              onUpdateRule(rule.id, { value: e.target.value });
+                            }}
+                            placeholder={valuePlaceholder}
+                            value={rule.value}
+                          />
+                        </div>
+                      )}
+                      {error && <p className="pl-7 text-xs text-red-600">{error}</p>}
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+
+        {/* ルールの確認 */}
+        <div className="space-y-1 p-4 border-t border-gray-200">
+          <Input
+            className="w-full border-2 border-gray-200 focus:border-blue-500 transition-colors"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              setTestNumber(e.target.value);
+            }}
+            placeholder="番号を入力して適用結果を確認"
+            value={testNumber}
+          />
+          {testNumber.trim() && (
+            <>
+              <p className={`break-all font-mono text-xs ${testResult.blockedBy ? 'text-red-600' : 'text-gray-700'}`}>
+                {formatDialPlanResult(testResult) || '発信先を作成できません'}
+              </p>
+              <p className="text-xs text-gray-500">
+                {testResult.appliedRules.length > 0
+                  ? `適用したルール: ${testResult.appliedRules
+                    .map(rule => rule.description || `${String(dialPlan.rules.indexOf(rule) + 1)}番目`)
+                    .join(', ')}`
+                  : '一致するルールはありません'}
+              </p>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default DialPlanPanel;
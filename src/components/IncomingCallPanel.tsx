@@ -0,0 +1,154 @@
+import { BellOff, Pause, Phone, PhoneOff, PhoneOutgoing, Video } from 'lucide-react';
+import { useState } from 'react';
+
+import { REJECT_STATUS_OPTIONS, type RejectStatusCode, type RemoteIdentity } from '@/@types/sip.types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { formatRemoteIdentity } from '@/lib/sip-session-utils';
+
+/**
+ * 着信パネルのプロパティ
+ */
+interface IncomingCallPanelProps {
+  remoteIdentity: RemoteIdentity | null;
+  isIgnored: boolean;
+  hasVideo: boolean;
+  isCallWaiting: boolean;
+  onAnswer: (video: boolean) => void | Promise<void>;
+  onEndAndAnswer: (video: boolean) => void | Promise<void>;
+  onDecline: (statusCode: RejectStatusCode) => void | Promise<void>;
+  onIgnore: () => void;
+}
+
+/**
+ * 着信時に発信者情報と応答/拒否/無視の操作を表示するパネル
+ * 映像付きの着信ではビデオでの応答も選択できる
+ * 通話中の着信（キャッチホン）では、通話を保留して応答するか終了して応答するかを選択できる
+ */
+export function IncomingCallPanel({
+  remoteIdentity,
+  isIgnored,
+  hasVideo,
+  isCallWaiting,
+  onAnswer,
+  onEndAndAnswer,
+  onDecline,
+  onIgnore,
+}: IncomingCallPanelProps) {
+  const [rejectStatusCode, setRejectStatusCode] = useState<RejectStatusCode>(486);
+
+  return (
+    <div className="p-4 bg-gradient-to-r from-blue-50 to-indigo-50 border-2 border-blue-200 rounded-xl shadow-inner space-y-4">
+      <div className="text-center">
+        <p className={`text-xs font-medium text-blue-600 ${isIgnored ? '' : 'animate-pulse'}`}>
+          {isCallWaiting && '通話中に'}
+          {hasVideo ? 'ビデオ着信' : '着信'}
+          {isIgnored ? '中（消音）' : '中'}
+        </p>
+        <p className="text-2xl font-bold text-gray-800 break-all">
+          {formatRemoteIdentity(remoteIdentity) || '非通知'}
+        </p>
+        {remoteIdentity && (
+          <p className="text-xs font-mono text-gray-500 break-all">{remoteIdentity.uri}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label className="text-xs font-medium text-gray-700" htmlFor="reject-status-code">
+          拒否コード
+        </Label>
+        <select
+          className="w-full h-9 rounded-md border-2 border-gray-200 bg-white px-2 text-sm focus:border-blue-500"
+          id="reject-status-code"
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+            setRejectStatusCode(Number(e.target.value) as RejectStatusCode);
+          }}
+          value={rejectStatusCode}
+        >
+          {REJECT_STATUS_OPTIONS.map(option => (
+            <option key={option.statusCode} value={option.statusCode}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {hasVideo && (
+        <Button
+          className="w-full bg-green-600 hover:bg-green-700 text-white"
+          onClick={() => { void onAnswer(true); }}
+        >
+          <Video className="h-4 w-4" />
+          {isCallWaiting ? '保留してビデオで応答' : 'ビデオで応答'}
+        </Button>
+      )}
+
+      {isCallWaiting
+        ? (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  className="bg-green-600 hover:bg-green-700 text-white"
+                  onClick={() => { void onAnswer(false); }}
+                >
+                  <Pause className="h-4 w-4" />
+                  保留して応答
+                </Button>
+                <Button
+                  className="bg-orange-600 hover:bg-orange-700 text-white"
+                  onClick={() => { void onEndAndAnswer(false); }}
+                >
+                  <PhoneOutgoing className="h-4 w-4" />
+                  終了して応答
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  className="bg-red-600 hover:bg-red-700 text-white"
+                  onClick={() => { void onDecline(rejectStatusCode); }}
+                >
+                  <PhoneOff className="h-4 w-4" />
+                  拒否
+                </Button>
+                <Button
+                  disabled={isIgnored}
+                  onClick={onIgnore}
+                  variant="outline"
+                >
+                  <BellOff className="h-4 w-4" />
+                  無視
+                </Button>
+              </div>
+            </>
+          )
+        : (
+            <div className="grid grid-cols-3 gap-2">
+              <Button
+                className="bg-green-600 hover:bg-green-700 text-white"
+                onClick={() => { void onAnswer(false); }}
+              >
+                <Phone className="h-4 w-4" />
+                応答
+              </Button>
+              <Button
+                className="bg-red-600 hover:bg-red-700 text-white"
+                onClick={() => { void onDecline(rejectStatusCode); }}
+              >
+                <PhoneOff className="h-4 w-4" />
+                拒否
+              </Button>
+              <Button
+                disabled={isIgnored}
+                onClick={onIgnore}
+                variant="outline"
+              >
+                <BellOff className="h-4 w-4" />
+                無視
+              </Button>
+            </div>
+          )}
+    </div>
+  );
+}
+
+export default IncomingCallPanel;
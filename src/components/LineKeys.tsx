@@ -0,0 +1,74 @@
+import { type CallLine, type CallStatus, LINE_COUNT } from '@/@types/sip.types';
+import { formatRemoteIdentity } from '@/lib/sip-session-utils';
+
+/**
+ * 回線キーの表示内容
+ */
+interface LineKeyBadge {
+  className: string;
+  text: string;
+}
+
+/**
+ * 回線キーのプロパティ
+ */
+interface LineKeysProps {
+  lines: CallLine[];
+  activeLineId: string | null;
+  disabled: boolean;
+  onSelect: (line: CallLine | null) => void | Promise<void>;
+}
+
+/**
+ * 通話状態ごとの回線キーの表示内容
+ */
+const LINE_KEY_BADGES: Record<CallStatus, LineKeyBadge> = {
+  'calling': { className: 'bg-yellow-100 text-yellow-700 border-yellow-300 animate-pulse', text: '発信中' },
+  'early-media': { className: 'bg-yellow-100 text-yellow-700 border-yellow-300 animate-pulse', text: '呼出中' },
+  'ended': { className: 'bg-gray-100 text-gray-500 border-gray-300', text: '終了' },
+  'ending': { className: 'bg-gray-100 text-gray-500 border-gray-300', text: '終了中' },
+  'failed': { className: 'bg-red-100 text-red-700 border-red-300', text: '失敗' },
+  'idle': { className: 'bg-white text-gray-500 border-gray-300', text: '空き' },
+  'in-call': { className: 'bg-green-100 text-green-700 border-green-300', text: '通話中' },
+  'on-hold': { className: 'bg-orange-100 text-orange-700 border-orange-300 animate-pulse', text: '保留中' },
+  'rejected': { className: 'bg-red-100 text-red-700 border-red-300', text: '拒否' },
+  'ringing': { className: 'bg-blue-100 text-blue-700 border-blue-300 animate-pulse', text: '着信中' },
+};
+
+/**
+ * 回線ごとの状態を表示し、回線を切り替えるキー
+ * 空き回線のキーを押すと、通話中の回線を保留して新しい発信ができる
+ */
+export function LineKeys({ lines, activeLineId, disabled, onSelect }: LineKeysProps) {
+  return (
+    <div className="grid grid-cols-4 gap-2">
+      {Array.from({ length: LINE_COUNT }, (_, index) => {
+        const lineNumber = index + 1;
+        const line = lines.find(candidate => candidate.lineNumber === lineNumber) ?? null;
+        const badge = LINE_KEY_BADGES[line?.status ?? 'idle'];
+        const isActive = line ? line.id === activeLineId : activeLineId === null;
+
+        return (
+          <button
+            className={`px-2 py-1.5 rounded-lg border-2 text-left text-xs transition-colors disabled:opacity-50 ${badge.className} ${isActive ? 'ring-2 ring-blue-500 ring-offset-1' : ''}`}
+            disabled={disabled}
+            key={lineNumber}
+            onClick={() => { void onSelect(line); }}
+            title={line ? formatRemoteIdentity(line.remoteIdentity) : undefined}
+            type="button"
+          >
+            <span className="block font-semibold">
+              {`L${String(lineNumber)} ${badge.text}`}
+              {line?.isInConference && ' 👥会議'}
+            </span>
+            <span className="block truncate opacity-80">
+              {line ? formatRemoteIdentity(line.remoteIdentity) || '非通知' : '-'}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export default LineKeys;
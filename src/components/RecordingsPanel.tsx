@@ -0,0 +1,78 @@
+import { Download, Mic, Trash2 } from 'lucide-react';
+
+import type { CallRecording } from '@/@types/sip.types';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatCallDuration } from '@/lib/call-history-utils';
+import { formatRecordingSize } from '@/lib/call-recording-utils';
+import { formatRemoteIdentity } from '@/lib/sip-session-utils';
+
+/**
+ * 録音一覧パネルのプロパティ
+ */
+interface RecordingsPanelProps {
+  recordings: CallRecording[];
+  onDownload: (recording: CallRecording) => void;
+  onDelete: (id: string) => void | Promise<void>;
+}
+
+/**
+ * 保存済みの通話録音の一覧とダウンロード/削除操作を表示するパネル
+ */
+export function RecordingsPanel({ recordings, onDownload, onDelete }: RecordingsPanelProps) {
+  return (
+    <Card className="w-full shadow-xl border-0 bg-white/80 backdrop-blur-sm">
+      <CardHeader className="border-b border-gray-200">
+        <CardTitle className="text-xl font-bold text-gray-800 flex items-center">
+          <Mic className="mr-2 h-5 w-5 text-gray-600" />
+          通話録音
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-0">
+        {recordings.length === 0
+          ? (
+              <p className="p-6 text-sm text-gray-500 text-center">録音はありません</p>
+            )
+          : (
+              <ul className="max-h-[20rem] overflow-y-auto divide-y divide-gray-200">
+                {recordings.map(recording => (
+                  <li className="flex items-center gap-3 px-4 py-3" key={recording.id}>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-gray-800 truncate">
+                        {formatRemoteIdentity(recording.remoteIdentity) || '非通知'}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(recording.startedAt).toLocaleString('ja-JP')}
+                        {` ・ ${formatCallDuration(recording.duration)} ・ ${formatRecordingSize(recording.blob.size)}`}
+                      </p>
+                    </div>
+                    <Button
+                      aria-label="録音をダウンロード"
+                      className="text-gray-400 hover:text-blue-600"
+                      onClick={() => { onDownload(recording); }}
+                      size="icon"
+                      title={recording.fileName}
+                      variant="ghost"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      aria-label="録音を削除"
+                      className="text-gray-400 hover:text-red-600"
+                      onClick={() => { void onDelete(recording.id); }}
+                      size="icon"
+                      variant="ghost"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default RecordingsPanel;
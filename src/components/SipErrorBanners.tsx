@@ -0,0 +1,69 @@
+import type { SipError } from '@/@types/sip.types';
+
+import {
+  formatSipErrorDetail,
+  isRetryableSipError,
+  SIP_ERROR_MESSAGES,
+  SIP_ERROR_OPERATION_LABELS,
+} from '@/lib/sip-error-utils';
+
+/**
+ * 失敗の理由のバナーのプロパティ
+ */
+interface SipErrorBannersProps {
+  errors: SipError[];
+  onDismiss: (id: string) => void;
+  onRetry: (error: SipError) => void | Promise<void>;
+}
+
+/**
+ * 発信・応答・接続・登録の失敗の理由を表示するバナー
+ * 再試行できる失敗には再試行ボタンを表示する
+ */
+export function SipErrorBanners({ errors, onDismiss, onRetry }: SipErrorBannersProps) {
+  if (errors.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {errors.map((error) => {
+        const message = SIP_ERROR_MESSAGES[error.kind];
+        const detail = formatSipErrorDetail(error);
+        return (
+          <div className="p-4 bg-red-50 border-2 border-red-200 rounded-xl flex items-start justify-between gap-2" key={error.id} role="alert">
+            <div className="min-w-0 space-y-1">
+              <p className="text-sm font-medium text-red-700">
+                {`⚠️ ${SIP_ERROR_OPERATION_LABELS[error.operation]}: ${message.title}`}
+              </p>
+              <p className="text-xs text-red-600">{message.description}</p>
+              {detail && <p className="text-xs font-mono text-red-500 break-all">{detail}</p>}
+              {isRetryableSipError(error) && (
+                <button
+                  className="rounded-md border border-red-300 bg-white px-2 py-0.5 text-xs text-red-700 hover:bg-red-100"
+                  onClick={() => {
+                    onDismiss(error.id);
+                    void onRetry(error);
+                  }}
+                  type="button"
+                >
+                  再試行
+                </button>
+              )}
+            </div>
+            <button
+              aria-label="通知を閉じる"
+              className="text-red-500 hover:text-red-700 text-sm"
+              onClick={() => { onDismiss(error.id); }}
+              type="button"
+            >
+              ✕
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default SipErrorBanners;
@@ -0,0 +1,175 @@
+import { Save, Star, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+
+import type { SipProfile } from '@/@types/sip.types';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+/**
+ * プロファイル編集フォームのプロパティ
+ */
+interface SipProfileFormProps {
+  profile: SipProfile | undefined;
+  isDefault: boolean;
+  disabled: boolean;
+  onSave: (name: string, rememberPassword: boolean) => void;
+  onDelete: (id: string) => void;
+  onSetDefault: (id: string | null) => void;
+}
+
+/**
+ * プロファイルパネルのプロパティ
+ */
+interface SipProfilePanelProps {
+  profiles: SipProfile[];
+  selectedProfileId: string | null;
+  defaultProfileId: string | null;
+  disabled: boolean;
+  onSelect: (id: string | null) => void;
+  onSave: (name: string, rememberPassword: boolean) => void;
+  onDelete: (id: string) => void;
+  onSetDefault: (id: string | null) => void;
+}
+
+/**
+ * 保存済みSIPアカウントプロファイルの選択と編集を行うパネル
+ */
+export function SipProfilePanel({
+  profiles,
+  selectedProfileId,
+  defaultProfileId,
+  disabled,
+  onSelect,
+  onSave,
+  onDelete,
+  onSetDefault,
+}: SipProfilePanelProps) {
+  const selectedProfile = profiles.find(profile => profile.id === selectedProfileId);
+
+  return (
+    <div className="space-y-3 pb-4 border-b border-gray-200">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium text-gray-700" htmlFor="sip-profile">
+          プロファイル
+        </Label>
+        <select
+          className="w-full h-9 rounded-md border-2 border-gray-200 bg-white px-2 text-sm focus:border-blue-500 transition-colors disabled:opacity-50"
+          disabled={disabled}
+          id="sip-profile"
+          onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+            onSelect(e.target.value || null);
+          }}
+          value={selectedProfileId ?? ''}
+        >
+          <option value="">（新規プロファイル）</option>
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>
+              {profile.id === defaultProfileId ? `★ ${profile.name}` : profile.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <SipProfileForm
+        disabled={disabled}
+        isDefault={!!selectedProfile && selectedProfile.id === defaultProfileId}
+        key={selectedProfileId ?? 'new'}
+        onDelete={onDelete}
+        onSave={onSave}
+        onSetDefault={onSetDefault}
+        profile={selectedProfile}
+      />
+    </div>
+  );
+}
+
+/**
+ * プロファイル名と保存オプションの編集フォーム
+ * 選択中のプロファイルが変わるとkeyで再マウントされ、入力値が初期化される
+ */
+function SipProfileForm({
+  profile,
+  isDefault,
+  disabled,
+  onSave,
+  onDelete,
+  onSetDefault,
+}: SipProfileFormProps) {
+  const [name, setName] = useState<string>(profile?.name ?? '');
+  const [rememberPassword, setRememberPassword] = useState<boolean>(profile?.rememberPassword ?? false);
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label className="text-sm font-medium text-gray-700" htmlFor="sip-profile-name">
+          プロファイル名
+        </Label>
+        <Input
+          className="w-full border-2 border-gray-200 focus:border-blue-500 transition-colors"
+          disabled={disabled}
+          id="sip-profile-name"
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+            setName(e.target.value);
+          }}
+          placeholder="例: 会社PBX"
+          type="text"
+          value={name}
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700" htmlFor="sip-profile-remember-password">
+        <input
+          checked={rememberPassword}
+          disabled={disabled}
+          id="sip-profile-remember-password"
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+            setRememberPassword(e.target.checked);
+          }}
+          type="checkbox"
+        />
+        パスワードをこのブラウザに保存する
+      </label>
+
+      <div className="flex gap-2">
+        <Button
+          className="flex-1"
+          disabled={disabled || !name.trim()}
+          onClick={() => { onSave(name.trim(), rememberPassword); }}
+          size="sm"
+          variant="outline"
+        >
+          <Save className="h-4 w-4" />
+          {profile ? '上書き保存' : '新規保存'}
+        </Button>
+        {profile && (
+          <>
+            <Button
+              aria-label={isDefault ? 'デフォルトを解除' : 'デフォルトに設定'}
+              disabled={disabled}
+              onClick={() => { onSetDefault(isDefault ? null : profile.id); }}
+              size="sm"
+              title={isDefault ? 'デフォルトを解除' : 'デフォルトに設定'}
+              variant="outline"
+            >
+              <Star className={`h-4 w-4 ${isDefault ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+            </Button>
+            <Button
+              aria-label="プロファイルを削除"
+              disabled={disabled}
+              onClick={() => { onDelete(profile.id); }}
+              size="sm"
+              title="プロファイルを削除"
+              variant="outline"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
+
+export default SipProfilePanel;
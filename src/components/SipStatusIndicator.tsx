@@ -0,0 +1,67 @@
+import type { ConnectionStatus, RegistrationState, RegistrationStatus } from '@/@types/sip.types';
+
+/**
+ * 接続/登録状態インジケーターのプロパティ
+ */
+interface SipStatusIndicatorProps {
+  connectionStatus: ConnectionStatus;
+  registrationState: RegistrationState;
+}
+
+/**
+ * 状態表示用バッジの表示内容
+ */
+interface StatusBadge {
+  className: string;
+  text: string;
+}
+
+/**
+ * トランスポート接続状態ごとのバッジ表示内容
+ */
+const CONNECTION_BADGES: Record<ConnectionStatus, StatusBadge> = {
+  connected: { className: 'bg-green-100 text-green-700 border-green-300', text: '接続済み' },
+  connecting: { className: 'bg-yellow-100 text-yellow-700 border-yellow-300', text: '接続中' },
+  disconnected: { className: 'bg-gray-100 text-gray-600 border-gray-300', text: '未接続' },
+  error: { className: 'bg-red-100 text-red-700 border-red-300', text: '接続エラー' },
+  reconnecting: { className: 'bg-yellow-100 text-yellow-700 border-yellow-300', text: '再接続中' },
+};
+
+/**
+ * SIP登録状態ごとのバッジ表示内容
+ */
+const REGISTRATION_BADGES: Record<RegistrationStatus, StatusBadge> = {
+  failed: { className: 'bg-red-100 text-red-700 border-red-300', text: '登録失敗' },
+  registered: { className: 'bg-green-100 text-green-700 border-green-300', text: '登録済み' },
+  registering: { className: 'bg-yellow-100 text-yellow-700 border-yellow-300', text: '登録中' },
+  unregistered: { className: 'bg-gray-100 text-gray-600 border-gray-300', text: '未登録' },
+};
+
+/**
+ * トランスポート接続状態とSIP登録状態を区別して表示するインジケーター
+ */
+export function SipStatusIndicator({ connectionStatus, registrationState }: SipStatusIndicatorProps) {
+  const connectionBadge = CONNECTION_BADGES[connectionStatus];
+  const registrationBadge = REGISTRATION_BADGES[registrationState.status];
+  const registrationDetail = registrationState.status === 'failed' && registrationState.statusCode !== null
+    ? ` (${String(registrationState.statusCode)} ${registrationState.reasonPhrase})`
+    : '';
+
+  return (
+    <div className="grid grid-cols-2 gap-2 text-xs">
+      <div className={`px-3 py-2 rounded-lg border ${connectionBadge.className}`}>
+        <p className="font-medium opacity-70">トランスポート</p>
+        <p className="font-semibold">{connectionBadge.text}</p>
+      </div>
+      <div className={`px-3 py-2 rounded-lg border ${registrationBadge.className}`}>
+        <p className="font-medium opacity-70">SIP登録</p>
+        <p className="font-semibold break-all">
+          {registrationBadge.text}
+          {registrationDetail}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default SipStatusIndicator;
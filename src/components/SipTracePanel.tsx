@@ -0,0 +1,140 @@
+import { Download, Terminal, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+
+import { SIP_TRACE_EXPORT_OPTIONS, type SipTraceEntry, type SipTraceExportFormat } from '@/@types/sip.types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { groupSipTraceByCallId, matchesSipTraceFilter } from '@/lib/sip-trace-utils';
+
+/**
+ * SIPトレースパネルのプロパティ
+ */
+interface SipTracePanelProps {
+  entries: SipTraceEntry[];
+  onClear: () => void;
+  onExport: (format: SipTraceExportFormat) => void;
+}
+
+/**
+ * ラダー上のメッセージの色のクラス名を取得
+ * @param entry - SIPトレース
+ * @returns リクエストは青、2xxは緑、3xx以上は赤、1xxは灰色
+ */
+const getEntryClassName = (entry: SipTraceEntry): string => {
+  if (entry.statusCode === null) {
+    return 'text-blue-700';
+  }
+  if (entry.statusCode >= 300) {
+    return 'text-red-700';
+  }
+  return entry.statusCode >= 200 ? 'text-green-700' : 'text-gray-500';
+};
+
+/**
+ * 送受信したSIPメッセージをCall-IDごとのラダーで表示するパネル
+ * メソッドやステータスコードで絞り込み、テキストまたはHAR形式で出力できる
+ */
+export function SipTracePanel({ entries, onClear, onExport }: SipTracePanelProps) {
+  const [filter, setFilter] = useState<string>('');
+  const [exportFormat, setExportFormat] = useState<SipTraceExportFormat>('text');
+  const dialogs = groupSipTraceByCallId(entries.filter(entry => matchesSipTraceFilter(entry, filter))).reverse();
+
+  return (
+    <Card className="w-full shadow-xl border-0 bg-white/80 backdrop-blur-sm">
+      <CardHeader className="border-b border-gray-200 flex flex-row items-center justify-between">
+        <CardTitle className="text-xl font-bold text-gray-800 flex items-center">
+          <Terminal className="mr-2 h-5 w-5 text-gray-600" />
+          SIPトレース
+        </CardTitle>
+        <Button disabled={entries.length === 0} onClick={onClear} size="sm" variant="ghost">
+          <Trash2 className="h-4 w-4 mr-1" />
+          消去
+        </Button>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="p-4 border-b border-gray-200 space-y-2">
+          <Input
+            aria-label="メソッドまたはステータスコードで絞り込み"
+            className="border-2 border-gray-200 focus:border-blue-500 transition-colors"
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+              setFilter(e.target.value);
+            }}
+            placeholder="絞り込み（例: INVITE 4xx）"
+            value={filter}
+          />
+          <div className="flex gap-2">
+            <select
+              aria-label="出力形式"
+              className="h-8 flex-1 rounded-md border-2 border-gray-200 bg-white px-2 text-sm focus:border-blue-500 transition-colors"
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                setExportFormat(e.target.value as SipTraceExportFormat);
+              }}
+              value={exportFormat}
+            >
+              {SIP_TRACE_EXPORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <Button
+              disabled={entries.length === 0}
+              onClick={() => { onExport(exportFormat); }}
+              size="sm"
+              variant="outline"
+            >
+              <Download className="h-4 w-4 mr-1" />
+              エクスポート
+            </Button>
+          </div>
+          <p className="text-xs text-gray-500">認証ヘッダとパスワードは伏せ字で記録されます</p>
+        </div>
+
+        {dialogs.length === 0
+          ? (
+              <p className="p-6 text-sm text-gray-500 text-center">
+                {entries.length === 0 ? 'SIPメッセージはありません' : '一致するSIPメッセージはありません'}
+              </p>
+            )
+          : (
+              <ul className="max-h-[24rem] overflow-y-auto divide-y divide-gray-200">
+                {dialogs.map(dialog => (
+                  <li key={dialog.callId}>
+                    <details>
+                      <summary className="cursor-pointer px-4 py-2 text-sm hover:bg-gray-50">
+                        <span className="font-medium text-gray-800">{dialog.method || '(不明)'}</span>
+                        <span className="ml-2 text-xs text-gray-500">
+                          {`${new Date(dialog.startedAt).toLocaleTimeString('ja-JP')} ・ ${String(dialog.entries.length)}件`}
+                        </span>
+                        <span className="block truncate font-mono text-xs text-gray-400">{dialog.callId || '(Call-IDなし)'}</span>
+                      </summary>
+                      <ol className="px-4 pb-2 space-y-1">
+                        {dialog.entries.map(entry => (
+                          <li key={entry.id}>
+                            <details>
+                              <summary
+                                className={`cursor-pointer font-mono text-xs ${getEntryClassName(entry)} ${entry.direction === 'sent' ? '' : 'text-right'}`}
+                              >
+                                {entry.direction === 'sent'
+                                  ? `${entry.startLine} →`
+                                  : `← ${entry.startLine}`}
+                              </summary>
+                              <pre className="mt-1 max-h-48 overflow-auto rounded bg-gray-900 p-2 text-[10px] leading-tight text-gray-100 whitespace-pre-wrap break-all">
+                                {entry.raw}
+                              </pre>
+                            </details>
+                          </li>
+                        ))}
+                      </ol>
+                    </details>
+                  </li>
+                ))}
+              </ul>
+            )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default SipTracePanel;
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import type { CallHistoryEntry } from '@/@types/sip.types';
+
+import { CALL_HISTORY_MAX_ENTRIES, loadCallHistory, saveCallHistory } from '@/lib/call-history-utils';
+
+/**
+ * 通話履歴フックの戻り値インターフェース
+ */
+interface UseCallHistoryReturn {
+  callHistory: CallHistoryEntry[];
+  addCallHistoryEntry: (entry: CallHistoryEntry) => void;
+  deleteCallHistoryEntry: (id: string) => void;
+  clearCallHistory: () => void;
+}
+
+/**
+ * 通話履歴管理のカスタムフック
+ * 履歴はlocalStorageに永続化される
+ * @returns 通話履歴の状態と操作関数
+ */
+export const useCallHistory = (): UseCallHistoryReturn => {
+  const [callHistory, setCallHistory] = useState<CallHistoryEntry[]>(loadCallHistory);
+
+  // 履歴が変わるたびに永続化
+  useEffect(() => {
+    saveCallHistory(callHistory);
+  }, [callHistory]);
+
+  /**
+   * 通話履歴を追加（新しい順に先頭へ追加）
+   * @param entry - 追加する履歴エントリ
+   */
+  const addCallHistoryEntry = useCallback((entry: CallHistoryEntry): void => {
+    setCallHistory(prev => [entry, ...prev].slice(0, CALL_HISTORY_MAX_ENTRIES));
+  }, []);
+
+  /**
+   * 通話履歴を1件削除
+   * @param id - 削除対象の履歴ID
+   */
+  const deleteCallHistoryEntry = useCallback((id: string): void => {
+    setCallHistory(prev => prev.filter(entry => entry.id !== id));
+  }, []);
+
+  /**
+   * 通話履歴をすべて削除
+   */
+  const clearCallHistory = useCallback((): void => {
+    setCallHistory([]);
+  }, []);
+
+  return {
+    callHistory,
+    addCallHistoryEntry,
+    deleteCallHistoryEntry,
+    clearCallHistory,
+  };
+};
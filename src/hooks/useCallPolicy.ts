@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import type { CallPolicy } from '@/@types/sip.types';
+
+import { loadCallPolicy, saveCallPolicy } from '@/lib/call-policy-utils';
+
+/**
+ * 着信時の処理フックの戻り値インターフェース
+ */
+interface UseCallPolicyReturn {
+  callPolicy: CallPolicy;
+  updateCallPolicy: <K extends keyof CallPolicy>(field: K, value: CallPolicy[K]) => void;
+}
+
+/**
+ * 着信時の処理（おやすみモード・転送・自動応答）の設定管理のカスタムフック
+ * 設定はlocalStorageに永続化される
+ * @returns 着信時の処理の設定と更新関数
+ */
+export const useCallPolicy = (): UseCallPolicyReturn => {
+  const [callPolicy, setCallPolicy] = useState<CallPolicy>(loadCallPolicy);
+
+  // 設定が変わるたびに永続化
+  useEffect(() => {
+    saveCallPolicy(callPolicy);
+  }, [callPolicy]);
+
+  /**
+   * 着信時の処理の設定フィールドの更新
+   * @param field - 更新対象のフィールド名
+   * @param value - 新しい値
+   */
+  const updateCallPolicy = useCallback(<K extends keyof CallPolicy>(field: K, value: CallPolicy[K]): void => {
+    setCallPolicy(prev => ({
+      ...prev,
+      [field]: value,
+    }));
+  }, []);
+
+  return {
+    callPolicy,
+    updateCallPolicy,
+  };
+};
@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { type Session, SessionState } from 'sip.js';
+
+import type { CallQualitySample, CallQualitySummary } from '@/@types/sip.types';
+
+import { createQualitySample, type QualityCounters, summarizeQualitySamples } from '@/lib/call-quality-utils';
+import { getPeerConnection } from '@/lib/sip-session-utils';
+
+/**
+ * getStatsを取得する間隔（ミリ秒）
+ */
+const QUALITY_POLL_INTERVAL_MS = 1000;
+
+/**
+ * 画面に表示する計測値の件数（スパークラインの長さ）
+ */
+const QUALITY_DISPLAY_SAMPLES = 60;
+
+/**
+ * 通話品質フックの戻り値インターフェース
+ */
+interface UseCallQualityReturn {
+  qualitySamples: CallQualitySample[];
+  monitorSession: (session: Session | undefined) => void;
+  takeQualitySummary: (lineId: string) => CallQualitySummary | undefined;
+}
+
+/**
+ * 通話品質（getStats）の計測のカスタムフック
+ * 監視中のセッションのRTCPeerConnectionから一定間隔で統計を取得し、
+ * コーデック・ビットレート・往復遅延・ジッタ・パケット損失率・推定MOSを計算する
+ * 計測値は回線（セッションID）ごとに蓄積し、通話終了時に集計結果として取り出す
+ * @returns 監視中の通話の計測値と操作関数
+ */
+export const useCallQuality = (): UseCallQualityReturn => {
+  const [monitoredSession, setMonitoredSession] = useState<Session | undefined>(undefined);
+  const [qualitySamples, setQualitySamples] = useState<CallQualitySample[]>([]);
+  const samplesRef = useRef(new Map<string, CallQualitySample[]>());
+  const countersRef = useRef(new Map<string, QualityCounters>());
+
+  // 監視中のセッションの統計を定期的に取得
+  useEffect(() => {
+    if (!monitoredSession) {
+      setQualitySamples([]);
+      return;
+    }
+
+    const lineId = monitoredSession.id;
+    setQualitySamples((samplesRef.current.get(lineId) ?? []).slice(-QUALITY_DISPLAY_SAMPLES));
+    // 保留などで監視が途切れた区間はビットレートの計算に含めない
+    countersRef.current.delete(lineId);
+
+    const timer = setInterval(() => {
+      const peerConnection = getPeerConnection(monitoredSession);
+      if (monitoredSession.state !== SessionState.Established || !peerConnection) {
+        return;
+      }
+      peerConnection.getStats()
+        .then((report) => {
+          const { sample, counters } = createQualitySample(report, countersRef.current.get(lineId) ?? null);
+          countersRef.current.set(lineId, counters);
+          const samples = [...(samplesRef.current.get(lineId) ?? []), sample];
+          samplesRef.current.set(lineId, samples);
+          setQualitySamples(samples.slice(-QUALITY_DISPLAY_SAMPLES));
+        })
+        .catch((error: unknown) => {
+          console.error('通話品質の取得に失敗しました:', error);
+        });
+    }, QUALITY_POLL_INTERVAL_MS);
+
+    return () => {
+      clearInterval(timer);
+    };
+  }, [monitoredSession]);
+
+  /**
+   * 通話品質を計測するセッションを変更
+   * @param session - 計測するセッション（undefinedの場合は計測を停止）
+   */
+  const monitorSession = useCallback((session: Session | undefined): void => {
+    setMonitoredSession(session);
+  }, []);
+
+  /**
+   * 回線の計測値を集計して取り出す（取り出した計測値は破棄する）
+   * @param lineId - 回線のID（セッションID）
+   * @returns 集計結果（計測値がない場合はundefined）
+   */
+  const takeQualitySummary = useCallback((lineId: string): CallQualitySummary | undefined => {
+    const samples = samplesRef.current.get(lineId) ?? [];
+    samplesRef.current.delete(lineId);
+    countersRef.current.delete(lineId);
+    return summarizeQualitySamples(samples);
+  }, []);
+
+  return {
+    qualitySamples,
+    monitorSession,
+    takeQualitySummary,
+  };
+};
@@ -0,0 +1,283 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import type { CallRecording, RecordingStatus, RemoteIdentity } from '@/@types/sip.types';
+import type { Phone } from '@/lib/phone';
+
+import {
+  buildRecordingFileName,
+  deleteRecording,
+  getRecordingMimeType,
+  loadRecordings,
+  saveRecording,
+} from '@/lib/call-recording-utils';
+import { getPeerConnection } from '@/lib/sip-session-utils';
+
+/**
+ * 録音中のMediaRecorderと関連するリソース
+ * senderSourcesは送信トラックの差し替えに合わせて接続し直す
+ */
+interface ActiveRecording {
+  lineId: string;
+  recorder: MediaRecorder;
+  audioContext: AudioContext;
+  peerConnection: RTCPeerConnection;
+  destination: MediaStreamAudioDestinationNode;
+  senderSources: MediaStreamAudioSourceNode[];
+  chunks: Blob[];
+  remoteIdentity: RemoteIdentity;
+  startedAt: number;
+  recordedMs: number;
+  resumedAt: number | null;
+}
+
+/**
+ * 通話録音フックの戻り値インターフェース
+ */
+interface UseCallRecorderReturn {
+  recordings: CallRecording[];
+  recordingStatus: RecordingStatus;
+  recordingLineId: string | null;
+  startRecording: (lineId: string, remoteIdentity: RemoteIdentity) => void;
+  pauseRecording: () => void;
+  resumeRecording: () => void;
+  stopRecording: () => void;
+  removeRecording: (id: string) => Promise<void>;
+}
+
+/**
+ * 送信している音声トラックを録音先へ接続する
+ * @param peerConnection - 録音する通話のRTCPeerConnection
+ * @param audioContext - 録音に使うAudioContext
+ * @param destination - 録音先
+ * @returns 接続した音声のソース
+ */
+const connectSenderSources = (
+  peerConnection: RTCPeerConnection,
+  audioContext: AudioContext,
+  destination: MediaStreamAudioDestinationNode,
+): MediaStreamAudioSourceNode[] => peerConnection.getSenders()
+  .map(sender => sender.track)
+  .filter((track): track is MediaStreamTrack => track?.kind === 'audio')
+  .map((track) => {
+    const source = audioContext.createMediaStreamSource(new MediaStream([track]));
+    source.connect(destination);
+    return source;
+  });
+
+/**
+ * 通話録音のカスタムフック
+ * セッションのRTCPeerConnectionから自分のマイクと相手の音声のトラックを取り出し、
+ * WebAudioで1つのストリームに合成してMediaRecorderで録音する
+ * マイクの切り替えや会議で送信トラックが差し替えられた場合は、自分の音声を接続し直す
+ * 録音はIndexedDBへ保存し、ユーザが削除するまで保持する
+ * 録音中の通話が終了すると録音も自動的に停止する
+ * @param phone - 電話エンジン
+ * @returns 保存済みの録音、録音状態と操作関数
+ */
+export const useCallRecorder = (phone: Phone): UseCallRecorderReturn => {
+  const [recordings, setRecordings] = useState<CallRecording[]>([]);
+  const [recordingStatus, setRecordingStatus] = useState<RecordingStatus>('idle');
+  const [recordingLineId, setRecordingLineId] = useState<string | null>(null);
+  const activeRecordingRef = useRef<ActiveRecording | null>(null);
+
+  // 保存済みの録音を読み込む
+  useEffect(() => {
+    loadRecordings()
+      .then(setRecordings)
+      .catch((error: unknown) => {
+        console.error('録音の読み込みに失敗しました:', error);
+      });
+  }, []);
+
+  // 録音中の回線の送信トラックが差し替えられたら、自分の音声を新しいトラックから録音する
+  useEffect(() => {
+    return phone.on('sender-track', (lineId) => {
+      const activeRecording = activeRecordingRef.current;
+      if (activeRecording?.lineId !== lineId) {
+        return;
+      }
+      for (const source of activeRecording.senderSources) {
+        source.disconnect();
+      }
+      activeRecording.senderSources = connectSenderSources(
+        activeRecording.peerConnection,
+        activeRecording.audioContext,
+        activeRecording.destination,
+      );
+      console.log('録音する自分の音声を切り替えました');
+    });
+  }, [phone]);
+
+  /**
+   * 録音データを保存し、録音のリソースを解放
+   * @param activeRecording - 停止した録音
+   */
+  const finishRecording = useCallback(async (activeRecording: ActiveRecording): Promise<void> => {
+    void activeRecording.audioContext.close();
+
+    const mimeType = activeRecording.recorder.mimeType || 'audio/webm';
+    const recording: CallRecording = {
+      id: crypto.randomUUID(),
+      remoteIdentity: activeRecording.remoteIdentity,
+      startedAt: activeRecording.startedAt,
+      duration: Math.round(activeRecording.recordedMs / 1000),
+      fileName: buildRecordingFileName(activeRecording.remoteIdentity, activeRecording.startedAt, mimeType),
+      mimeType,
+      blob: new Blob(activeRecording.chunks, { type: mimeType }),
+    };
+    setRecordings(prev => [recording, ...prev]);
+
+    try {
+      await saveRecording(recording);
+      console.log('録音を保存しました:', recording.fileName);
+    }
+    catch (error) {
+      console.error('録音の保存に失敗しました:', error);
+    }
+  }, []);
+
+  /**
+   * 録音を停止（停止後に録音データを保存する）
+   */
+  const stopRecording = useCallback((): void => {
+    const activeRecording = activeRecordingRef.current;
+    if (!activeRecording) {
+      return;
+    }
+    activeRecordingRef.current = null;
+    if (activeRecording.resumedAt !== null) {
+      activeRecording.recordedMs += Date.now() - activeRecording.resumedAt;
+    }
+    activeRecording.recorder.onstop = () => {
+      void finishRecording(activeRecording);
+    };
+    activeRecording.recorder.stop();
+    setRecordingStatus('idle');
+    setRecordingLineId(null);
+  }, [finishRecording]);
+
+  // アンマウント時に録音を停止
+  useEffect(() => {
+    return () => {
+      stopRecording();
+    };
+  }, [stopRecording]);
+
+  // 録音中の回線の通話が終了したら録音を停止
+  useEffect(() => {
+    return phone.on('call-ended', (_entry, lineId) => {
+      if (activeRecordingRef.current?.lineId === lineId) {
+        stopRecording();
+      }
+    });
+  }, [phone, stopRecording]);
+
+  /**
+   * 通話の録音を開始
+   * @param lineId - 録音する回線のID
+   * @param remoteIdentity - 通話相手（ファイル名に使用する）
+   */
+  const startRecording = useCallback((lineId: string, remoteIdentity: RemoteIdentity): void => {
+    const session = phone.getSession(lineId);
+    const peerConnection = session && getPeerConnection(session);
+    if (!peerConnection || activeRecordingRef.current) {
+      console.error('録音を開始できません: 通話が確立していないか、既に録音中です');
+      return;
+    }
+
+    try {
+      // 自分のマイクと相手の音声を1つのストリームに合成する
+      const audioContext = new AudioContext();
+      const destination = audioContext.createMediaStreamDestination();
+      const senderSources = connectSenderSources(peerConnection, audioContext, destination);
+      for (const receiver of peerConnection.getReceivers()) {
+        if (receiver.track.kind === 'audio') {
+          audioContext.createMediaStreamSource(new MediaStream([receiver.track])).connect(destination);
+        }
+      }
+
+      const mimeType = getRecordingMimeType();
+      const recorder = new MediaRecorder(destination.stream, mimeType ? { mimeType } : undefined);
+      const chunks: Blob[] = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          chunks.push(event.data);
+        }
+      };
+
+      const startedAt = Date.now();
+      activeRecordingRef.current = {
+        lineId,
+        recorder,
+        audioContext,
+        peerConnection,
+        destination,
+        senderSources,
+        chunks,
+        remoteIdentity,
+        startedAt,
+        recordedMs: 0,
+        resumedAt: startedAt,
+      };
+      recorder.start();
+      setRecordingStatus('recording');
+      setRecordingLineId(lineId);
+      console.log('録音を開始しました');
+    }
+    catch (error) {
+      console.error('録音の開始に失敗しました:', error);
+    }
+  }, [phone]);
+
+  /**
+   * 録音を一時停止
+   */
+  const pauseRecording = useCallback((): void => {
+    const activeRecording = activeRecordingRef.current;
+    if (activeRecording?.recorder.state !== 'recording' || activeRecording.resumedAt === null) {
+      return;
+    }
+    activeRecording.recorder.pause();
+    activeRecording.recordedMs += Date.now() - activeRecording.resumedAt;
+    activeRecording.resumedAt = null;
+    setRecordingStatus('paused');
+  }, []);
+
+  /**
+   * 一時停止中の録音を再開
+   */
+  const resumeRecording = useCallback((): void => {
+    const activeRecording = activeRecordingRef.current;
+    if (activeRecording?.recorder.state !== 'paused') {
+      return;
+    }
+    activeRecording.recorder.resume();
+    activeRecording.resumedAt = Date.now();
+    setRecordingStatus('recording');
+  }, []);
+
+  /**
+   * 保存済みの録音を削除
+   * @param id - 削除する録音のID
+   */
+  const removeRecording = useCallback(async (id: string): Promise<void> => {
+    try {
+      await deleteRecording(id);
+      setRecordings(prev => prev.filter(recording => recording.id !== id));
+    }
+    catch (error) {
+      console.error('録音の削除に失敗しました:', error);
+    }
+  }, []);
+
+  return {
+    recordings,
+    recordingStatus,
+    recordingLineId,
+    startRecording,
+    pauseRecording,
+    resumeRecording,
+    stopRecording,
+    removeRecording,
+  };
+};
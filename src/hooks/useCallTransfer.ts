@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+
+import type { SipError, TransferState } from '@/@types/sip.types';
+import type { Phone } from '@/lib/phone';
+
+import { usePhoneState } from '@/hooks/usePhoneState';
+
+/**
+ * 通話転送フックのオプション
+ */
+interface UseCallTransferOptions {
+  onError?: (error: SipError) => void;
+}
+
+/**
+ * 通話転送フックの戻り値インターフェース
+ */
+interface UseCallTransferReturn {
+  transferState: TransferState;
+  blindTransfer: (lineId: string, target: string) => Promise<void>;
+  startConsultation: (lineId: string, target: string) => Promise<void>;
+  completeAttendedTransfer: () => Promise<void>;
+  cancelConsultation: () => Promise<void>;
+  resetTransfer: () => void;
+}
+
+/**
+ * 通話転送（REFER）管理のカスタムフック
+ * 電話エンジンの転送の状態を参照し、ブラインド転送・打診転送の操作を提供する
+ * 打診通話は電話エンジンが空き回線で発信し、転送元の回線へREFER（Replaces付き）を送信する
+ * @param phone - 電話エンジン
+ * @param options - 転送の失敗時のコールバック
+ * @returns 通話転送の状態と操作関数
+ */
+export const useCallTransfer = (phone: Phone, options: UseCallTransferOptions = {}): UseCallTransferReturn => {
+  const transferState = usePhoneState(phone, state => state.transferState);
+  const onErrorRef = useRef(options.onError);
+
+  // 最新のコールバックを参照できるように同期
+  useEffect(() => {
+    onErrorRef.current = options.onError;
+  }, [options.onError]);
+
+  // 転送の失敗のみ通知する
+  useEffect(() => {
+    return phone.on('error', (error) => {
+      if (error.operation === 'transfer') {
+        onErrorRef.current?.(error);
+      }
+    });
+  }, [phone]);
+
+  return {
+    transferState,
+    blindTransfer: phone.blindTransfer,
+    startConsultation: phone.startConsultation,
+    completeAttendedTransfer: phone.completeAttendedTransfer,
+    cancelConsultation: phone.cancelConsultation,
+    resetTransfer: phone.resetTransfer,
+  };
+};
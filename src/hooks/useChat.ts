@@ -0,0 +1,47 @@
+import { useEffect } from 'react';
+
+import type { ChatThread } from '@/@types/sip.types';
+import type { Phone } from '@/lib/phone';
+
+import { usePhoneState } from '@/hooks/usePhoneState';
+import { saveChatThreads } from '@/lib/chat-utils';
+
+/**
+ * チャットフックの戻り値インターフェース
+ */
+interface UseChatReturn {
+  threads: ChatThread[];
+  activePeerUri: string | null;
+  unreadTotal: number;
+  openThread: (peerUri: string | null) => void;
+  sendMessage: (target: string, body: string) => Promise<void>;
+  deleteThread: (peerUri: string) => void;
+}
+
+/**
+ * SIP MESSAGEによるチャット管理のカスタムフック
+ * 電話エンジンが相手（AOR）ごとに管理するスレッドを参照し、送信・既読・削除の操作を提供する
+ * スレッドは変わるたびにlocalStorageへ永続化する（復元は電話エンジンの作成時に行う）
+ * @param phone - 電話エンジン
+ * @returns チャットスレッドと操作関数
+ */
+export const useChat = (phone: Phone): UseChatReturn => {
+  const threads = usePhoneState(phone, state => state.chatThreads);
+  const activePeerUri = usePhoneState(phone, state => state.activeChatPeerUri);
+
+  const unreadTotal = threads.reduce((total, thread) => total + thread.unreadCount, 0);
+
+  // スレッドが変わるたびに永続化
+  useEffect(() => {
+    saveChatThreads(threads);
+  }, [threads]);
+
+  return {
+    threads,
+    activePeerUri,
+    unreadTotal,
+    openThread: phone.openChatThread,
+    sendMessage: phone.sendMessage,
+    deleteThread: phone.deleteChatThread,
+  };
+};
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import type { Contact, ContactExportFormat, RemoteIdentity } from '@/@types/sip.types';
+
+import {
+  buildContactsFile,
+  loadContacts,
+  parseContactsFile,
+  resolveRemoteIdentity,
+  saveContacts,
+  sortContacts,
+} from '@/lib/contact-utils';
+import { downloadBlob } from '@/lib/download-utils';
+
+/**
+ * アドレス帳フックの戻り値インターフェース
+ */
+interface UseContactsReturn {
+  contacts: Contact[];
+  saveContact: (contact: Omit<Contact, 'id'> & { id?: string }) => void;
+  deleteContact: (id: string) => void;
+  importContacts: (file: File) => Promise<number>;
+  exportContacts: (format: ContactExportFormat) => void;
+  resolveIdentity: (remoteIdentity: RemoteIdentity) => RemoteIdentity;
+}
+
+/**
+ * アドレス帳管理のカスタムフック
+ * 連絡先はlocalStorageに永続化され、vCard（3.0/4.0）とCSVでインポート/エクスポートできる
+ * 通話相手のURIから連絡先を探し、表示名を連絡先の名前に置き換える
+ * @returns 連絡先の一覧と操作関数
+ */
+export const useContacts = (): UseContactsReturn => {
+  const [contacts, setContacts] = useState<Contact[]>(loadContacts);
+
+  // 連絡先が変わるたびに永続化
+  useEffect(() => {
+    saveContacts(contacts);
+  }, [contacts]);
+
+  /**
+   * 連絡先を保存（IDがあれば更新、なければ追加）
+   * @param contact - 保存する連絡先
+   */
+  const saveContact = useCallback((contact: Omit<Contact, 'id'> & { id?: string }): void => {
+    const saved: Contact = {
+      ...contact,
+      id: contact.id ?? crypto.randomUUID(),
+      numbers: contact.numbers.filter(number => number.value.trim()),
+    };
+    setContacts(prev => sortContacts([...prev.filter(candidate => candidate.id !== saved.id), saved]));
+  }, []);
+
+  /**
+   * 連絡先を削除
+   * @param id - 削除対象の連絡先ID
+   */
+  const deleteContact = useCallback((id: string): void => {
+    setContacts(prev => prev.filter(contact => contact.id !== id));
+  }, []);
+
+  /**
+   * vCardまたはCSVファイルから連絡先を追加
+   * @param file - インポートするファイル
+   * @returns 追加した連絡先の件数
+   */
+  const importContacts = useCallback(async (file: File): Promise<number> => {
+    try {
+      const imported = parseContactsFile(file.name, await file.text());
+      setContacts(prev => sortContacts([...prev, ...imported]));
+      console.log('連絡先をインポートしました:', imported.length);
+      return imported.length;
+    }
+    catch (error) {
+      console.error('連絡先のインポートに失敗しました:', error);
+      return 0;
+    }
+  }, []);
+
+  /**
+   * 連絡先を指定した形式のファイルとしてダウンロード
+   * @param format - 出力形式
+   */
+  const exportContacts = useCallback((format: ContactExportFormat): void => {
+    const { fileName, blob } = buildContactsFile(contacts, format);
+    downloadBlob(blob, fileName);
+  }, [contacts]);
+
+  /**
+   * 通話相手の表示名をアドレス帳の名前に置き換える
+   * @param remoteIdentity - 通話相手
+   * @returns 連絡先が見つかれば表示名を置き換えた通話相手
+   */
+  const resolveIdentity = useCallback((remoteIdentity: RemoteIdentity): RemoteIdentity => {
+    return resolveRemoteIdentity(contacts, remoteIdentity);
+  }, [contacts]);
+
+  return {
+    contacts,
+    saveContact,
+    deleteContact,
+    importContacts,
+    exportContacts,
+    resolveIdentity,
+  };
+};
@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import type { DialPlan, DialPlanRule } from '@/@types/sip.types';
+
+import { createDialPlanRule, DEFAULT_DIAL_PLAN, loadDialPlan, saveDialPlan } from '@/lib/dial-plan-utils';
+
+/**
+ * ダイアルプランフックの戻り値インターフェース
+ */
+interface UseDialPlanReturn {
+  dialPlan: DialPlan;
+  updateDialPlanSetting: <K extends Exclude<keyof DialPlan, 'rules'>>(field: K, value: DialPlan[K]) => void;
+  addDialPlanRule: () => void;
+  updateDialPlanRule: (id: string, update: Partial<Omit<DialPlanRule, 'id'>>) => void;
+  removeDialPlanRule: (id: string) => void;
+  moveDialPlanRule: (id: string, offset: -1 | 1) => void;
+  resetDialPlan: () => void;
+}
+
+/**
+ * ダイアルプラン管理のカスタムフック
+ * ルールは評価順に並べて保持し、localStorageに永続化される
+ * @returns ダイアルプランと操作関数
+ */
+export const useDialPlan = (): UseDialPlanReturn => {
+  const [dialPlan, setDialPlan] = useState<DialPlan>(loadDialPlan);
+
+  // ダイアルプランが変わるたびに永続化
+  useEffect(() => {
+    saveDialPlan(dialPlan);
+  }, [dialPlan]);
+
+  /**
+   * E.164変換の設定（国番号など）を更新
+   * @param field - 更新対象のフィールド名
+   * @param value - 新しい値
+   */
+  const updateDialPlanSetting = useCallback(<K extends Exclude<keyof DialPlan, 'rules'>>(
+    field: K,
+    value: DialPlan[K],
+  ): void => {
+    setDialPlan(prev => ({ ...prev, [field]: value }));
+  }, []);
+
+  /**
+   * ルールを末尾に追加
+   */
+  const addDialPlanRule = useCallback((): void => {
+    setDialPlan(prev => ({ ...prev, rules: [...prev.rules, createDialPlanRule()] }));
+  }, []);
+
+  /**
+   * ルールを更新
+   * @param id - 更新するルールのID
+   * @param update - 更新内容
+   */
+  const updateDialPlanRule = useCallback((id: string, update: Partial<Omit<DialPlanRule, 'id'>>): void => {
+    setDialPlan(prev => ({
+      ...prev,
+      rules: prev.rules.map(rule => (rule.id === id ? { ...rule, ...update } : rule)),
+    }));
+  }, []);
+
+  /**
+   * ルールを削除
+   * @param id - 削除するルールのID
+   */
+  const removeDialPlanRule = useCallback((id: string): void => {
+    setDialPlan(prev => ({ ...prev, rules: prev.rules.filter(rule => rule.id !== id) }));
+  }, []);
+
+  /**
+   * ルールの評価順を1つ上または下へ移動
+   * @param id - 移動するルールのID
+   * @param offset - -1で上へ、1で下へ移動
+   */
+  const moveDialPlanRule = useCallback((id: string, offset: -1 | 1): void => {
+    setDialPlan((prev) => {
+      const index = prev.rules.findIndex(rule => rule.id === id);
+      const targetIndex = index + offset;
+      if (index < 0 || targetIndex < 0 || targetIndex >= prev.rules.length) {
+        return prev;
+      }
+      const rules = [...prev.rules];
+      [rules[index], rules[targetIndex]] = [rules[targetIndex], rules[index]];
+      return { ...prev, rules };
+    });
+  }, []);
+
+  /**
+   * ダイアルプランを初期値に戻す
+   */
+  const resetDialPlan = useCallback((): void => {
+    setDialPlan(DEFAULT_DIAL_PLAN);
+  }, []);
+
+  return {
+    dialPlan,
+    updateDialPlanSetting,
+    addDialPlanRule,
+    updateDialPlanRule,
+    removeDialPlanRule,
+    moveDialPlanRule,
+    resetDialPlan,
+  };
+};
@@ -23,8 +23,8 @@ export const useDialer = (): UseDialerReturn => {
    * @param value - 入力された値
    */
   const handleDialedNumberChange = useCallback((value: string): void => {
-    // 0~9、#、*のみを許可する正規表現
-    const validCharactersRegex = /^[0-9#*]*$/;
+    // 0~9、#、*と先頭の+（E.164形式）、区切り文字（空白、ハイフン、括弧）のみを許可する正規表現
+    const validCharactersRegex = /^\+?[0-9#*\s\-()]*$/;
 
     if (validCharactersRegex.test(value)) {
       setDialedNumber(value);
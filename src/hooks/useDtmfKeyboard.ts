@@ -0,0 +1,55 @@
+import { useEffect, useRef } from 'react';
+
+import { isDtmfTone } from '@/lib/sip-session-utils';
+
+/**
+ * キー入力の対象が編集可能な要素か判定する
+ * @param target - キーイベントの対象
+ * @returns 入力欄などで文字入力中の場合true
+ */
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) {
+    return !target.readOnly && !target.disabled;
+  }
+  if (target instanceof HTMLSelectElement) {
+    return true;
+  }
+  return target instanceof HTMLElement && target.isContentEditable;
+};
+
+/**
+ * 物理キーボードからのDTMF入力を扱うカスタムフック
+ * enabledの間、0-9、*、#、A-Dのキー押下をonToneへ通知する
+ * @param enabled - キー入力を受け付けるかどうか
+ * @param onTone - トーン入力時のコールバック
+ */
+export const useDtmfKeyboard = (enabled: boolean, onTone: (tone: string) => void): void => {
+  const onToneRef = useRef(onTone);
+
+  // 最新のコールバックを参照できるように同期
+  useEffect(() => {
+    onToneRef.current = onTone;
+  }, [onTone]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent): void => {
+      if (event.repeat || event.ctrlKey || event.metaKey || event.altKey) {
+        return;
+      }
+      if (isEditableTarget(event.target) || !isDtmfTone(event.key)) {
+        return;
+      }
+      event.preventDefault();
+      onToneRef.current(event.key.toUpperCase());
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [enabled]);
+};
@@ -0,0 +1,139 @@
+import type { Session } from 'sip.js';
+
+import { useEffect, useRef } from 'react';
+
+import type {
+  CallHistoryEntry,
+  CallLine,
+  CallPolicy,
+  DialPlan,
+  DtmfTransport,
+  RejectStatusCode,
+  SipError,
+} from '@/@types/sip.types';
+import type { Phone } from '@/lib/phone';
+
+import { usePhoneState } from '@/hooks/usePhoneState';
+import { DEFAULT_CALL_POLICY } from '@/lib/call-policy-utils';
+import { DEFAULT_DIAL_PLAN } from '@/lib/dial-plan-utils';
+
+/**
+ * 回線管理フックのオプション
+ */
+interface UseLineManagerOptions {
+  attachMedia?: (session: Session | undefined, audioStream?: MediaStream) => void;
+  audioInputId?: string;
+  callPolicy?: CallPolicy;
+  dialPlan?: DialPlan;
+  onCallEnded?: (entry: CallHistoryEntry, lineId: string) => void;
+  onError?: (error: SipError) => void;
+}
+
+/**
+ * 回線管理フックの戻り値インターフェース
+ */
+interface UseLineManagerReturn {
+  lines: CallLine[];
+  activeLine: CallLine | null;
+  isCallDropped: boolean;
+  makeCall: (dialedNumber: string, video?: boolean) => Promise<void>;
+  answerCall: (lineId: string, video?: boolean) => Promise<void>;
+  endAndAnswerCall: (lineId: string, video?: boolean) => Promise<void>;
+  declineCall: (lineId: string, statusCode: RejectStatusCode) => Promise<void>;
+  ignoreCall: (lineId: string) => void;
+  hangupCall: (lineId: string) => Promise<void>;
+  holdCall: (lineId: string) => Promise<void>;
+  resumeCall: (lineId: string) => Promise<void>;
+  switchLine: (lineId: string | null) => Promise<void>;
+  mergeLines: (lineId: string, otherLineId: string) => Promise<void>;
+  splitConference: () => Promise<void>;
+  toggleMute: (lineId: string) => void;
+  toggleCamera: (lineId: string) => void;
+  upgradeToVideo: (lineId: string) => Promise<void>;
+  sendDtmf: (lineId: string, tone: string, transport: DtmfTransport) => Promise<void>;
+  getSession: (lineId: string) => Session | undefined;
+  dismissCallDropped: () => void;
+}
+
+/**
+ * 複数回線の通話管理のカスタムフック
+ * 電話エンジンの回線の状態を参照し、発信・応答・保留・会議などの操作を提供する
+ * 着信時の処理の設定・ダイアルプラン・マイクは電話エンジンへ設定し、選択中の回線のメディアは変わるたびに表示する
+ * @param phone - 電話エンジン
+ * @param options - 選択中の回線のメディアを表示する関数、通話終了時・発信や応答の失敗時のコールバックなど
+ * @returns 回線の一覧と操作関数
+ */
+export const useLineManager = (phone: Phone, options: UseLineManagerOptions = {}): UseLineManagerReturn => {
+  const { attachMedia, audioInputId = '', callPolicy = DEFAULT_CALL_POLICY, dialPlan = DEFAULT_DIAL_PLAN } = options;
+  const lines = usePhoneState(phone, state => state.lines);
+  const activeLine = usePhoneState(phone, state => state.lines.find(line => line.id === state.activeLineId) ?? null);
+  const isCallDropped = usePhoneState(phone, state => state.isCallDropped);
+  const onCallEndedRef = useRef(options.onCallEnded);
+  const onErrorRef = useRef(options.onError);
+
+  // 最新のコールバックを参照できるように同期
+  useEffect(() => {
+    onCallEndedRef.current = options.onCallEnded;
+    onErrorRef.current = options.onError;
+  }, [options.onCallEnded, options.onError]);
+
+  // 着信時の処理の設定、ダイアルプランとマイクを電話エンジンへ設定
+  useEffect(() => {
+    phone.setCallPolicy(callPolicy);
+  }, [callPolicy, phone]);
+  useEffect(() => {
+    phone.setDialPlan(dialPlan);
+  }, [dialPlan, phone]);
+  useEffect(() => {
+    phone.setAudioInput(audioInputId);
+  }, [audioInputId, phone]);
+
+  // 選択中の回線のメディアを表示する
+  useEffect(() => {
+    if (!attachMedia) {
+      return;
+    }
+    return phone.on('active-media', (session, audioStream) => {
+      attachMedia(session, audioStream);
+    });
+  }, [attachMedia, phone]);
+
+  // 通話の終了と、発信・応答の失敗を通知する
+  useEffect(() => {
+    const unsubscribeCallEnded = phone.on('call-ended', (entry, lineId) => {
+      onCallEndedRef.current?.(entry, lineId);
+    });
+    const unsubscribeError = phone.on('error', (error) => {
+      if (error.operation === 'call' || error.operation === 'answer') {
+        onErrorRef.current?.(error);
+      }
+    });
+    return () => {
+      unsubscribeCallEnded();
+      unsubscribeError();
+    };
+  }, [phone]);
+
+  return {
+    lines,
+    activeLine,
+    isCallDropped,
+    makeCall: phone.makeCall,
+    answerCall: phone.answerCall,
+    endAndAnswerCall: phone.endAndAnswerCall,
+    declineCall: phone.declineCall,
+    ignoreCall: phone.ignoreCall,
+    hangupCall: phone.hangupCall,
+    holdCall: phone.holdCall,
+    resumeCall: phone.resumeCall,
+    switchLine: phone.switchLine,
+    mergeLines: phone.mergeLines,
+    splitConference: phone.splitConference,
+    toggleMute: phone.toggleMute,
+    toggleCamera: phone.toggleCamera,
+    upgradeToVideo: phone.upgradeToVideo,
+    sendDtmf: phone.sendDtmf,
+    getSession: phone.getSession,
+    dismissCallDropped: phone.dismissCallDropped,
+  };
+};
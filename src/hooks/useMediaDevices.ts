@@ -0,0 +1,163 @@
+import { type RefObject, useCallback, useEffect, useState } from 'react';
+
+import type { AudioDeviceSelection } from '@/@types/sip.types';
+
+import {
+  isAudioOutputSelectionSupported,
+  loadAudioDeviceSelection,
+  resolveDeviceId,
+  saveAudioDeviceSelection,
+} from '@/lib/media-device-utils';
+
+/**
+ * 音声デバイス管理フックの戻り値インターフェース
+ */
+interface UseMediaDevicesReturn {
+  audioInputs: MediaDeviceInfo[];
+  audioOutputs: MediaDeviceInfo[];
+  audioInputId: string;
+  audioOutputId: string;
+  isOutputSelectable: boolean;
+  selectAudioInput: (deviceId: string) => void;
+  selectAudioOutput: (deviceId: string) => void;
+  requestPermission: () => Promise<void>;
+}
+
+/**
+ * 音声デバイス（マイク・スピーカー）管理のカスタムフック
+ * 接続中のデバイスを列挙し、選択したデバイスをlocalStorageへ保存する
+ * デバイスの抜き差し（devicechange）を監視し、選択中のデバイスが外れた場合は既定のデバイスを使用する
+ * 列挙が終わるまでとマイクの使用が許可されるまではデバイスIDが取得できないため、保存した選択をそのまま使用し、
+ * 許可された時点（通話開始時のgetUserMediaを含む）で列挙し直す
+ * スピーカーはsetSinkIdで相手の音声を再生するaudio要素の出力先を切り替える
+ * @param audioRef - 相手の音声を再生するaudio要素の参照
+ * @returns デバイスの一覧、選択中のデバイスと操作関数
+ */
+export const useMediaDevices = (audioRef: RefObject<HTMLAudioElement | null>): UseMediaDevicesReturn => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[] | null>(null);
+  const [selection, setSelection] = useState<AudioDeviceSelection>(loadAudioDeviceSelection);
+  const isOutputSelectable = isAudioOutputSelectionSupported();
+
+  const audioInputs = devices?.filter(device => device.kind === 'audioinput') ?? [];
+  const audioOutputs = devices?.filter(device => device.kind === 'audiooutput') ?? [];
+  // 列挙が終わり、デバイスIDが取得できた場合のみ選択中のデバイスが接続中か判定する
+  // 判定前に既定のデバイスへ切り替えると、列挙後に選択したデバイスへ戻す際に通話中のマイクを無駄に差し替えるため
+  const isDeviceListReady = devices?.some(device => device.deviceId !== '') ?? false;
+  // 選択中のデバイスが外れている場合は既定のデバイスを使用する（選択は保存したまま、再接続時に戻す）
+  const audioInputId = isDeviceListReady
+    ? resolveDeviceId(selection.audioInputId, audioInputs)
+    : selection.audioInputId;
+  const audioOutputId = isDeviceListReady
+    ? resolveDeviceId(selection.audioOutputId, audioOutputs)
+    : selection.audioOutputId;
+
+  /**
+   * 接続中のデバイスを列挙
+   */
+  const refreshDevices = useCallback(async (): Promise<void> => {
+    try {
+      setDevices(await navigator.mediaDevices.enumerateDevices());
+    }
+    catch (error) {
+      console.error('デバイスの取得に失敗しました:', error);
+    }
+  }, []);
+
+  // 初回の列挙とデバイスの抜き差しの監視
+  useEffect(() => {
+    void refreshDevices();
+    const handleDeviceChange = (): void => {
+      console.log('デバイスの構成が変更されました');
+      void refreshDevices();
+    };
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+    };
+  }, [refreshDevices]);
+
+  // マイクの使用が許可された時点でデバイスIDとラベルを取得するために列挙し直す
+  useEffect(() => {
+    let permissionStatus: PermissionStatus | null = null;
+    let isDisposed = false;
+    const handlePermissionChange = (): void => {
+      console.log('マイクの使用許可の状態が変更されました:', permissionStatus?.state);
+      void refreshDevices();
+    };
+    navigator.permissions.query({ name: 'microphone' })
+      .then((status) => {
+        if (isDisposed) {
+          return;
+        }
+        permissionStatus = status;
+        status.addEventListener('change', handlePermissionChange);
+      })
+      .catch((error: unknown) => {
+        console.error('マイクの使用許可の状態の取得に失敗しました:', error);
+      });
+    return () => {
+      isDisposed = true;
+      permissionStatus?.removeEventListener('change', handlePermissionChange);
+    };
+  }, [refreshDevices]);
+
+  // 選択を保存
+  useEffect(() => {
+    saveAudioDeviceSelection(selection);
+  }, [selection]);
+
+  // スピーカーの出力先を切り替える
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !isOutputSelectable || !isDeviceListReady) {
+      return;
+    }
+    audio.setSinkId(audioOutputId).catch((error: unknown) => {
+      console.error('スピーカーの切り替えに失敗しました:', error);
+    });
+  }, [audioOutputId, audioRef, isDeviceListReady, isOutputSelectable]);
+
+  /**
+   * マイクを選択
+   * @param deviceId - デバイスID（空文字は既定のデバイス）
+   */
+  const selectAudioInput = useCallback((deviceId: string): void => {
+    setSelection(prev => ({ ...prev, audioInputId: deviceId }));
+  }, []);
+
+  /**
+   * スピーカーを選択
+   * @param deviceId - デバイスID（空文字は既定のデバイス）
+   */
+  const selectAudioOutput = useCallback((deviceId: string): void => {
+    setSelection(prev => ({ ...prev, audioOutputId: deviceId }));
+  }, []);
+
+  /**
+   * デバイス名を表示するためにマイクの使用を許可してもらう
+   * 許可されるまでenumerateDevicesのラベルは空になる
+   */
+  const requestPermission = useCallback(async (): Promise<void> => {
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true, video: false });
+      for (const track of stream.getTracks()) {
+        track.stop();
+      }
+      await refreshDevices();
+    }
+    catch (error) {
+      console.error('マイクの使用許可に失敗しました:', error);
+    }
+  }, [refreshDevices]);
+
+  return {
+    audioInputs,
+    audioOutputs,
+    audioInputId,
+    audioOutputId,
+    isOutputSelectable,
+    selectAudioInput,
+    selectAudioOutput,
+    requestPermission,
+  };
+};
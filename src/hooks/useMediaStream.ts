@@ -0,0 +1,55 @@
+import type { Session } from 'sip.js';
+
+import { type RefObject, useCallback, useRef } from 'react';
+
+import { getLocalMediaStream, getRemoteMediaStream } from '@/lib/sip-session-utils';
+
+/**
+ * メディアストリーム管理フックの戻り値インターフェース
+ */
+interface UseMediaStreamReturn {
+  audioRef: RefObject<HTMLAudioElement | null>;
+  localVideoRef: RefObject<HTMLVideoElement | null>;
+  remoteVideoRef: RefObject<HTMLVideoElement | null>;
+  attachSession: (session: Session | undefined, audioStream?: MediaStream) => void;
+}
+
+/**
+ * メディアストリーム管理のカスタムフック
+ * 相手の音声を再生するaudio要素、相手の映像とローカルプレビューを表示するvideo要素の参照を提供し、
+ * 選択中のセッションのストリームをそれぞれへ設定する
+ * @returns メディア要素の参照とセッションのストリームを設定する関数
+ */
+export const useMediaStream = (): UseMediaStreamReturn => {
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const localVideoRef = useRef<HTMLVideoElement | null>(null);
+  const remoteVideoRef = useRef<HTMLVideoElement | null>(null);
+
+  /**
+   * セッションのストリームをメディア要素へ設定
+   * ビデオへの切り替えでは同じストリームにトラックが追加されるため、毎回設定し直して表示を更新する
+   * 音声はaudio要素で再生するため、video要素は常にミュートで再生する
+   * @param session - 表示するセッション（undefinedの場合はすべて解除）
+   * @param audioStream - 相手の音声の代わりに再生するストリーム（会議で合成した音声など）
+   */
+  const attachSession = useCallback((session: Session | undefined, audioStream?: MediaStream): void => {
+    const remoteStream = (session && getRemoteMediaStream(session)) ?? null;
+    const localStream = (session && getLocalMediaStream(session)) ?? null;
+    if (audioRef.current) {
+      audioRef.current.srcObject = audioStream ?? remoteStream;
+    }
+    if (remoteVideoRef.current) {
+      remoteVideoRef.current.srcObject = remoteStream;
+    }
+    if (localVideoRef.current) {
+      localVideoRef.current.srcObject = localStream;
+    }
+  }, []);
+
+  return {
+    audioRef,
+    localVideoRef,
+    remoteVideoRef,
+    attachSession,
+  };
+};
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+
+import { loadChatThreads } from '@/lib/chat-utils';
+import { Phone } from '@/lib/phone';
+
+/**
+ * 電話エンジンのカスタムフック
+ * コンポーネントごとに1つの電話エンジンを作成し、アンマウント時に接続を切断する
+ * 作成時に保存していたチャットスレッドを復元する
+ * 接続・登録・回線の各フックにはこのエンジンを渡して使用する
+ * @returns 電話エンジン
+ */
+export const usePhone = (): Phone => {
+  const [phone] = useState(() => new Phone({ chatThreads: loadChatThreads() }));
+
+  // アンマウント時に接続を切断
+  useEffect(() => {
+    return () => {
+      if (phone.getUserAgent()) {
+        void phone.disconnect().catch((error: unknown) => {
+          console.error('SIP接続の切断に失敗しました:', error);
+        });
+      }
+    };
+  }, [phone]);
+
+  return phone;
+};
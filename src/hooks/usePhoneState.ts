@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+
+import type { PhoneState } from '@/@types/sip.types';
+import type { Phone } from '@/lib/phone';
+
+/**
+ * 電話エンジンの状態の一部を参照するカスタムフック
+ * 選択した値が変わった場合のみ再レンダリングする（値はObject.isで比較する）
+ * 選択関数は状態の値をそのまま返し、新しいオブジェクトや配列を作らないこと
+ * @param phone - 電話エンジン
+ * @param selector - 状態から参照する値を選択する関数
+ * @returns 選択した値
+ */
+export const usePhoneState = <T>(phone: Phone, selector: (state: PhoneState) => T): T => {
+  return useSyncExternalStore(phone.subscribe, () => selector(phone.getSnapshot()));
+};
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState } from 'react';
+
+import type { PresenceEventPackage, PresenceSettings, PresenceState } from '@/@types/sip.types';
+import type { Phone } from '@/lib/phone';
+
+import { usePhoneState } from '@/hooks/usePhoneState';
+import { loadPresenceSettings, savePresenceSettings } from '@/lib/presence-utils';
+
+/**
+ * 在席状態フックの戻り値インターフェース
+ */
+interface UsePresenceReturn {
+  presenceSettings: PresenceSettings;
+  presenceStates: Record<string, PresenceState>;
+  addPresenceExtension: (extension: string) => void;
+  removePresenceExtension: (extension: string) => void;
+  setPresenceEventPackage: (eventPackage: PresenceEventPackage) => void;
+}
+
+/**
+ * SUBSCRIBE/NOTIFYによる在席状態（BLF）管理のカスタムフック
+ * 購読設定を電話エンジンへ反映し、電話エンジンが登録中に購読した内線ごとの在席状態を参照する
+ * 購読設定はlocalStorageに永続化される
+ * @param phone - 電話エンジン
+ * @returns 購読設定、内線ごとの在席状態と操作関数
+ */
+export const usePresence = (phone: Phone): UsePresenceReturn => {
+  const [presenceSettings, setPresenceSettings] = useState<PresenceSettings>(loadPresenceSettings);
+  const presenceStates = usePhoneState(phone, state => state.presenceStates);
+
+  // 設定が変わるたびに永続化し、電話エンジンへ反映（登録中の場合は購読し直す）
+  useEffect(() => {
+    savePresenceSettings(presenceSettings);
+    phone.setPresenceSettings(presenceSettings);
+  }, [phone, presenceSettings]);
+
+  /**
+   * 購読する内線を追加
+   * @param extension - 内線番号またはSIPアドレス
+   */
+  const addPresenceExtension = useCallback((extension: string): void => {
+    const trimmed = extension.trim();
+    if (!trimmed) {
+      return;
+    }
+    setPresenceSettings(prev => (
+      prev.extensions.includes(trimmed) ? prev : { ...prev, extensions: [...prev.extensions, trimmed] }
+    ));
+  }, []);
+
+  /**
+   * 購読する内線を削除
+   * @param extension - 内線番号またはSIPアドレス
+   */
+  const removePresenceExtension = useCallback((extension: string): void => {
+    setPresenceSettings(prev => ({
+      ...prev,
+      extensions: prev.extensions.filter(candidate => candidate !== extension),
+    }));
+  }, []);
+
+  /**
+   * 購読するイベントパッケージを変更
+   * @param eventPackage - イベントパッケージ
+   */
+  const setPresenceEventPackage = useCallback((eventPackage: PresenceEventPackage): void => {
+    setPresenceSettings(prev => ({ ...prev, eventPackage }));
+  }, []);
+
+  return {
+    presenceSettings,
+    presenceStates,
+    addPresenceExtension,
+    removePresenceExtension,
+    setPresenceEventPackage,
+  };
+};
@@ -0,0 +1,85 @@
+import { useEffect } from 'react';
+
+/**
+ * 呼出音のパターンのインターフェース
+ * burstsは1周期の中で鳴らす区間（周期の開始からのミリ秒）
+ */
+interface ToneCadence {
+  frequencies: readonly number[];
+  bursts: readonly { startMs: number; durationMs: number }[];
+  cycleMs: number;
+  volume: number;
+}
+
+/**
+ * 着信時の呼出音のパターン（400/450Hzを1秒鳴らし2秒休む）
+ */
+export const RINGTONE_CADENCE: ToneCadence = {
+  frequencies: [400, 450],
+  bursts: [{ startMs: 0, durationMs: 1000 }],
+  cycleMs: 3000,
+  volume: 0.1,
+};
+
+/**
+ * 通話中着信（キャッチホン）の通知音のパターン
+ * 通話の妨げにならないよう、短い音を2回鳴らして長めに休む
+ */
+export const CALL_WAITING_CADENCE: ToneCadence = {
+  frequencies: [440],
+  bursts: [
+    { startMs: 0, durationMs: 200 },
+    { startMs: 400, durationMs: 200 },
+  ],
+  cycleMs: 5000,
+  volume: 0.05,
+};
+
+/**
+ * 呼出音再生のカスタムフック
+ * WebAudioのオシレーターで呼出音を生成し、activeの間だけ鳴らす
+ * @param active - 呼出音を鳴らすかどうか
+ * @param cadence - 呼出音のパターン（省略時は着信時の呼出音）
+ */
+export const useRingtone = (active: boolean, cadence: ToneCadence = RINGTONE_CADENCE): void => {
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+
+    const audioContext = new AudioContext();
+    const gain = audioContext.createGain();
+    gain.gain.value = 0;
+    gain.connect(audioContext.destination);
+
+    const oscillators = cadence.frequencies.map((frequency) => {
+      const oscillator = audioContext.createOscillator();
+      oscillator.frequency.value = frequency;
+      oscillator.connect(gain);
+      oscillator.start();
+      return oscillator;
+    });
+
+    /**
+     * 1周期分の呼出音をスケジュール
+     */
+    const ring = (): void => {
+      const now = audioContext.currentTime;
+      for (const burst of cadence.bursts) {
+        gain.gain.setValueAtTime(cadence.volume, now + burst.startMs / 1000);
+        gain.gain.setValueAtTime(0, now + (burst.startMs + burst.durationMs) / 1000);
+      }
+    };
+
+    ring();
+    const timer = setInterval(ring, cadence.cycleMs);
+
+    return () => {
+      clearInterval(timer);
+      oscillators.forEach((oscillator) => {
+        oscillator.stop();
+      });
+      void audioContext.close();
+    };
+  }, [active, cadence]);
+};
@@ -2,12 +2,15 @@ import { useCallback, useState } from 'react';
 
 import type { SipConfig } from '@/@types/sip.types';
 
+import { DEFAULT_SIP_CONFIG } from '@/lib/sip-profile-utils';
+
 /**
  * SIP設定フックの戻り値インターフェース
  */
 interface UseSipConfigReturn {
   sipConfig: SipConfig;
-  updateSipConfig: (field: keyof SipConfig, value: string) => void;
+  updateSipConfig: <K extends keyof SipConfig>(field: K, value: SipConfig[K]) => void;
+  replaceSipConfig: (config: SipConfig) => void;
   isSipConfigValid: () => boolean;
 }
 
@@ -16,24 +19,28 @@ interface UseSipConfigReturn {
  * @returns SIP設定の状態と操作関数
  */
 export const useSipConfig = (): UseSipConfigReturn => {
-  const [sipConfig, setSipConfig] = useState<SipConfig>({
-    password: '',
-    url: '',
-    username: '',
-  });
+  const [sipConfig, setSipConfig] = useState<SipConfig>(DEFAULT_SIP_CONFIG);
 
   /**
    * SIP設定フィールドの更新
    * @param field - 更新対象のフィールド名
    * @param value - 新しい値
    */
-  const updateSipConfig = useCallback((field: keyof SipConfig, value: string): void => {
+  const updateSipConfig = useCallback(<K extends keyof SipConfig>(field: K, value: SipConfig[K]): void => {
     setSipConfig(prev => ({
       ...prev,
       [field]: value,
     }));
   }, []);
 
+  /**
+   * SIP設定全体の置き換え（プロファイル選択時など）
+   * @param config - 新しいSIP設定
+   */
+  const replaceSipConfig = useCallback((config: SipConfig): void => {
+    setSipConfig(config);
+  }, []);
+
   /**
    * SIP設定が有効かチェック
    * @returns 設定が有効な場合true
@@ -45,6 +52,7 @@ export const useSipConfig = (): UseSipConfigReturn => {
   return {
     sipConfig,
     updateSipConfig,
+    replaceSipConfig,
     isSipConfigValid,
   };
 };
@@ -0,0 +1,55 @@
+import { useCallback, useState } from 'react';
+
+import type { SipError, SipErrorOperation } from '@/@types/sip.types';
+
+/**
+ * 失敗の理由の表示管理フックの戻り値インターフェース
+ */
+interface UseSipErrorsReturn {
+  sipErrors: SipError[];
+  reportSipError: (error: SipError) => void;
+  dismissSipError: (id: string) => void;
+  dismissSipErrors: (operation: SipErrorOperation) => void;
+}
+
+/**
+ * 失敗の理由の表示管理のカスタムフック
+ * 同じ操作の失敗は最新のもので置き換え、操作ごとに1件だけ表示する
+ * @returns 表示中の失敗の理由と操作関数
+ */
+export const useSipErrors = (): UseSipErrorsReturn => {
+  const [sipErrors, setSipErrors] = useState<SipError[]>([]);
+
+  /**
+   * 失敗の理由を表示に追加
+   * @param error - 失敗の理由
+   */
+  const reportSipError = useCallback((error: SipError): void => {
+    setSipErrors(prev => [...prev.filter(candidate => candidate.operation !== error.operation), error]);
+  }, []);
+
+  /**
+   * 失敗の理由の表示を閉じる
+   * @param id - 失敗の理由のID
+   */
+  const dismissSipError = useCallback((id: string): void => {
+    setSipErrors(prev => prev.filter(error => error.id !== id));
+  }, []);
+
+  /**
+   * 操作が成功した場合などに、その操作の失敗の表示をまとめて閉じる
+   * @param operation - 操作
+   */
+  const dismissSipErrors = useCallback((operation: SipErrorOperation): void => {
+    setSipErrors(prev => (prev.some(error => error.operation === operation)
+      ? prev.filter(error => error.operation !== operation)
+      : prev));
+  }, []);
+
+  return {
+    sipErrors,
+    reportSipError,
+    dismissSipError,
+    dismissSipErrors,
+  };
+};
@@ -0,0 +1,162 @@
+import { parseAsString, useQueryStates } from 'nuqs';
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import type { SipConfig, SipProfile } from '@/@types/sip.types';
+
+import {
+  DEFAULT_SIP_CONFIG,
+  findSipProfileByQuery,
+  loadDefaultSipProfileId,
+  loadSipProfiles,
+  saveDefaultSipProfileId,
+  saveSipProfiles,
+  toSipConfig,
+} from '@/lib/sip-profile-utils';
+
+/**
+ * プロファイル選択用のURLクエリパラメータ
+ * パスワードは決してURLに含めない
+ */
+const profileQueryParsers = {
+  profile: parseAsString,
+  url: parseAsString,
+  user: parseAsString,
+};
+
+/**
+ * SIPプロファイルフックの戻り値インターフェース
+ */
+interface UseSipProfilesReturn {
+  profiles: SipProfile[];
+  selectedProfileId: string | null;
+  defaultProfileId: string | null;
+  selectProfile: (id: string | null) => void;
+  saveProfile: (name: string, config: SipConfig, rememberPassword: boolean) => void;
+  deleteProfile: (id: string) => void;
+  setDefaultProfile: (id: string | null) => void;
+}
+
+/**
+ * 保存済みSIPアカウントプロファイル管理のカスタムフック
+ * プロファイルはlocalStorageに保存し、?profile= または ?url=&user= で初期選択する
+ * @param applySipConfig - プロファイル選択時にSIP設定へ反映する関数
+ * @returns プロファイルの状態と操作関数
+ */
+export const useSipProfiles = (applySipConfig: (config: SipConfig) => void): UseSipProfilesReturn => {
+  const [profiles, setProfiles] = useState<SipProfile[]>(loadSipProfiles);
+  const [defaultProfileId, setDefaultProfileId] = useState<string | null>(loadDefaultSipProfileId);
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
+  const [query, setQuery] = useQueryStates(profileQueryParsers);
+  const isPreselectedRef = useRef<boolean>(false);
+
+  // プロファイル一覧とデフォルト設定を永続化
+  useEffect(() => {
+    saveSipProfiles(profiles);
+  }, [profiles]);
+
+  useEffect(() => {
+    saveDefaultSipProfileId(defaultProfileId);
+  }, [defaultProfileId]);
+
+  // 初回のみURLクエリパラメータまたはデフォルト設定からプロファイルを選択
+  useEffect(() => {
+    if (isPreselectedRef.current) {
+      return;
+    }
+    isPreselectedRef.current = true;
+
+    const hasQuery = !!(query.profile ?? query.url ?? query.user);
+    const matched = hasQuery
+      ? findSipProfileByQuery(profiles, query)
+      : profiles.find(profile => profile.id === defaultProfileId);
+
+    if (matched) {
+      setSelectedProfileId(matched.id);
+      applySipConfig(toSipConfig(matched));
+      return;
+    }
+
+    // 一致するプロファイルがない場合はクエリの値だけを入力欄へ反映
+    if (query.url || query.user) {
+      applySipConfig({
+        ...DEFAULT_SIP_CONFIG,
+        url: query.url ?? '',
+        username: query.user ?? '',
+      });
+    }
+  }, [applySipConfig, defaultProfileId, profiles, query]);
+
+  /**
+   * プロファイルを選択し、SIP設定とURLへ反映
+   * @param id - 選択するプロファイルID（nullの場合は新規入力）
+   */
+  const selectProfile = useCallback((id: string | null): void => {
+    const profile = profiles.find(p => p.id === id);
+    setSelectedProfileId(profile ? profile.id : null);
+
+    if (profile) {
+      applySipConfig(toSipConfig(profile));
+      void setQuery({ profile: profile.name, url: null, user: null });
+    }
+    else {
+      void setQuery({ profile: null, url: null, user: null });
+    }
+  }, [applySipConfig, profiles, setQuery]);
+
+  /**
+   * 現在のSIP設定をプロファイルとして保存
+   * 選択中のプロファイルがあれば更新し、なければ新規作成する
+   * @param name - プロファイル名
+   * @param config - 保存するSIP設定
+   * @param rememberPassword - パスワードを記憶するかどうか
+   */
+  const saveProfile = useCallback((name: string, config: SipConfig, rememberPassword: boolean): void => {
+    const existing = profiles.find(p => p.id === selectedProfileId);
+    const profile: SipProfile = {
+      ...config,
+      id: existing ? existing.id : crypto.randomUUID(),
+      name,
+      password: rememberPassword ? config.password : '',
+      rememberPassword,
+    };
+
+    setProfiles(prev => existing
+      ? prev.map(p => (p.id === profile.id ? profile : p))
+      : [...prev, profile]);
+    setSelectedProfileId(profile.id);
+    void setQuery({ profile: profile.name, url: null, user: null });
+  }, [profiles, selectedProfileId, setQuery]);
+
+  /**
+   * プロファイルを削除
+   * @param id - 削除するプロファイルID
+   */
+  const deleteProfile = useCallback((id: string): void => {
+    setProfiles(prev => prev.filter(p => p.id !== id));
+    if (defaultProfileId === id) {
+      setDefaultProfileId(null);
+    }
+    if (selectedProfileId === id) {
+      setSelectedProfileId(null);
+      void setQuery({ profile: null, url: null, user: null });
+    }
+  }, [defaultProfileId, selectedProfileId, setQuery]);
+
+  /**
+   * デフォルトプロファイルを設定
+   * @param id - デフォルトにするプロファイルID（nullの場合は解除）
+   */
+  const setDefaultProfile = useCallback((id: string | null): void => {
+    setDefaultProfileId(id);
+  }, []);
+
+  return {
+    profiles,
+    selectedProfileId,
+    defaultProfileId,
+    selectProfile,
+    saveProfile,
+    deleteProfile,
+    setDefaultProfile,
+  };
+};
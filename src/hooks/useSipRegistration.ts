@@ -0,0 +1,55 @@
+import { useEffect, useRef } from 'react';
+
+import type { RegistrationState, SipError } from '@/@types/sip.types';
+import type { Phone } from '@/lib/phone';
+
+import { usePhoneState } from '@/hooks/usePhoneState';
+
+/**
+ * SIP登録管理フックのオプション
+ */
+interface UseSipRegistrationOptions {
+  onError?: (error: SipError) => void;
+}
+
+/**
+ * SIP登録管理フックの戻り値インターフェース
+ */
+interface UseSipRegistrationReturn {
+  registrationState: RegistrationState;
+  register: (expires: number) => Promise<void>;
+  unregister: () => Promise<void>;
+}
+
+/**
+ * SIP登録（REGISTER）管理のカスタムフック
+ * 電話エンジンの登録状態を参照し、REGISTERの送信・解除の操作を提供する
+ * 更新はsip.jsのRegistererが、接続断後の再登録は電話エンジンが行う
+ * @param phone - 電話エンジン
+ * @param options - 登録の失敗時のコールバック
+ * @returns SIP登録の状態と操作関数
+ */
+export const useSipRegistration = (phone: Phone, options: UseSipRegistrationOptions = {}): UseSipRegistrationReturn => {
+  const registrationState = usePhoneState(phone, state => state.registrationState);
+  const onErrorRef = useRef(options.onError);
+
+  // 最新のコールバックを参照できるように同期
+  useEffect(() => {
+    onErrorRef.current = options.onError;
+  }, [options.onError]);
+
+  // 登録の失敗のみ通知する
+  useEffect(() => {
+    return phone.on('error', (error) => {
+      if (error.operation === 'register') {
+        onErrorRef.current?.(error);
+      }
+    });
+  }, [phone]);
+
+  return {
+    registrationState,
+    register: phone.register,
+    unregister: phone.unregister,
+  };
+};
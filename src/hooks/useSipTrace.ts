@@ -0,0 +1,89 @@
+import type { LogConnector } from 'sip.js';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import type { SipTraceEntry, SipTraceExportFormat } from '@/@types/sip.types';
+
+import { downloadBlob } from '@/lib/download-utils';
+import {
+  buildSipTraceFile,
+  createSipTraceEntry,
+  parseTransportLog,
+  redactSipMessage,
+  SIP_TRACE_MAX_ENTRIES,
+} from '@/lib/sip-trace-utils';
+
+/**
+ * SIPトレースフックのオプション
+ */
+interface UseSipTraceOptions {
+  secrets?: string[];
+}
+
+/**
+ * SIPトレースフックの戻り値インターフェース
+ */
+interface UseSipTraceReturn {
+  sipTrace: SipTraceEntry[];
+  logConnector: LogConnector;
+  clearSipTrace: () => void;
+  exportSipTrace: (format: SipTraceExportFormat) => void;
+}
+
+/**
+ * SIPメッセージのトレースのカスタムフック
+ * UserAgentのlogConnectorで送受信したSIPメッセージを取り込み、認証情報を伏せ字にして保持する
+ * @param options - 伏せ字にする文字列（パスワードなど）
+ * @returns SIPトレースとUserAgentに渡すlogConnector、操作関数
+ */
+export const useSipTrace = (options: UseSipTraceOptions = {}): UseSipTraceReturn => {
+  const [sipTrace, setSipTrace] = useState<SipTraceEntry[]>([]);
+  const secretsRef = useRef(options.secrets ?? []);
+
+  // 最新の伏せ字にする文字列を参照できるように同期
+  useEffect(() => {
+    secretsRef.current = options.secrets ?? [];
+  }, [options.secrets]);
+
+  /**
+   * sip.jsのログを受け取り、SIPメッセージのみをトレースへ追加
+   * @param _level - ログレベル
+   * @param category - ログのカテゴリ
+   * @param _label - ログのラベル
+   * @param content - ログの本文
+   */
+  const logConnector = useCallback<LogConnector>((_level, category, _label, content) => {
+    if (category !== 'sip.Transport') {
+      return;
+    }
+    const log = parseTransportLog(content);
+    if (!log) {
+      return;
+    }
+    const entry = createSipTraceEntry(log.direction, redactSipMessage(log.message, secretsRef.current));
+    setSipTrace(prev => [...prev, entry].slice(-SIP_TRACE_MAX_ENTRIES));
+  }, []);
+
+  /**
+   * SIPトレースの全削除
+   */
+  const clearSipTrace = useCallback((): void => {
+    setSipTrace([]);
+  }, []);
+
+  /**
+   * SIPトレースを指定した形式のファイルとしてダウンロード
+   * @param format - 出力形式
+   */
+  const exportSipTrace = useCallback((format: SipTraceExportFormat): void => {
+    const { fileName, blob } = buildSipTraceFile(sipTrace, format);
+    downloadBlob(blob, fileName);
+  }, [sipTrace]);
+
+  return {
+    sipTrace,
+    logConnector,
+    clearSipTrace,
+    exportSipTrace,
+  };
+};
@@ -1,4 +1,4 @@
-import type { CallStatus } from '@/@types/sip.types';
+import type { CallStatus, RecordingStatus, TransferState } from '@/@types/sip.types';
 
 /**
  * ボタン表示内容のインターフェース
@@ -6,7 +6,21 @@ import type { CallStatus } from '@/@types/sip.types';
 export interface ButtonContent {
   className: string;
   disabled: boolean;
-  iconType: 'phone' | 'phone-call' | 'phone-off';
+  iconType:
+    | 'circle'
+    | 'mic'
+    | 'mic-off'
+    | 'pause'
+    | 'phone'
+    | 'phone-call'
+    | 'phone-forwarded'
+    | 'phone-off'
+    | 'play'
+    | 'square'
+    | 'users'
+    | 'video'
+    | 'video-off'
+    | 'x';
   iconAnimated?: boolean;
   onClick: () => void | Promise<void>;
   text: string;
@@ -14,6 +28,7 @@ export interface ButtonContent {
 
 /**
  * 通話状態に応じた発信/終了ボタンの内容を決定する純粋関数
+ * 待機中と終了した通話（ended・failed・rejected）の状態では発信ボタンを表示する
  * @param callStatus - 通話状態
  * @param dialedNumber - ダイアル番号
  * @param connectionStatus - 接続状態
@@ -40,6 +55,26 @@ export const getCallButtonContent = (
         onClick: handlers.hangupCall,
         text: '発信中...',
       };
+    case 'early-media':
+      return {
+        className: 'bg-yellow-600 hover:bg-yellow-700',
+        disabled: false,
+        iconType: 'phone-call',
+        iconAnimated: true,
+        onClick: handlers.hangupCall,
+        text: '呼出中...',
+      };
+    case 'ended':
+    case 'failed':
+    case 'idle':
+    case 'rejected':
+      return {
+        className: 'bg-green-600 hover:bg-green-700',
+        disabled: !dialedNumber || connectionStatus !== 'connected',
+        iconType: 'phone',
+        onClick: handlers.handleCall,
+        text: '発信',
+      };
     case 'ending':
       return {
         className: 'bg-gray-600',
@@ -58,6 +93,14 @@ export const getCallButtonContent = (
         onClick: handlers.hangupCall,
         text: '通話終了',
       };
+    case 'on-hold':
+      return {
+        className: 'bg-red-600 hover:bg-red-700',
+        disabled: false,
+        iconType: 'phone-off',
+        onClick: handlers.hangupCall,
+        text: '保留中',
+      };
     case 'ringing':
       return {
         className: 'bg-blue-600 hover:bg-blue-700',
@@ -67,13 +110,239 @@ export const getCallButtonContent = (
         onClick: handlers.answerCall,
         text: '着信中',
       };
+  }
+};
+
+/**
+ * 通話状態に応じた保留/保留解除ボタンの内容を決定する純粋関数
+ * @param callStatus - 通話状態
+ * @param handlers - ボタンクリックハンドラー
+ * @returns ボタン表示内容
+ */
+export const getHoldButtonContent = (
+  callStatus: CallStatus,
+  handlers: {
+    holdCall: () => void | Promise<void>;
+    resumeCall: () => void | Promise<void>;
+  },
+): ButtonContent => {
+  if (callStatus === 'on-hold') {
+    return {
+      className: 'bg-yellow-500 hover:bg-yellow-600 text-white',
+      disabled: false,
+      iconType: 'play',
+      onClick: handlers.resumeCall,
+      text: '保留解除',
+    };
+  }
+  return {
+    className: 'bg-gray-200 hover:bg-gray-300 text-gray-800',
+    disabled: callStatus !== 'in-call',
+    iconType: 'pause',
+    onClick: handlers.holdCall,
+    text: '保留',
+  };
+};
+
+/**
+ * ミュート状態に応じたミュート/ミュート解除ボタンの内容を決定する純粋関数
+ * @param isMuted - ミュート中かどうか
+ * @param callStatus - 通話状態
+ * @param handlers - ボタンクリックハンドラー
+ * @returns ボタン表示内容
+ */
+export const getMuteButtonContent = (
+  isMuted: boolean,
+  callStatus: CallStatus,
+  handlers: {
+    toggleMute: () => void;
+  },
+): ButtonContent => {
+  if (isMuted) {
+    return {
+      className: 'bg-red-100 hover:bg-red-200 text-red-700',
+      disabled: callStatus !== 'in-call' && callStatus !== 'on-hold',
+      iconType: 'mic-off',
+      onClick: handlers.toggleMute,
+      text: 'ミュート解除',
+    };
+  }
+  return {
+    className: 'bg-gray-200 hover:bg-gray-300 text-gray-800',
+    disabled: callStatus !== 'in-call' && callStatus !== 'on-hold',
+    iconType: 'mic',
+    onClick: handlers.toggleMute,
+    text: 'ミュート',
+  };
+};
+
+/**
+ * 映像の送信状態に応じたカメラ/ビデオ切り替えボタンの内容を決定する純粋関数
+ * 映像を送信していない通話ではビデオへの切り替え、送信中の通話ではカメラのオン/オフを行う
+ * @param media - 映像の送信状態
+ * @param media.isVideo - 映像を送信する通話の場合true
+ * @param media.isCameraOn - カメラがオンの場合true
+ * @param callStatus - 通話状態
+ * @param handlers - ボタンクリックハンドラー
+ * @returns ボタン表示内容
+ */
+export const getCameraButtonContent = (
+  media: { isVideo: boolean; isCameraOn: boolean },
+  callStatus: CallStatus,
+  handlers: {
+    toggleCamera: () => void;
+    upgradeToVideo: () => void | Promise<void>;
+  },
+): ButtonContent => {
+  if (!media.isVideo) {
+    return {
+      className: 'bg-gray-200 hover:bg-gray-300 text-gray-800',
+      disabled: callStatus !== 'in-call',
+      iconType: 'video',
+      onClick: handlers.upgradeToVideo,
+      text: 'ビデオに切替',
+    };
+  }
+  if (media.isCameraOn) {
+    return {
+      className: 'bg-gray-200 hover:bg-gray-300 text-gray-800',
+      disabled: callStatus !== 'in-call' && callStatus !== 'on-hold',
+      iconType: 'video',
+      onClick: handlers.toggleCamera,
+      text: 'カメラオフ',
+    };
+  }
+  return {
+    className: 'bg-red-100 hover:bg-red-200 text-red-700',
+    disabled: callStatus !== 'in-call' && callStatus !== 'on-hold',
+    iconType: 'video-off',
+    onClick: handlers.toggleCamera,
+    text: 'カメラオン',
+  };
+};
+
+/**
+ * 録音状態に応じた録音ボタン群の内容を決定する純粋関数
+ * 録音していない場合は録音開始、録音中は一時停止/停止、一時停止中は再開/停止を返す
+ * @param recordingStatus - 録音状態
+ * @param callStatus - 通話状態
+ * @param handlers - ボタンクリックハンドラー
+ * @returns ボタン表示内容の配列
+ */
+export const getRecordingButtonContents = (
+  recordingStatus: RecordingStatus,
+  callStatus: CallStatus,
+  handlers: {
+    startRecording: () => void;
+    pauseRecording: () => void;
+    resumeRecording: () => void;
+    stopRecording: () => void;
+  },
+): ButtonContent[] => {
+  const stopButton: ButtonContent = {
+    className: 'bg-red-600 hover:bg-red-700 text-white',
+    disabled: false,
+    iconType: 'square',
+    onClick: handlers.stopRecording,
+    text: '録音停止',
+  };
+
+  switch (recordingStatus) {
+    case 'paused':
+      return [
+        {
+          className: 'bg-gray-200 hover:bg-gray-300 text-gray-800',
+          disabled: false,
+          iconType: 'play',
+          onClick: handlers.resumeRecording,
+          text: '録音再開',
+        },
+        stopButton,
+      ];
+    case 'recording':
+      return [
+        {
+          className: 'bg-gray-200 hover:bg-gray-300 text-gray-800',
+          disabled: false,
+          iconType: 'pause',
+          onClick: handlers.pauseRecording,
+          text: '録音一時停止',
+        },
+        stopButton,
+      ];
     default:
-      return {
-        className: 'bg-green-600 hover:bg-green-700',
-        disabled: !dialedNumber || connectionStatus !== 'connected',
-        iconType: 'phone',
-        onClick: handlers.handleCall,
-        text: '発信',
-      };
+      return [
+        {
+          className: 'bg-gray-200 hover:bg-gray-300 text-gray-800',
+          disabled: callStatus !== 'in-call',
+          iconType: 'circle',
+          onClick: handlers.startRecording,
+          text: '録音開始',
+        },
+      ];
+  }
+};
+
+/**
+ * 転送状態に応じた転送ボタン群の内容を決定する純粋関数
+ * 打診中は転送実行/打診中止、それ以外はブラインド転送/打診転送を返す
+ * @param transferState - 転送状態
+ * @param callStatus - 通話状態
+ * @param dialedNumber - 転送先として入力された番号
+ * @param handlers - ボタンクリックハンドラー
+ * @returns ボタン表示内容の配列
+ */
+export const getTransferButtonContents = (
+  transferState: TransferState,
+  callStatus: CallStatus,
+  dialedNumber: string,
+  handlers: {
+    blindTransfer: () => void | Promise<void>;
+    startConsultation: () => void | Promise<void>;
+    completeAttendedTransfer: () => void | Promise<void>;
+    cancelConsultation: () => void | Promise<void>;
+  },
+): ButtonContent[] => {
+  if (transferState.status === 'consulting') {
+    return [
+      {
+        className: 'bg-blue-600 hover:bg-blue-700 text-white',
+        disabled: !transferState.isConsultEstablished,
+        iconType: 'phone-forwarded',
+        iconAnimated: !transferState.isConsultEstablished,
+        onClick: handlers.completeAttendedTransfer,
+        text: '転送実行',
+      },
+      {
+        className: 'bg-gray-200 hover:bg-gray-300 text-gray-800',
+        disabled: false,
+        iconType: 'x',
+        onClick: handlers.cancelConsultation,
+        text: '打診中止',
+      },
+    ];
   }
+
+  // REFERの応答待ちの間は操作不可
+  const isTransferring = transferState.status === 'referring' || transferState.status === 'trying';
+  const disabled = isTransferring
+    || !dialedNumber
+    || (callStatus !== 'in-call' && callStatus !== 'on-hold');
+  return [
+    {
+      className: 'bg-gray-200 hover:bg-gray-300 text-gray-800',
+      disabled,
+      iconType: 'phone-forwarded',
+      iconAnimated: isTransferring,
+      onClick: handlers.blindTransfer,
+      text: '転送',
+    },
+    {
+      className: 'bg-gray-200 hover:bg-gray-300 text-gray-800',
+      disabled,
+      iconType: 'users',
+      onClick: handlers.startConsultation,
+      text: '打診転送',
+    },
+  ];
 };
@@ -0,0 +1,68 @@
+import type { CallEndReason, CallHistoryEntry } from '@/@types/sip.types';
+
+/**
+ * 通話履歴を保存するlocalStorageのキー
+ */
+const CALL_HISTORY_STORAGE_KEY = 'sipjs-example:call-history';
+
+/**
+ * 保存する通話履歴の最大件数
+ */
+export const CALL_HISTORY_MAX_ENTRIES = 200;
+
+/**
+ * localStorageから通話履歴を読み込む
+ * @returns 通話履歴（新しい順）。読み込めない場合は空配列
+ */
+export const loadCallHistory = (): CallHistoryEntry[] => {
+  try {
+    const raw = localStorage.getItem(CALL_HISTORY_STORAGE_KEY);
+    if (!raw) {
+      return [];
+    }
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed as CallHistoryEntry[] : [];
+  }
+  catch (error) {
+    console.error('通話履歴の読み込みに失敗しました:', error);
+    return [];
+  }
+};
+
+/**
+ * 通話履歴をlocalStorageへ保存する
+ * @param entries - 通話履歴（新しい順）
+ */
+export const saveCallHistory = (entries: CallHistoryEntry[]): void => {
+  try {
+    localStorage.setItem(CALL_HISTORY_STORAGE_KEY, JSON.stringify(entries));
+  }
+  catch (error) {
+    console.error('通話履歴の保存に失敗しました:', error);
+  }
+};
+
+/**
+ * 通話時間を表示用の文字列に変換する
+ * @param seconds - 通話時間（秒）
+ * @returns mm:ss 形式（1時間以上は h:mm:ss 形式）
+ */
+export const formatCallDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+  const mmss = `${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+  return hours > 0 ? `${String(hours)}:${mmss}` : mmss;
+};
+
+/**
+ * 通話終了理由の表示ラベル
+ */
+export const CALL_END_REASON_LABELS: Record<CallEndReason, string> = {
+  answered: '通話',
+  dropped: '切断',
+  failed: '失敗',
+  forwarded: '転送',
+  missed: '不在着信',
+  rejected: '拒否',
+};
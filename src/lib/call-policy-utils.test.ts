@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+
+import type { CallPolicy } from '@/@types/sip.types';
+
+import {
+  decideIncomingCall,
+  DEFAULT_CALL_POLICY,
+  getIntercomAnswerDelay,
+  matchesCallerPattern,
+} from '@/lib/call-policy-utils';
+
+/**
+ * 発信者のSIP URI
+ */
+const CALLER_URI = 'sip:1001@example.com';
+
+/**
+ * 初期値の一部を変更した着信時の処理の設定を作成する
+ * @param policy - 変更する設定
+ * @returns 着信時の処理の設定
+ */
+const createPolicy = (policy: Partial<CallPolicy>): CallPolicy => ({ ...DEFAULT_CALL_POLICY, ...policy });
+
+/**
+ * 通常の着信（インターコムでない・他の通話なし）の情報
+ */
+const PLAIN_CALL = { uri: CALLER_URI, intercomHeaders: [], hasOtherCall: false };
+
+describe('getIntercomAnswerDelay', () => {
+  it.each([
+    [['<http://example.com>;answer-after=3'], 3000],
+    [['<http://example.com>; Answer-After = 0'], 0],
+    [['<http://example.com>;info=alert-autoanswer'], 0],
+    [['<sip:example.com>;answer=auto-answer'], 0],
+    [['<http://example.com>;info=intercom'], 0],
+  ])('インターコムの指定 %j から応答までの時間を求める', (headers, expected) => {
+    expect(getIntercomAnswerDelay(headers)).toBe(expected);
+  });
+
+  it('インターコムの指定がない場合はnullを返す', () => {
+    expect(getIntercomAnswerDelay([])).toBeNull();
+    expect(getIntercomAnswerDelay(['<http://example.com/ring.wav>'])).toBeNull();
+  });
+
+  it('複数のヘッダは順に評価し、最初に見つかった指定を使用する', () => {
+    expect(getIntercomAnswerDelay(['<http://example.com/ring.wav>', '<http://example.com>;answer-after=5']))
+      .toBe(5000);
+    expect(getIntercomAnswerDelay(['<http://example.com>;intercom', '<http://example.com>;answer-after=5']))
+      .toBe(0);
+  });
+});
+
+describe('matchesCallerPattern', () => {
+  it('ユーザ部またはAORとワイルドカードで比較する', () => {
+    expect(matchesCallerPattern('1001', CALLER_URI)).toBe(true);
+    expect(matchesCallerPattern('10*', CALLER_URI)).toBe(true);
+    expect(matchesCallerPattern('2000, 1001@EXAMPLE.com', CALLER_URI)).toBe(true);
+    expect(matchesCallerPattern('100', CALLER_URI)).toBe(false);
+    expect(matchesCallerPattern('', CALLER_URI)).toBe(false);
+  });
+});
+
+describe('decideIncomingCall', () => {
+  it('初期値では自動応答も転送もせずに着信音を鳴らす', () => {
+    expect(decideIncomingCall(DEFAULT_CALL_POLICY, PLAIN_CALL)).toEqual({
+      action: 'ring',
+      autoAnswerAfterMs: null,
+      forwardAfterMs: null,
+    });
+  });
+
+  it('おやすみモードは他の設定より優先して拒否する', () => {
+    const policy = createPolicy({
+      doNotDisturb: true,
+      doNotDisturbStatusCode: 480,
+      forwardMode: 'always',
+      forwardTarget: '2000',
+      autoAnswerMode: 'always',
+    });
+    expect(decideIncomingCall(policy, PLAIN_CALL)).toEqual({ action: 'reject', statusCode: 480 });
+  });
+
+  it('すべての着信の転送は転送先がある場合のみ行う', () => {
+    expect(decideIncomingCall(createPolicy({ forwardMode: 'always', forwardTarget: ' 2000 ' }), PLAIN_CALL))
+      .toEqual({ action: 'forward', target: '2000' });
+    expect(decideIncomingCall(createPolicy({ forwardMode: 'always', forwardTarget: ' ' }), PLAIN_CALL))
+      .toEqual({ action: 'ring', autoAnswerAfterMs: null, forwardAfterMs: null });
+  });
+
+  it('常に自動応答する場合は設定した秒数で応答し、インターコムの指定があればそちらを優先する', () => {
+    const policy = createPolicy({ autoAnswerMode: 'always', autoAnswerDelaySeconds: 2 });
+    expect(decideIncomingCall(policy, PLAIN_CALL)).toMatchObject({ autoAnswerAfterMs: 2000 });
+    expect(decideIncomingCall(policy, { ...PLAIN_CALL, intercomHeaders: ['<http://example.com>;answer-after=5'] }))
+      .toMatchObject({ autoAnswerAfterMs: 5000 });
+    // インターコムの指定を使用しない場合は設定した秒数で応答する
+    expect(decideIncomingCall(
+      { ...policy, autoAnswerIntercom: false },
+      { ...PLAIN_CALL, intercomHeaders: ['<http://example.com>;answer-after=5'] },
+    )).toMatchObject({ autoAnswerAfterMs: 2000 });
+  });
+
+  it('条件付きの自動応答はインターコムと一致する発信者のみ応答する', () => {
+    const policy = createPolicy({ autoAnswerMode: 'conditional', autoAnswerCallers: '1001', autoAnswerDelaySeconds: 3 });
+    expect(decideIncomingCall(policy, PLAIN_CALL)).toMatchObject({ autoAnswerAfterMs: 3000 });
+    expect(decideIncomingCall(policy, { ...PLAIN_CALL, uri: 'sip:1002@example.com' }))
+      .toMatchObject({ autoAnswerAfterMs: null });
+    expect(decideIncomingCall(policy, {
+      ...PLAIN_CALL,
+      uri: 'sip:1002@example.com',
+      intercomHeaders: ['<http://example.com>;intercom'],
+    })).toMatchObject({ autoAnswerAfterMs: 0 });
+    expect(decideIncomingCall({ ...policy, autoAnswerIntercom: false }, {
+      ...PLAIN_CALL,
+      uri: 'sip:1002@example.com',
+      intercomHeaders: ['<http://example.com>;intercom'],
+    })).toMatchObject({ autoAnswerAfterMs: null });
+  });
+
+  it('他の回線に通話がある間は自動応答しない', () => {
+    const policy = createPolicy({ autoAnswerMode: 'always' });
+    expect(decideIncomingCall(policy, {
+      ...PLAIN_CALL,
+      hasOtherCall: true,
+      intercomHeaders: ['<http://example.com>;intercom'],
+    })).toMatchObject({ autoAnswerAfterMs: null });
+  });
+
+  it('負の待ち時間は即時応答として扱う', () => {
+    expect(decideIncomingCall(createPolicy({ autoAnswerMode: 'always', autoAnswerDelaySeconds: -1 }), PLAIN_CALL))
+      .toMatchObject({ autoAnswerAfterMs: 0 });
+  });
+
+  it('無応答転送は設定した秒数（最低1秒）の後に転送し、自動応答と併用できる', () => {
+    const policy = createPolicy({ forwardMode: 'no-answer', forwardTarget: '2000', forwardNoAnswerSeconds: 15 });
+    expect(decideIncomingCall(policy, PLAIN_CALL)).toEqual({
+      action: 'ring',
+      autoAnswerAfterMs: null,
+      forwardAfterMs: 15_000,
+    });
+    expect(decideIncomingCall({ ...policy, forwardNoAnswerSeconds: 0, autoAnswerMode: 'always' }, PLAIN_CALL))
+      .toEqual({ action: 'ring', autoAnswerAfterMs: 1000, forwardAfterMs: 1000 });
+    expect(decideIncomingCall({ ...policy, forwardTarget: '' }, PLAIN_CALL)).toMatchObject({ forwardAfterMs: null });
+  });
+});
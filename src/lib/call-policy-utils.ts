@@ -0,0 +1,166 @@
+import type { CallPolicy, IncomingCallDecision } from '@/@types/sip.types';
+
+import { getUriUser } from '@/lib/sip-session-utils';
+
+/**
+ * 着信時の処理の設定を保存するlocalStorageのキー
+ */
+const CALL_POLICY_STORAGE_KEY = 'sipjs-example:call-policy';
+
+/**
+ * 着信時の処理の設定の初期値（すべて無効）
+ */
+export const DEFAULT_CALL_POLICY: CallPolicy = {
+  autoAnswerCallers: '',
+  autoAnswerDelaySeconds: 1,
+  autoAnswerIntercom: true,
+  autoAnswerMode: 'off',
+  doNotDisturb: false,
+  doNotDisturbStatusCode: 486,
+  forwardMode: 'off',
+  forwardNoAnswerSeconds: 20,
+  forwardTarget: '',
+};
+
+/**
+ * localStorageから着信時の処理の設定を読み込む
+ * @returns 着信時の処理の設定。読み込めない場合は初期値
+ */
+export const loadCallPolicy = (): CallPolicy => {
+  try {
+    const raw = localStorage.getItem(CALL_POLICY_STORAGE_KEY);
+    if (!raw) {
+      return DEFAULT_CALL_POLICY;
+    }
+    return { ...DEFAULT_CALL_POLICY, ...(JSON.parse(raw) as Partial<CallPolicy>) };
+  }
+  catch (error) {
+    console.error('着信時の処理の設定の読み込みに失敗しました:', error);
+    return DEFAULT_CALL_POLICY;
+  }
+};
+
+/**
+ * 着信時の処理の設定をlocalStorageへ保存する
+ * @param policy - 着信時の処理の設定
+ */
+export const saveCallPolicy = (policy: CallPolicy): void => {
+  try {
+    localStorage.setItem(CALL_POLICY_STORAGE_KEY, JSON.stringify(policy));
+  }
+  catch (error) {
+    console.error('着信時の処理の設定の保存に失敗しました:', error);
+  }
+};
+
+/**
+ * 発信者がパターンのいずれかに一致するか判定する
+ * パターンはURIのユーザ部（例: 1001）またはAOR（例: 1001@example.com）と比較する
+ * @param patterns - カンマ区切りのパターン（*は任意の文字列）
+ * @param uri - 発信者のSIP URI
+ * @returns 一致する場合true
+ */
+export const matchesCallerPattern = (patterns: string, uri: string): boolean => {
+  const user = getUriUser(uri);
+  const address = uri.replace(/^sips?:/, '').split(/[;?]/)[0];
+  return patterns
+    .split(/[,\s]+/)
+    .filter(pattern => pattern !== '')
+    .some((pattern) => {
+      const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+      const regex = new RegExp(`^${escaped}$`, 'i');
+      return regex.test(user) || regex.test(address);
+    });
+};
+
+/**
+ * Alert-Info/Call-Infoヘッダからインターコム（自動応答の要求）を判定する
+ * answer-afterパラメータがあればその秒数、auto-answerやintercomの指定があれば即時とする
+ * @param headers - Alert-InfoとCall-Infoヘッダの値
+ * @returns 応答までの時間（ミリ秒）。インターコムでない場合はnull
+ */
+export const getIntercomAnswerDelay = (headers: string[]): number | null => {
+  for (const header of headers) {
+    const answerAfter = /answer-after\s*=\s*(\d+)/i.exec(header);
+    if (answerAfter) {
+      return Number(answerAfter[1]) * 1000;
+    }
+    if (/auto-?answer|intercom/i.test(header)) {
+      return 0;
+    }
+  }
+  return null;
+};
+
+/**
+ * 着信時の処理を判定する
+ * おやすみモード、すべての着信の転送、自動応答と無応答転送の順に評価する
+ * 他の通話がある間は自動応答しない（通話中の回線が保留されないようにする）
+ * @param policy - 着信時の処理の設定
+ * @param call - 着信の情報
+ * @param call.uri - 発信者のSIP URI
+ * @param call.intercomHeaders - Alert-InfoとCall-Infoヘッダの値
+ * @param call.hasOtherCall - 他の回線に通話がある場合true
+ * @returns 着信時の処理
+ */
+export const decideIncomingCall = (
+  policy: CallPolicy,
+  call: { uri: string; intercomHeaders: string[]; hasOtherCall: boolean },
+): IncomingCallDecision => {
+  if (policy.doNotDisturb) {
+    return { action: 'reject', statusCode: policy.doNotDisturbStatusCode };
+  }
+
+  const forwardTarget = policy.forwardTarget.trim();
+  if (policy.forwardMode === 'always' && forwardTarget) {
+    return { action: 'forward', target: forwardTarget };
+  }
+
+  let autoAnswerAfterMs: number | null = null;
+  if (!call.hasOtherCall && policy.autoAnswerMode !== 'off') {
+    const delayMs = Math.max(0, policy.autoAnswerDelaySeconds) * 1000;
+    const intercomDelayMs = policy.autoAnswerIntercom ? getIntercomAnswerDelay(call.intercomHeaders) : null;
+    if (policy.autoAnswerMode === 'always') {
+      autoAnswerAfterMs = intercomDelayMs ?? delayMs;
+    }
+    else if (intercomDelayMs !== null) {
+      autoAnswerAfterMs = intercomDelayMs;
+    }
+    else if (matchesCallerPattern(policy.autoAnswerCallers, call.uri)) {
+      autoAnswerAfterMs = delayMs;
+    }
+  }
+
+  const forwardAfterMs = policy.forwardMode === 'no-answer' && forwardTarget
+    ? Math.max(1, policy.forwardNoAnswerSeconds) * 1000
+    : null;
+
+  return { action: 'ring', autoAnswerAfterMs, forwardAfterMs };
+};
+
+/**
+ * 有効になっている着信時の処理を表示用の一覧に変換する
+ * @param policy - 着信時の処理の設定
+ * @returns 表示ラベルと色のクラス名の一覧
+ */
+export const getCallPolicyBadges = (policy: CallPolicy): { label: string; className: string }[] => {
+  const badges: { label: string; className: string }[] = [];
+  if (policy.doNotDisturb) {
+    badges.push({ label: `おやすみ (${String(policy.doNotDisturbStatusCode)})`, className: 'bg-red-100 text-red-700' });
+  }
+  if (policy.forwardMode !== 'off' && policy.forwardTarget.trim()) {
+    badges.push({
+      label: policy.forwardMode === 'always'
+        ? `転送 → ${policy.forwardTarget.trim()}`
+        : `無応答${String(policy.forwardNoAnswerSeconds)}秒で転送 → ${policy.forwardTarget.trim()}`,
+      className: 'bg-indigo-100 text-indigo-700',
+    });
+  }
+  if (policy.autoAnswerMode !== 'off') {
+    badges.push({
+      label: policy.autoAnswerMode === 'always' ? '自動応答' : '条件付き自動応答',
+      className: 'bg-green-100 text-green-700',
+    });
+  }
+  return badges;
+};
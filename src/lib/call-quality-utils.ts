@@ -0,0 +1,282 @@
+import type { CallHistoryEntry, CallQualitySample, CallQualitySummary } from '@/@types/sip.types';
+
+import { downloadBlob } from '@/lib/download-utils';
+
+/**
+ * 区間の値を計算するために前回の計測から引き継ぐ累積値
+ */
+export interface QualityCounters {
+  timestamp: number;
+  bytesSent: number;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+/**
+ * getStatsの結果のうち、通話品質の計算に使用する項目
+ * RTCStatsReportの値は種類ごとに項目が異なるため、使用する項目のみを定義する
+ */
+interface RtcStatsEntry {
+  type: string;
+  kind?: string;
+  codecId?: string;
+  mimeType?: string;
+  bytesSent?: number;
+  bytesReceived?: number;
+  packetsReceived?: number;
+  packetsLost?: number;
+  jitter?: number;
+  roundTripTime?: number;
+  currentRoundTripTime?: number;
+  state?: string;
+  nominated?: boolean;
+}
+
+/**
+ * 推定MOSの最小値と最大値
+ */
+const MOS_MIN = 1;
+const MOS_MAX = 4.5;
+
+/**
+ * 数値を小数点以下の指定桁数に丸める
+ * @param value - 丸める値
+ * @param digits - 小数点以下の桁数
+ * @returns 丸めた値
+ */
+const roundTo = (value: number, digits: number): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+/**
+ * 往復遅延・ジッタ・パケット損失率から簡易E-modelでMOSを推定する
+ * @param roundTripTimeMs - 往復遅延（ミリ秒）
+ * @param jitterMs - ジッタ（ミリ秒）
+ * @param packetLossPercent - パケット損失率（%）
+ * @returns 推定MOS（1.0〜4.5）
+ */
+export const estimateMos = (roundTripTimeMs: number, jitterMs: number, packetLossPercent: number): number => {
+  const effectiveLatency = roundTripTimeMs + jitterMs * 2 + 10;
+  const latencyFactor = effectiveLatency < 160
+    ? 93.2 - effectiveLatency / 40
+    : 93.2 - (effectiveLatency - 120) / 10;
+  const rFactor = Math.min(Math.max(latencyFactor - packetLossPercent * 2.5, 0), 100);
+  const mos = 1 + 0.035 * rFactor + 0.000007 * rFactor * (rFactor - 60) * (100 - rFactor);
+  return roundTo(Math.min(Math.max(mos, MOS_MIN), MOS_MAX), 2);
+};
+
+/**
+ * 区間のビットレートを計算する
+ * @param bytes - 今回の累積バイト数
+ * @param previousBytes - 前回の累積バイト数
+ * @param elapsedMs - 前回からの経過時間（ミリ秒）
+ * @returns ビットレート（kbps）
+ */
+const calculateBitrateKbps = (bytes: number, previousBytes: number, elapsedMs: number): number => {
+  return roundTo(((bytes - previousBytes) * 8) / elapsedMs, 1);
+};
+
+/**
+ * getStatsの結果から音声の通話品質の計測値を作成する
+ * ビットレートとパケット損失率は前回の累積値との差分から計算するため、初回はnullになる
+ * @param report - RTCPeerConnection.getStatsの結果
+ * @param previous - 前回の計測時の累積値（初回はnull）
+ * @returns 計測値と次回の計算に使用する累積値
+ */
+export const createQualitySample = (
+  report: RTCStatsReport,
+  previous: QualityCounters | null,
+): { sample: CallQualitySample; counters: QualityCounters } => {
+  const entries = [...report.values()] as RtcStatsEntry[];
+  const inbound = entries.find(entry => entry.type === 'inbound-rtp' && entry.kind === 'audio');
+  const outbound = entries.find(entry => entry.type === 'outbound-rtp' && entry.kind === 'audio');
+  const remoteInbound = entries.find(entry => entry.type === 'remote-inbound-rtp' && entry.kind === 'audio');
+  const candidatePair = entries.find(entry => entry.type === 'candidate-pair' && entry.state === 'succeeded' && entry.nominated);
+  const codecId = inbound?.codecId ?? outbound?.codecId;
+  const codec = codecId ? report.get(codecId) as RtcStatsEntry | undefined : undefined;
+
+  const timestamp = Date.now();
+  const counters: QualityCounters = {
+    timestamp,
+    bytesSent: outbound?.bytesSent ?? 0,
+    bytesReceived: inbound?.bytesReceived ?? 0,
+    packetsReceived: inbound?.packetsReceived ?? 0,
+    packetsLost: inbound?.packetsLost ?? 0,
+  };
+
+  const rttSeconds = candidatePair?.currentRoundTripTime ?? remoteInbound?.roundTripTime;
+  const roundTripTimeMs = rttSeconds === undefined ? null : roundTo(rttSeconds * 1000, 1);
+  const jitterMs = inbound?.jitter === undefined ? null : roundTo(inbound.jitter * 1000, 1);
+
+  let sendBitrateKbps: number | null = null;
+  let receiveBitrateKbps: number | null = null;
+  let packetLossPercent: number | null = null;
+  const elapsedMs = previous ? timestamp - previous.timestamp : 0;
+  if (previous && elapsedMs > 0) {
+    sendBitrateKbps = calculateBitrateKbps(counters.bytesSent, previous.bytesSent, elapsedMs);
+    receiveBitrateKbps = calculateBitrateKbps(counters.bytesReceived, previous.bytesReceived, elapsedMs);
+    const lost = counters.packetsLost - previous.packetsLost;
+    const expected = lost + counters.packetsReceived - previous.packetsReceived;
+    packetLossPercent = expected > 0 ? roundTo((Math.max(lost, 0) / expected) * 100, 1) : 0;
+  }
+
+  const mos = roundTripTimeMs === null || jitterMs === null || packetLossPercent === null
+    ? null
+    : estimateMos(roundTripTimeMs, jitterMs, packetLossPercent);
+
+  return {
+    sample: {
+      timestamp,
+      codec: codec?.mimeType?.replace(/^audio\//, '') ?? '',
+      sendBitrateKbps,
+      receiveBitrateKbps,
+      roundTripTimeMs,
+      jitterMs,
+      packetLossPercent,
+      mos,
+    },
+    counters,
+  };
+};
+
+/**
+ * 計測値の一覧から指定した項目の値のみを取り出す（取得できなかった値は除く）
+ * @param samples - 計測値の一覧
+ * @param key - 取り出す項目
+ * @returns 値の一覧
+ */
+const pickValues = (
+  samples: CallQualitySample[],
+  key: Exclude<keyof CallQualitySample, 'codec' | 'timestamp'>,
+): number[] => {
+  return samples.flatMap((sample) => {
+    const value = sample[key];
+    return value === null ? [] : [value];
+  });
+};
+
+/**
+ * 値の平均を計算する
+ * @param values - 値の一覧
+ * @returns 平均値（値がない場合はnull）
+ */
+const average = (values: number[]): number | null => {
+  if (values.length === 0) {
+    return null;
+  }
+  return roundTo(values.reduce((sum, value) => sum + value, 0) / values.length, 2);
+};
+
+/**
+ * 通話中の計測値から通話品質の集計結果を作成する
+ * @param samples - 通話中の計測値の一覧（古い順）
+ * @returns 集計結果（計測値がない場合はundefined）
+ */
+export const summarizeQualitySamples = (samples: CallQualitySample[]): CallQualitySummary | undefined => {
+  if (samples.length === 0) {
+    return undefined;
+  }
+  const roundTripTimes = pickValues(samples, 'roundTripTimeMs');
+  const jitters = pickValues(samples, 'jitterMs');
+  const packetLosses = pickValues(samples, 'packetLossPercent');
+  const mosValues = pickValues(samples, 'mos');
+
+  return {
+    codec: [...samples].reverse().find(sample => sample.codec)?.codec ?? '',
+    sampleCount: samples.length,
+    startedAt: samples[0].timestamp,
+    endedAt: samples[samples.length - 1].timestamp,
+    averageSendBitrateKbps: average(pickValues(samples, 'sendBitrateKbps')),
+    averageReceiveBitrateKbps: average(pickValues(samples, 'receiveBitrateKbps')),
+    averageRoundTripTimeMs: average(roundTripTimes),
+    maxRoundTripTimeMs: roundTripTimes.length > 0 ? Math.max(...roundTripTimes) : null,
+    averageJitterMs: average(jitters),
+    maxJitterMs: jitters.length > 0 ? Math.max(...jitters) : null,
+    averagePacketLossPercent: average(packetLosses),
+    maxPacketLossPercent: packetLosses.length > 0 ? Math.max(...packetLosses) : null,
+    averageMos: average(mosValues),
+    minMos: mosValues.length > 0 ? Math.min(...mosValues) : null,
+  };
+};
+
+/**
+ * スパークライン（SVGのpolyline）の座標を作成する
+ * 値の最小値から最大値までを高さいっぱいに表示し、取得できなかった値は飛ばす
+ * @param values - 値の一覧（古い順）
+ * @param width - 描画領域の幅
+ * @param height - 描画領域の高さ
+ * @returns polylineのpoints属性の文字列
+ */
+export const buildSparklinePoints = (values: (number | null)[], width: number, height: number): string => {
+  const numbers = values.filter((value): value is number => value !== null);
+  if (numbers.length < 2) {
+    return '';
+  }
+  const min = Math.min(...numbers);
+  const range = Math.max(...numbers) - min || 1;
+  const step = width / (values.length - 1);
+
+  return values
+    .flatMap((value, index) => {
+      if (value === null) {
+        return [];
+      }
+      const x = roundTo(index * step, 1);
+      const y = roundTo(height - ((value - min) / range) * height, 1);
+      return [`${String(x)},${String(y)}`];
+    })
+    .join(' ');
+};
+
+/**
+ * MOSから品質の評価を取得する
+ * @param mos - 推定MOS
+ * @returns 評価の表示ラベルと文字色のクラス
+ */
+export const getMosRating = (mos: number | null): { label: string; className: string } => {
+  if (mos === null) {
+    return { label: '計測中', className: 'text-gray-500' };
+  }
+  if (mos >= 4) {
+    return { label: '良好', className: 'text-green-600' };
+  }
+  if (mos >= 3.6) {
+    return { label: '普通', className: 'text-yellow-600' };
+  }
+  return { label: '不良', className: 'text-red-600' };
+};
+
+/**
+ * 計測値を単位付きの表示用文字列に変換する
+ * @param value - 計測値
+ * @param unit - 単位
+ * @returns 表示用の文字列（取得できない場合は"-"）
+ */
+export const formatQualityValue = (value: number | null, unit: string): string => {
+  return value === null ? '-' : `${String(value)} ${unit}`.trim();
+};
+
+/**
+ * 通話履歴の通話品質の集計結果をJSONファイルとしてダウンロードする
+ * どの通話の結果か分かるよう、通話相手や通話時間も含めて出力する
+ * @param entry - 通話品質の集計結果を持つ通話履歴エントリ
+ */
+export const exportCallQuality = (entry: CallHistoryEntry): void => {
+  if (!entry.quality) {
+    return;
+  }
+  const data = {
+    direction: entry.direction,
+    remoteIdentity: entry.remoteIdentity,
+    startedAt: new Date(entry.startedAt).toISOString(),
+    answeredAt: entry.answeredAt === null ? null : new Date(entry.answeredAt).toISOString(),
+    endedAt: new Date(entry.endedAt).toISOString(),
+    duration: entry.duration,
+    quality: entry.quality,
+  };
+  const fileName = `call-quality-${new Date(entry.startedAt).toISOString().replace(/[:.]/g, '-')}.json`;
+
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), fileName);
+};
@@ -0,0 +1,132 @@
+import type { CallRecording, RemoteIdentity } from '@/@types/sip.types';
+
+import { formatRemoteIdentity } from '@/lib/sip-session-utils';
+
+/**
+ * 通話録音を保存するIndexedDBのデータベース名とストア名
+ */
+const RECORDING_DB_NAME = 'sipjs-example';
+const RECORDING_DB_VERSION = 1;
+const RECORDING_STORE_NAME = 'recordings';
+
+/**
+ * 録音に使用するMIMEタイプの候補（優先順）
+ */
+const RECORDING_MIME_TYPES = [
+  'audio/webm;codecs=opus',
+  'audio/ogg;codecs=opus',
+  'audio/webm',
+  'audio/ogg',
+];
+
+/**
+ * IDBRequestの完了をPromiseで待つ
+ * @param request - IndexedDBのリクエスト
+ * @returns リクエストの結果
+ */
+const waitForRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      reject(request.error ?? new Error('IndexedDBの操作に失敗しました'));
+    };
+  });
+};
+
+/**
+ * 通話録音のデータベースを開く（初回はストアを作成する）
+ * @returns データベース
+ */
+const openRecordingDatabase = (): Promise<IDBDatabase> => {
+  const request = indexedDB.open(RECORDING_DB_NAME, RECORDING_DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(RECORDING_STORE_NAME)) {
+      request.result.createObjectStore(RECORDING_STORE_NAME, { keyPath: 'id' });
+    }
+  };
+  return waitForRequest(request);
+};
+
+/**
+ * 通話録音のストアで処理を実行する
+ * @param mode - トランザクションのモード
+ * @param operation - ストアに対する処理
+ * @returns 処理の結果
+ */
+const withRecordingStore = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const database = await openRecordingDatabase();
+  try {
+    const transaction = database.transaction(RECORDING_STORE_NAME, mode);
+    return await waitForRequest(operation(transaction.objectStore(RECORDING_STORE_NAME)));
+  }
+  finally {
+    database.close();
+  }
+};
+
+/**
+ * IndexedDBから通話録音を読み込む
+ * @returns 通話録音（新しい順）
+ */
+export const loadRecordings = async (): Promise<CallRecording[]> => {
+  const recordings = await withRecordingStore('readonly', store => store.getAll() as IDBRequest<CallRecording[]>);
+  return recordings.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+/**
+ * 通話録音をIndexedDBへ保存する
+ * @param recording - 保存する通話録音
+ */
+export const saveRecording = async (recording: CallRecording): Promise<void> => {
+  await withRecordingStore('readwrite', store => store.put(recording));
+};
+
+/**
+ * 通話録音をIndexedDBから削除する
+ * @param id - 削除する通話録音のID
+ */
+export const deleteRecording = async (id: string): Promise<void> => {
+  await withRecordingStore('readwrite', store => store.delete(id));
+};
+
+/**
+ * ブラウザが録音に対応しているMIMEタイプを取得する
+ * @returns MIMEタイプ（対応していない場合は空文字で、ブラウザの既定の形式を使用する）
+ */
+export const getRecordingMimeType = (): string => {
+  return RECORDING_MIME_TYPES.find(mimeType => MediaRecorder.isTypeSupported(mimeType)) ?? '';
+};
+
+/**
+ * 通話相手と録音開始日時から録音のファイル名を作成する
+ * @param remoteIdentity - 通話相手
+ * @param startedAt - 録音開始日時
+ * @param mimeType - 録音のMIMEタイプ
+ * @returns ファイル名（例: 1001_20240101-120000.webm）
+ */
+export const buildRecordingFileName = (remoteIdentity: RemoteIdentity, startedAt: number, mimeType: string): string => {
+  const party = (formatRemoteIdentity(remoteIdentity) || 'unknown').replace(/[\\/:*?"<>|\s]+/g, '_');
+  const date = new Date(startedAt);
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  const timestamp = `${String(date.getFullYear())}${pad(date.getMonth() + 1)}${pad(date.getDate())}`
+    + `-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  const extension = mimeType.startsWith('audio/ogg') ? 'ogg' : 'webm';
+  return `${party}_${timestamp}.${extension}`;
+};
+
+/**
+ * 録音データのサイズを表示用の文字列に変換する
+ * @param bytes - バイト数
+ * @returns KB/MB単位の文字列
+ */
+export const formatRecordingSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
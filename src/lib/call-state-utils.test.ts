@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+
+import type { CallEvent, CallStatus } from '@/@types/sip.types';
+
+import { CALL_STATE_TRANSITIONS, isEndedCallStatus, transitionCallStatus } from '@/lib/call-state-utils';
+
+/**
+ * すべての通話状態
+ */
+const CALL_STATUSES: CallStatus[] = [
+  'idle',
+  'calling',
+  'early-media',
+  'ringing',
+  'in-call',
+  'on-hold',
+  'ending',
+  'ended',
+  'failed',
+  'rejected',
+];
+
+/**
+ * すべてのイベント
+ */
+const CALL_EVENTS: CallEvent[] = [
+  'dial',
+  'early-media',
+  'established',
+  'fail',
+  'hangup',
+  'hold',
+  'incoming',
+  'reject',
+  'resume',
+  'terminated',
+  'terminating',
+  'timeout',
+];
+
+/**
+ * 正しい遷移（遷移前の状態、イベント、遷移先の状態）
+ */
+const LEGAL_TRANSITIONS: [CallStatus, CallEvent, CallStatus][] = [
+  ['idle', 'dial', 'calling'],
+  ['idle', 'incoming', 'ringing'],
+  ['calling', 'early-media', 'early-media'],
+  ['calling', 'established', 'in-call'],
+  ['calling', 'fail', 'failed'],
+  ['calling', 'hangup', 'ending'],
+  ['calling', 'reject', 'rejected'],
+  ['calling', 'terminated', 'ended'],
+  ['calling', 'terminating', 'ending'],
+  ['calling', 'timeout', 'failed'],
+  ['early-media', 'established', 'in-call'],
+  ['early-media', 'fail', 'failed'],
+  ['early-media', 'hangup', 'ending'],
+  ['early-media', 'reject', 'rejected'],
+  ['early-media', 'terminated', 'ended'],
+  ['early-media', 'terminating', 'ending'],
+  ['early-media', 'timeout', 'failed'],
+  ['ringing', 'established', 'in-call'],
+  ['ringing', 'fail', 'failed'],
+  ['ringing', 'hangup', 'ending'],
+  ['ringing', 'reject', 'rejected'],
+  ['ringing', 'terminated', 'ended'],
+  ['ringing', 'terminating', 'ending'],
+  ['ringing', 'timeout', 'failed'],
+  ['in-call', 'fail', 'failed'],
+  ['in-call', 'hangup', 'ending'],
+  ['in-call', 'hold', 'on-hold'],
+  ['in-call', 'terminated', 'ended'],
+  ['in-call', 'terminating', 'ending'],
+  ['on-hold', 'fail', 'failed'],
+  ['on-hold', 'hangup', 'ending'],
+  ['on-hold', 'resume', 'in-call'],
+  ['on-hold', 'terminated', 'ended'],
+  ['on-hold', 'terminating', 'ending'],
+  ['ending', 'fail', 'failed'],
+  ['ending', 'terminated', 'ended'],
+  ['ending', 'terminating', 'ending'],
+  ['ended', 'terminated', 'ended'],
+  ['failed', 'terminated', 'failed'],
+  ['rejected', 'terminated', 'rejected'],
+];
+
+/**
+ * 不正な遷移（遷移前の状態とイベント）
+ * 正しい遷移に含まれない、すべての状態とイベントの組
+ */
+const ILLEGAL_TRANSITIONS: [CallStatus, CallEvent][] = CALL_STATUSES.flatMap(status => CALL_EVENTS
+  .filter(event => !LEGAL_TRANSITIONS.some(([from, legalEvent]) => from === status && legalEvent === event))
+  .map((event): [CallStatus, CallEvent] => [status, event]));
+
+describe('transitionCallStatus', () => {
+  it('遷移表はすべての通話状態を定義している', () => {
+    expect(Object.keys(CALL_STATE_TRANSITIONS).sort()).toEqual([...CALL_STATUSES].sort());
+  });
+
+  it.each(LEGAL_TRANSITIONS)('%s で %s を受けると %s へ遷移する', (status, event, expected) => {
+    expect(transitionCallStatus(status, event)).toBe(expected);
+  });
+
+  it.each(ILLEGAL_TRANSITIONS)('%s で %s を受けても遷移しない', (status, event) => {
+    expect(transitionCallStatus(status, event)).toBeNull();
+  });
+
+  it('待機中の切断と着信中の保留は不正な遷移になる', () => {
+    expect(transitionCallStatus('idle', 'hangup')).toBeNull();
+    expect(transitionCallStatus('ringing', 'hold')).toBeNull();
+  });
+
+  it.each<CallStatus>(['ended', 'failed', 'rejected'])('終了した状態 %s はterminatedのみ受け付け、状態を変えない', (status) => {
+    for (const event of CALL_EVENTS) {
+      expect(transitionCallStatus(status, event)).toBe(event === 'terminated' ? status : null);
+    }
+  });
+});
+
+describe('isEndedCallStatus', () => {
+  it.each(CALL_STATUSES)('%s が終了した状態か判定する', (status) => {
+    expect(isEndedCallStatus(status)).toBe(status === 'ended' || status === 'failed' || status === 'rejected');
+  });
+});
@@ -0,0 +1,135 @@
+import type { CallEvent, CallStatus } from '@/@types/sip.types';
+
+/**
+ * 通話状態の遷移表
+ * 状態ごとに受け付けるイベントと遷移先を定義し、定義のないイベントは不正な遷移として扱う
+ * 終了した状態（ended・failed・rejected）からは他の状態へ遷移しない
+ */
+export const CALL_STATE_TRANSITIONS: Record<CallStatus, Partial<Record<CallEvent, CallStatus>>> = {
+  'idle': {
+    dial: 'calling',
+    incoming: 'ringing',
+  },
+  'calling': {
+    'early-media': 'early-media',
+    'established': 'in-call',
+    'fail': 'failed',
+    'hangup': 'ending',
+    'reject': 'rejected',
+    'terminated': 'ended',
+    'terminating': 'ending',
+    'timeout': 'failed',
+  },
+  'early-media': {
+    established: 'in-call',
+    fail: 'failed',
+    hangup: 'ending',
+    reject: 'rejected',
+    terminated: 'ended',
+    terminating: 'ending',
+    timeout: 'failed',
+  },
+  'ringing': {
+    established: 'in-call',
+    fail: 'failed',
+    hangup: 'ending',
+    reject: 'rejected',
+    terminated: 'ended',
+    terminating: 'ending',
+    timeout: 'failed',
+  },
+  'in-call': {
+    fail: 'failed',
+    hangup: 'ending',
+    hold: 'on-hold',
+    terminated: 'ended',
+    terminating: 'ending',
+  },
+  'on-hold': {
+    fail: 'failed',
+    hangup: 'ending',
+    resume: 'in-call',
+    terminated: 'ended',
+    terminating: 'ending',
+  },
+  'ending': {
+    fail: 'failed',
+    terminated: 'ended',
+    terminating: 'ending',
+  },
+  'ended': {
+    terminated: 'ended',
+  },
+  'failed': {
+    terminated: 'failed',
+  },
+  'rejected': {
+    terminated: 'rejected',
+  },
+};
+
+/**
+ * 状態ごとの時間切れまでの時間（ミリ秒）
+ * 発信中・アーリーメディアの呼出中・着信中のまま応答がない通話は時間切れ（timeout）で失敗にする
+ */
+export const CALL_STATE_TIMEOUTS_MS: Partial<Record<CallStatus, number>> = {
+  'calling': 60_000,
+  'early-media': 60_000,
+  'ringing': 120_000,
+};
+
+/**
+ * 終了した通話の回線を表示しておく時間（ミリ秒）
+ */
+export const ENDED_CALL_DISPLAY_MS = 3000;
+
+/**
+ * 通話状態の遷移を求める（reducer）
+ * @param status - 現在の通話状態
+ * @param event - イベント
+ * @returns 遷移先の通話状態（不正な遷移の場合はnull）
+ */
+export const transitionCallStatus = (status: CallStatus, event: CallEvent): CallStatus | null => {
+  return CALL_STATE_TRANSITIONS[status][event] ?? null;
+};
+
+/**
+ * 終了した通話の状態か判定する
+ * @param status - 通話状態
+ * @returns ended・failed・rejectedの場合true
+ */
+export const isEndedCallStatus = (status: CallStatus): boolean => {
+  return status === 'ended' || status === 'failed' || status === 'rejected';
+};
+
+/**
+ * 通話状態の表示メッセージを作成する
+ * @param status - 通話状態
+ * @param remoteIdentity - 通話相手の表示名（不明な場合は空文字）
+ * @returns 表示メッセージ（待機中は空文字）
+ */
+export const getCallStatusMessage = (status: CallStatus, remoteIdentity: string): string => {
+  const suffix = remoteIdentity ? ` - ${remoteIdentity}` : '';
+  switch (status) {
+    case 'calling':
+      return '📞 発信中...';
+    case 'early-media':
+      return `🔉 呼出中（アーリーメディア）${suffix}`;
+    case 'ended':
+      return `📴 通話が終了しました${suffix}`;
+    case 'ending':
+      return '📴 通話終了中...';
+    case 'failed':
+      return `⚠️ 通話に失敗しました${suffix}`;
+    case 'idle':
+      return '';
+    case 'in-call':
+      return `🔊 通話中${suffix}`;
+    case 'on-hold':
+      return `⏸️ 保留中${suffix}`;
+    case 'rejected':
+      return `🚫 通話が拒否されました${suffix}`;
+    case 'ringing':
+      return `📱 ${remoteIdentity || '非通知'} からの着信`;
+  }
+};
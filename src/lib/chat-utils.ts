@@ -0,0 +1,122 @@
+import type { ChatMessage, ChatThread } from '@/@types/sip.types';
+
+/**
+ * チャットスレッドを保存するlocalStorageのキー
+ */
+const CHAT_THREADS_STORAGE_KEY = 'sipjs-example:chat-threads';
+
+/**
+ * スレッドごとに保存するメッセージの最大件数
+ */
+export const CHAT_THREAD_MAX_MESSAGES = 500;
+
+/**
+ * localStorageからチャットスレッドを読み込む
+ * 送信中のまま保存されたメッセージは応答を受け取れないため送信失敗として扱う
+ * @returns チャットスレッド（最新のメッセージが新しい順）。読み込めない場合は空配列
+ */
+export const loadChatThreads = (): ChatThread[] => {
+  try {
+    const raw = localStorage.getItem(CHAT_THREADS_STORAGE_KEY);
+    if (!raw) {
+      return [];
+    }
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return (parsed as ChatThread[]).map(thread => ({
+      ...thread,
+      messages: thread.messages.map(message => (
+        message.status === 'sending' ? { ...message, status: 'failed' } : message
+      )),
+    }));
+  }
+  catch (error) {
+    console.error('チャットの読み込みに失敗しました:', error);
+    return [];
+  }
+};
+
+/**
+ * チャットスレッドをlocalStorageへ保存する
+ * @param threads - チャットスレッド
+ */
+export const saveChatThreads = (threads: ChatThread[]): void => {
+  try {
+    localStorage.setItem(CHAT_THREADS_STORAGE_KEY, JSON.stringify(threads));
+  }
+  catch (error) {
+    console.error('チャットの保存に失敗しました:', error);
+  }
+};
+
+/**
+ * SIP URIからスレッドの識別子に使用するAORを取り出す
+ * @param uri - SIP URI（例: sip:1001@example.com;transport=ws）
+ * @returns パラメータとヘッダを除いたURI（例: sip:1001@example.com）
+ */
+export const toPeerUri = (uri: string): string => {
+  return uri.replace(/[;?].*$/, '');
+};
+
+/**
+ * スレッドへメッセージを追加し、スレッドを先頭へ移動する
+ * スレッドがなければ作成する
+ * @param threads - チャットスレッド
+ * @param peer - 相手のURIと表示名
+ * @param peer.peerUri - 相手のAOR
+ * @param peer.displayName - 相手の表示名（空の場合は既存の表示名を維持する）
+ * @param message - 追加するメッセージ
+ * @param isUnread - 未読として数える場合true
+ * @returns 更新後のチャットスレッド
+ */
+export const appendChatMessage = (
+  threads: ChatThread[],
+  peer: { peerUri: string; displayName: string },
+  message: ChatMessage,
+  isUnread: boolean,
+): ChatThread[] => {
+  const existing = threads.find(thread => thread.peerUri === peer.peerUri);
+  const thread: ChatThread = {
+    peerUri: peer.peerUri,
+    displayName: peer.displayName || (existing?.displayName ?? ''),
+    messages: [...(existing?.messages ?? []), message].slice(-CHAT_THREAD_MAX_MESSAGES),
+    unreadCount: (existing?.unreadCount ?? 0) + (isUnread ? 1 : 0),
+  };
+  return [thread, ...threads.filter(candidate => candidate.peerUri !== peer.peerUri)];
+};
+
+/**
+ * スレッド内のメッセージの送信状態を更新する
+ * @param threads - チャットスレッド
+ * @param peerUri - 相手のAOR
+ * @param messageId - 更新するメッセージのID
+ * @param update - 更新内容
+ * @returns 更新後のチャットスレッド
+ */
+export const updateChatMessage = (
+  threads: ChatThread[],
+  peerUri: string,
+  messageId: string,
+  update: Pick<ChatMessage, 'status' | 'statusCode'>,
+): ChatThread[] => {
+  return threads.map(thread => (
+    thread.peerUri === peerUri
+      ? {
+          ...thread,
+          messages: thread.messages.map(message => (message.id === messageId ? { ...message, ...update } : message)),
+        }
+      : thread
+  ));
+};
+
+/**
+ * 送信状態の表示ラベル
+ */
+export const CHAT_MESSAGE_STATUS_LABELS: Record<ChatMessage['status'], string> = {
+  delivered: '送信済み',
+  failed: '送信失敗',
+  received: '',
+  sending: '送信中...',
+};
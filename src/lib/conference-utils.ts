@@ -0,0 +1,103 @@
+/**
+ * 音声を合成している会議ブリッジ
+ * localStreamは全参加者の音声を合成した自分が聞くためのストリーム
+ */
+export interface ConferenceBridge {
+  localStream: MediaStream;
+  setMuted: (muted: boolean) => void;
+  close: () => Promise<void>;
+}
+
+/**
+ * 会議に参加する通話のメディア
+ */
+interface ConferenceParticipant {
+  peerConnection: RTCPeerConnection;
+  microphoneTrack: MediaStreamTrack;
+}
+
+/**
+ * 複数の通話の音声をWebAudioで合成する会議ブリッジを作成する
+ * 各通話の送信トラックを「自分のマイク＋他の参加者の音声」を合成したトラックへ差し替え、
+ * 各参加者に自分と他の参加者の声が聞こえるようにする
+ * closeで送信トラックを元のマイクへ戻す（マイクのトラックは停止しない）
+ * @param participants - 会議に参加する通話のRTCPeerConnectionとマイクのトラック
+ * @returns 会議ブリッジ
+ */
+export const createConferenceBridge = async (participants: ConferenceParticipant[]): Promise<ConferenceBridge> => {
+  const audioContext = new AudioContext();
+  const localDestination = audioContext.createMediaStreamDestination();
+  // Chromeでは相手の音声をメディア要素で再生していないとWebAudioへ流れないため、ミュートで再生しておく
+  const remoteSinks: HTMLAudioElement[] = [];
+
+  const remoteSources = participants.map(({ peerConnection }) => {
+    const remoteTracks = peerConnection.getReceivers()
+      .map(receiver => receiver.track)
+      .filter(track => track.kind === 'audio');
+    if (remoteTracks.length === 0) {
+      return null;
+    }
+    const remoteStream = new MediaStream(remoteTracks);
+    const sink = new Audio();
+    sink.muted = true;
+    sink.srcObject = remoteStream;
+    void sink.play().catch((error: unknown) => {
+      console.error('会議の音声の再生に失敗しました:', error);
+    });
+    remoteSinks.push(sink);
+
+    const source = audioContext.createMediaStreamSource(remoteStream);
+    source.connect(localDestination);
+    return source;
+  });
+
+  const microphoneGains: GainNode[] = [];
+  const restoreSenders: (() => Promise<void>)[] = [];
+
+  await Promise.all(participants.map(async ({ peerConnection, microphoneTrack }, index) => {
+    const sender = peerConnection.getSenders().find(candidate => candidate.track?.kind === 'audio');
+    if (!sender) {
+      return;
+    }
+
+    // ミュートは合成前のゲインで行うため、マイクのトラック自体は有効にしておく
+    microphoneTrack.enabled = true;
+    const destination = audioContext.createMediaStreamDestination();
+    const microphoneGain = audioContext.createGain();
+    audioContext.createMediaStreamSource(new MediaStream([microphoneTrack])).connect(microphoneGain);
+    microphoneGain.connect(destination);
+    microphoneGains.push(microphoneGain);
+    remoteSources.forEach((source, sourceIndex) => {
+      if (source && sourceIndex !== index) {
+        source.connect(destination);
+      }
+    });
+
+    const [mixedTrack] = destination.stream.getAudioTracks();
+    await sender.replaceTrack(mixedTrack);
+    restoreSenders.push(async () => {
+      // 終了した通話のトラックは戻す必要がない
+      if (peerConnection.signalingState !== 'closed') {
+        await sender.replaceTrack(microphoneTrack);
+      }
+    });
+  }));
+
+  return {
+    localStream: localDestination.stream,
+    setMuted: (muted: boolean) => {
+      for (const gain of microphoneGains) {
+        gain.gain.value = muted ? 0 : 1;
+      }
+    },
+    close: async () => {
+      await Promise.all(restoreSenders.map(restore => restore().catch((error: unknown) => {
+        console.error('送信トラックの復元に失敗しました:', error);
+      })));
+      for (const sink of remoteSinks) {
+        sink.srcObject = null;
+      }
+      await audioContext.close();
+    },
+  };
+};
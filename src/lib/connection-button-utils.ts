@@ -11,13 +11,23 @@ export interface ConnectionButtonContent {
   text: string;
 }
 
+/**
+ * 自動再接続の進捗情報
+ */
+export interface ReconnectInfo {
+  attempt: number;
+  nextRetryAt: number | null;
+}
+
 /**
  * 接続状態に応じた接続ボタンの内容を決定する純粋関数
  * @param connectionStatus - 接続状態
+ * @param reconnectInfo - 自動再接続の進捗情報
  * @returns ボタン表示内容
  */
 export const getConnectionButtonContent = (
   connectionStatus: ConnectionStatus,
+  reconnectInfo?: ReconnectInfo,
 ): ConnectionButtonContent => {
   switch (connectionStatus) {
     case 'connected':
@@ -42,6 +52,16 @@ export const getConnectionButtonContent = (
         iconType: 'wifi',
         text: '再接続',
       };
+    case 'reconnecting':
+      return {
+        className: 'bg-yellow-600 hover:bg-yellow-700',
+        disabled: false,
+        iconType: 'wifi-off',
+        iconAnimated: true,
+        text: reconnectInfo && reconnectInfo.attempt > 0
+          ? `再接続中 (${String(reconnectInfo.attempt)}回目) - 中止`
+          : '再接続待機中 - 中止',
+      };
     default:
       return {
         className: 'bg-blue-600 hover:bg-blue-700',
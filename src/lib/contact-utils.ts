@@ -0,0 +1,408 @@
+import type { Contact, ContactExportFormat, ContactNumber, RemoteIdentity } from '@/@types/sip.types';
+
+import { getUriUser } from '@/lib/sip-session-utils';
+
+/**
+ * アドレス帳を保存するlocalStorageのキー
+ */
+const CONTACTS_STORAGE_KEY = 'sipjs-example:contacts';
+
+/**
+ * CSVの列見出し（エクスポート時に使用し、インポート時は列の特定に使用する）
+ * 1行に1つの番号を出力し、同じ名前と組織の行は1つの連絡先にまとめる
+ */
+const CSV_HEADERS = ['name', 'organization', 'label', 'number'] as const;
+
+/**
+ * インポート時に各列として扱う見出し（小文字で比較する）
+ */
+const CSV_HEADER_ALIASES: Record<(typeof CSV_HEADERS)[number], string[]> = {
+  label: ['label', 'type', '種別'],
+  name: ['name', 'full name', '名前', '氏名'],
+  number: ['number', 'phone', 'uri', 'sip', '番号', '電話番号'],
+  organization: ['organization', 'company', '組織', '会社'],
+};
+
+/**
+ * localStorageからアドレス帳を読み込む
+ * @returns 連絡先の一覧。読み込めない場合は空配列
+ */
+export const loadContacts = (): Contact[] => {
+  try {
+    const raw = localStorage.getItem(CONTACTS_STORAGE_KEY);
+    if (!raw) {
+      return [];
+    }
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed as Contact[] : [];
+  }
+  catch (error) {
+    console.error('アドレス帳の読み込みに失敗しました:', error);
+    return [];
+  }
+};
+
+/**
+ * アドレス帳をlocalStorageへ保存する
+ * @param contacts - 連絡先の一覧
+ */
+export const saveContacts = (contacts: Contact[]): void => {
+  try {
+    localStorage.setItem(CONTACTS_STORAGE_KEY, JSON.stringify(contacts));
+  }
+  catch (error) {
+    console.error('アドレス帳の保存に失敗しました:', error);
+  }
+};
+
+/**
+ * 連絡先を名前順に並べ替える
+ * @param contacts - 連絡先の一覧
+ * @returns 名前順の連絡先の一覧
+ */
+export const sortContacts = (contacts: Contact[]): Contact[] => {
+  return [...contacts].sort((a, b) => a.name.localeCompare(b.name, 'ja'));
+};
+
+/**
+ * 番号またはSIP URIを比較用の形式に変換する
+ * SIP URIはユーザ部を取り出し、電話番号は区切り文字（-、空白、括弧）を除く
+ * @param value - 番号またはSIP URI
+ * @returns 比較用の文字列
+ */
+export const normalizeContactNumber = (value: string): string => {
+  const user = getUriUser(value.trim().replace(/^tel:/i, ''));
+  return /^[+\d\s\-().]+$/.test(user) ? user.replace(/[\s\-().]/g, '') : user.toLowerCase();
+};
+
+/**
+ * URIに一致する番号を持つ連絡先を探す
+ * @param contacts - 連絡先の一覧
+ * @param uri - 相手のSIP URI
+ * @returns 一致した連絡先（見つからない場合はundefined）
+ */
+export const findContactByUri = (contacts: Contact[], uri: string): Contact | undefined => {
+  const target = normalizeContactNumber(uri);
+  if (!target) {
+    return undefined;
+  }
+  return contacts.find(contact => contact.numbers.some(number => normalizeContactNumber(number.value) === target));
+};
+
+/**
+ * 通話相手の表示名をアドレス帳の名前に置き換える
+ * @param contacts - 連絡先の一覧
+ * @param remoteIdentity - 通話相手
+ * @returns 連絡先が見つかれば表示名を連絡先の名前にした通話相手、見つからなければそのまま
+ */
+export const resolveRemoteIdentity = (contacts: Contact[], remoteIdentity: RemoteIdentity): RemoteIdentity => {
+  const contact = findContactByUri(contacts, remoteIdentity.uri);
+  return contact ? { ...remoteIdentity, displayName: contact.name } : remoteIdentity;
+};
+
+/**
+ * 名前・組織・番号のいずれかに検索語を含む連絡先を絞り込む
+ * @param contacts - 連絡先の一覧
+ * @param query - 検索語
+ * @returns 一致した連絡先の一覧
+ */
+export const searchContacts = (contacts: Contact[], query: string): Contact[] => {
+  const keyword = query.trim().toLowerCase();
+  if (!keyword) {
+    return contacts;
+  }
+  return contacts.filter(contact => (
+    contact.name.toLowerCase().includes(keyword)
+    || contact.organization.toLowerCase().includes(keyword)
+    || contact.numbers.some(number => number.value.toLowerCase().includes(keyword))
+  ));
+};
+
+/**
+ * vCardの値のエスケープを解除する
+ * @param value - エスケープされた値
+ * @returns 元の値
+ */
+const unescapeVCardValue = (value: string): string => {
+  return value.replace(/\\([\\,;nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+};
+
+/**
+ * vCardの値をエスケープする
+ * @param value - 元の値
+ * @returns エスケープした値
+ */
+const escapeVCardValue = (value: string): string => {
+  return value.replace(/[\\,;]/g, char => `\\${char}`).replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * vCardのTYPEパラメータから番号の種別を取り出す
+ * @param params - プロパティのパラメータ（例: ["TYPE=WORK,VOICE"]）
+ * @returns 種別（例: work）
+ */
+const getVCardTypeLabel = (params: string[]): string => {
+  const types = params
+    .flatMap((param) => {
+      const [key, value = ''] = param.split('=');
+      // vCard 2.1/3.0では「TEL;WORK:」のように種別のみを指定する場合がある
+      return value ? (key.toUpperCase() === 'TYPE' ? value.split(',') : []) : [key];
+    })
+    .map(type => type.replace(/"/g, '').toLowerCase())
+    .filter(type => type !== 'voice' && type !== 'pref' && type !== 'internet');
+  return types[0] ?? '';
+};
+
+/**
+ * vCard（3.0/4.0）を連絡先の一覧に変換する
+ * FN（なければN）を名前、ORGを組織、TELとIMPP（sip:）を番号として取り込む
+ * @param text - vCardファイルの内容
+ * @returns 連絡先の一覧（IDは新しく割り当てる）
+ */
+export const parseVCard = (text: string): Contact[] => {
+  // 折り返された行（次の行が空白で始まる）を結合する
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const contacts: Contact[] = [];
+  let current: Contact | null = null;
+  let structuredName = '';
+
+  for (const line of lines) {
+    const separatorIndex = line.indexOf(':');
+    if (separatorIndex < 0) {
+      continue;
+    }
+    const [rawName, ...params] = line.slice(0, separatorIndex).split(';');
+    const name = rawName.replace(/^item\d+\./i, '').toUpperCase();
+    const value = line.slice(separatorIndex + 1).trim();
+
+    if (name === 'BEGIN' && value.toUpperCase() === 'VCARD') {
+      current = { id: crypto.randomUUID(), name: '', organization: '', numbers: [] };
+      structuredName = '';
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+
+    switch (name) {
+      case 'END':
+        current.name ||= structuredName;
+        if (current.name || current.numbers.length > 0) {
+          contacts.push(current);
+        }
+        current = null;
+        break;
+      case 'FN':
+        current.name = unescapeVCardValue(value);
+        break;
+      case 'IMPP':
+      case 'X-SIP':
+        if (/^sips?:/i.test(value) || name === 'X-SIP') {
+          current.numbers.push({ label: getVCardTypeLabel(params) || 'sip', value: unescapeVCardValue(value) });
+        }
+        break;
+      case 'N': {
+        // N:姓;名;ミドルネーム;敬称;接尾辞
+        const [familyName = '', givenName = ''] = value.split(';').map(unescapeVCardValue);
+        structuredName = `${familyName} ${givenName}`.trim();
+        break;
+      }
+      case 'ORG':
+        current.organization = unescapeVCardValue(value.split(';')[0]);
+        break;
+      case 'TEL':
+        current.numbers.push({ label: getVCardTypeLabel(params), value: unescapeVCardValue(value).replace(/^tel:/i, '') });
+        break;
+      default:
+        break;
+    }
+  }
+  return contacts;
+};
+
+/**
+ * 連絡先の一覧をvCardに変換する
+ * SIP URIの番号はIMPP、それ以外はTELとして出力する
+ * @param contacts - 連絡先の一覧
+ * @param version - vCardのバージョン
+ * @returns vCardファイルの内容
+ */
+export const serializeVCard = (contacts: Contact[], version: '3.0' | '4.0'): string => {
+  return contacts
+    .map((contact) => {
+      const lines = ['BEGIN:VCARD', `VERSION:${version}`, `FN:${escapeVCardValue(contact.name)}`, `N:${escapeVCardValue(contact.name)};;;;`];
+      if (contact.organization) {
+        lines.push(`ORG:${escapeVCardValue(contact.organization)}`);
+      }
+      for (const number of contact.numbers) {
+        const typeParam = number.label ? `;TYPE=${number.label.toUpperCase()}` : '';
+        if (/^sips?:/i.test(number.value)) {
+          lines.push(`IMPP${typeParam}:${number.value}`);
+        }
+        else if (version === '4.0') {
+          lines.push(`TEL;VALUE=uri${typeParam}:tel:${number.value}`);
+        }
+        else {
+          lines.push(`TEL${typeParam}:${escapeVCardValue(number.value)}`);
+        }
+      }
+      lines.push('END:VCARD');
+      return lines.join('\r\n');
+    })
+    .join('\r\n')
+    .concat('\r\n');
+};
+
+/**
+ * CSVを行と列に分割する（ダブルクォートで囲まれた値の区切り文字と改行に対応）
+ * @param text - CSVファイルの内容
+ * @returns 行ごとの値の配列
+ */
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let isQuoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (isQuoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      }
+      else if (char === '"') {
+        isQuoted = false;
+      }
+      else {
+        field += char;
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '\n':
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+        break;
+      case '\r':
+        break;
+      case '"':
+        isQuoted = true;
+        break;
+      case ',':
+        row.push(field);
+        field = '';
+        break;
+      default:
+        field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+/**
+ * CSVを連絡先の一覧に変換する
+ * 1行目の見出しから名前・組織・種別・番号の列を特定し、同じ名前と組織の行は1つの連絡先にまとめる
+ * @param text - CSVファイルの内容（BOM付きも可）
+ * @returns 連絡先の一覧（IDは新しく割り当てる）
+ */
+export const parseContactsCsv = (text: string): Contact[] => {
+  const csvRows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (csvRows.length === 0) {
+    return [];
+  }
+  const [headerRow, ...rows] = csvRows;
+  const headers = headerRow.map(header => header.trim().toLowerCase());
+  const columnIndex = (column: (typeof CSV_HEADERS)[number]): number => {
+    return headers.findIndex(header => CSV_HEADER_ALIASES[column].includes(header));
+  };
+  const nameIndex = columnIndex('name');
+  const organizationIndex = columnIndex('organization');
+  const labelIndex = columnIndex('label');
+  const numberIndex = columnIndex('number');
+  if (nameIndex < 0 && numberIndex < 0) {
+    return [];
+  }
+
+  const contacts = new Map<string, Contact>();
+  for (const row of rows) {
+    const cell = (index: number): string => (index < 0 ? '' : (row[index] ?? '').trim());
+    const name = cell(nameIndex);
+    const organization = cell(organizationIndex);
+    const key = `${name}\u0000${organization}`;
+    const contact = contacts.get(key) ?? { id: crypto.randomUUID(), name, organization, numbers: [] };
+    const value = cell(numberIndex);
+    if (value) {
+      contact.numbers.push({ label: cell(labelIndex), value });
+    }
+    contacts.set(key, contact);
+  }
+  return [...contacts.values()];
+};
+
+/**
+ * CSVの値をエスケープする
+ * @param value - 元の値
+ * @returns 区切り文字・改行・ダブルクォートを含む場合はダブルクォートで囲んだ値
+ */
+const escapeCsvValue = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * 連絡先の一覧をCSVに変換する（1行に1つの番号）
+ * @param contacts - 連絡先の一覧
+ * @returns CSVファイルの内容
+ */
+export const serializeContactsCsv = (contacts: Contact[]): string => {
+  const rows = contacts.flatMap((contact) => {
+    const numbers: ContactNumber[] = contact.numbers.length > 0 ? contact.numbers : [{ label: '', value: '' }];
+    return numbers.map(number => [contact.name, contact.organization, number.label, number.value]);
+  });
+  return [[...CSV_HEADERS], ...rows]
+    .map(row => row.map(escapeCsvValue).join(','))
+    .join('\r\n')
+    .concat('\r\n');
+};
+
+/**
+ * ファイルの内容から形式を判定して連絡先の一覧に変換する
+ * @param fileName - ファイル名
+ * @param text - ファイルの内容
+ * @returns 連絡先の一覧
+ */
+export const parseContactsFile = (fileName: string, text: string): Contact[] => {
+  if (/\.vcf$/i.test(fileName) || /^\s*BEGIN:VCARD/i.test(text)) {
+    return parseVCard(text);
+  }
+  return parseContactsCsv(text);
+};
+
+/**
+ * 連絡先の一覧を指定した形式のファイルに変換する
+ * @param contacts - 連絡先の一覧
+ * @param format - 出力形式
+ * @returns ファイル名とファイルの内容
+ */
+export const buildContactsFile = (
+  contacts: Contact[],
+  format: ContactExportFormat,
+): { fileName: string; blob: Blob } => {
+  if (format === 'csv') {
+    return {
+      fileName: 'contacts.csv',
+      blob: new Blob([serializeContactsCsv(contacts)], { type: 'text/csv' }),
+    };
+  }
+  return {
+    fileName: 'contacts.vcf',
+    blob: new Blob([serializeVCard(contacts, format === 'vcard4' ? '4.0' : '3.0')], { type: 'text/vcard' }),
+  };
+};
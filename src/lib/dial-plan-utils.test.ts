@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+
+import type { DialPlan, DialPlanRule } from '@/@types/sip.types';
+
+import {
+  applyDialPlan,
+  DEFAULT_DIAL_PLAN,
+  normalizeDialedNumber,
+  toE164,
+  validateDialPlanRule,
+} from '@/lib/dial-plan-utils';
+
+/**
+ * 登録先のドメイン
+ */
+const DOMAIN = 'pbx.example.com';
+
+/**
+ * ルールを作成する
+ * @param id - ルールのID
+ * @param rule - パターン・処理・値
+ * @returns ダイアルプランのルール
+ */
+const createRule = (id: string, rule: Partial<DialPlanRule> & Pick<DialPlanRule, 'action' | 'pattern'>): DialPlanRule => ({
+  id,
+  description: '',
+  value: '',
+  ...rule,
+});
+
+/**
+ * 既定の番号体系にルールを設定したダイアルプランを作成する
+ * @param rules - ルール
+ * @returns ダイアルプラン
+ */
+const createDialPlan = (rules: DialPlanRule[]): DialPlan => ({ ...DEFAULT_DIAL_PLAN, rules });
+
+describe('normalizeDialedNumber', () => {
+  it('番号から空白・ハイフン・括弧・ピリオドを取り除く', () => {
+    expect(normalizeDialedNumber('090-1234 5678')).toBe('09012345678');
+    expect(normalizeDialedNumber('(03) 1234.5678')).toBe('0312345678');
+    expect(normalizeDialedNumber('+81 90-1234-5678')).toBe('+819012345678');
+  });
+
+  it('英字を含むユーザ名はそのまま返す', () => {
+    expect(normalizeDialedNumber('alice-smith')).toBe('alice-smith');
+  });
+});
+
+describe('toE164', () => {
+  it('国内プレフィックスを国番号に置き換える', () => {
+    expect(toE164('09012345678', DEFAULT_DIAL_PLAN)).toBe('+819012345678');
+  });
+
+  it('国際プレフィックスから始まる番号は国際番号として扱う', () => {
+    expect(toE164('01014155550100', DEFAULT_DIAL_PLAN)).toBe('+14155550100');
+  });
+
+  it('国内プレフィックスがない番号には国番号だけを付ける', () => {
+    expect(toE164('312345678', DEFAULT_DIAL_PLAN)).toBe('+81312345678');
+  });
+
+  it('他の国の番号体系にも対応する', () => {
+    const dialPlan = { countryCode: '1', internationalPrefix: '011', trunkPrefix: '1' };
+    expect(toE164('14155550100', dialPlan)).toBe('+14155550100');
+    expect(toE164('011819012345678', dialPlan)).toBe('+819012345678');
+  });
+
+  it('既に+から始まる番号や数字以外を含む番号はそのまま返す', () => {
+    expect(toE164('+819012345678', DEFAULT_DIAL_PLAN)).toBe('+819012345678');
+    expect(toE164('alice', DEFAULT_DIAL_PLAN)).toBe('alice');
+  });
+});
+
+describe('applyDialPlan', () => {
+  it('ルールがなければ区切り文字を除いた番号に登録先のドメインを付ける', () => {
+    expect(applyDialPlan(createDialPlan([]), '090-1234 5678', DOMAIN)).toEqual({
+      targetUri: `sip:09012345678@${DOMAIN}`,
+      blockedBy: null,
+      appliedRules: [],
+    });
+  });
+
+  it('空の入力では発信先を作成しない', () => {
+    expect(applyDialPlan(createDialPlan([]), '  ', DOMAIN).targetUri).toBeNull();
+  });
+
+  it('ルールを上から順に適用し、前のルールの結果に次のルールのパターンを照合する', () => {
+    const addNine = createRule('add-9', { action: 'add-prefix', pattern: '^\\d{4}$', value: '9' });
+    const addZero = createRule('add-0', { action: 'add-prefix', pattern: '^9\\d{4}$', value: '0' });
+    expect(applyDialPlan(createDialPlan([addNine, addZero]), '1001', DOMAIN)).toMatchObject({
+      targetUri: `sip:091001@${DOMAIN}`,
+      appliedRules: [addNine, addZero],
+    });
+    expect(applyDialPlan(createDialPlan([addZero, addNine]), '1001', DOMAIN)).toMatchObject({
+      targetUri: `sip:91001@${DOMAIN}`,
+      appliedRules: [addNine],
+    });
+  });
+
+  it('プレフィックスを削除してから別のプレフィックスを追加できる', () => {
+    const strip = createRule('strip', { action: 'strip-prefix', pattern: '^0\\d+$', value: '0' });
+    const add = createRule('add', { action: 'add-prefix', pattern: '', value: '81' });
+    expect(applyDialPlan(createDialPlan([strip, add]), '090-1234-5678', DOMAIN).targetUri)
+      .toBe(`sip:819012345678@${DOMAIN}`);
+  });
+
+  it('プレフィックスから始まらない番号は削除のルールで変わらない', () => {
+    const strip = createRule('strip', { action: 'strip-prefix', pattern: '', value: '0' });
+    expect(applyDialPlan(createDialPlan([strip]), '1001', DOMAIN).targetUri).toBe(`sip:1001@${DOMAIN}`);
+  });
+
+  it('E.164変換のルールで国際・国内プレフィックスを変換する', () => {
+    const e164 = createRule('e164', { action: 'e164', pattern: '^0\\d{9,}$' });
+    const dialPlan = createDialPlan([e164]);
+    expect(applyDialPlan(dialPlan, '03-1234-5678', DOMAIN).targetUri).toBe(`sip:+81312345678@${DOMAIN}`);
+    expect(applyDialPlan(dialPlan, '010 1 415 555 0100', DOMAIN).targetUri).toBe(`sip:+14155550100@${DOMAIN}`);
+    // 内線番号はパターンに一致しないため変換しない
+    expect(applyDialPlan(dialPlan, '1001', DOMAIN).targetUri).toBe(`sip:1001@${DOMAIN}`);
+  });
+
+  it('禁止のルールに一致した時点で評価を終了する', () => {
+    const block = createRule('block', { action: 'block', pattern: '^0990', description: '有料番号' });
+    const add = createRule('add', { action: 'add-prefix', pattern: '', value: '9' });
+    expect(applyDialPlan(createDialPlan([block, add]), '0990-123-456', DOMAIN)).toEqual({
+      targetUri: null,
+      blockedBy: block,
+      appliedRules: [block],
+    });
+    // 禁止のルールより前のルールで番号が変わった場合は、変わった番号で照合する
+    expect(applyDialPlan(createDialPlan([add, block]), '0990-123-456', DOMAIN)).toMatchObject({
+      targetUri: `sip:90990123456@${DOMAIN}`,
+      blockedBy: null,
+    });
+  });
+
+  it('ドメイン指定のルールは登録先のドメインより優先する', () => {
+    const setDomain = createRule('domain', { action: 'set-domain', pattern: '^\\+', value: ' gw.example.net ' });
+    const dialPlan = createDialPlan([setDomain]);
+    expect(applyDialPlan(dialPlan, '+1 415 555 0100', DOMAIN).targetUri).toBe('sip:+14155550100@gw.example.net');
+    expect(applyDialPlan(dialPlan, '1001', DOMAIN).targetUri).toBe(`sip:1001@${DOMAIN}`);
+  });
+
+  it('SIPアドレスのドメインは登録先のドメインより優先し、ドメイン指定のルールで置き換えられる', () => {
+    expect(applyDialPlan(createDialPlan([]), 'sip:alice@other.example.org', DOMAIN).targetUri)
+      .toBe('sip:alice@other.example.org');
+    const setDomain = createRule('domain', { action: 'set-domain', pattern: '', value: 'gw.example.net' });
+    expect(applyDialPlan(createDialPlan([setDomain]), 'sip:alice@other.example.org', DOMAIN).targetUri)
+      .toBe('sip:alice@gw.example.net');
+  });
+
+  it('sips:のアドレスはスキームを保ったままユーザ部にルールを適用する', () => {
+    const e164 = createRule('e164', { action: 'e164', pattern: '^0' });
+    expect(applyDialPlan(createDialPlan([e164]), 'SIPS:090-1234-5678@secure.example.com', DOMAIN).targetUri)
+      .toBe('sips:+819012345678@secure.example.com');
+    expect(applyDialPlan(createDialPlan([]), 'sips:1001', DOMAIN).targetUri).toBe(`sips:1001@${DOMAIN}`);
+  });
+
+  it('不正な正規表現のルールは適用せずに次のルールへ進む', () => {
+    const invalid = createRule('invalid', { action: 'block', pattern: '([0-9' });
+    const add = createRule('add', { action: 'add-prefix', pattern: '', value: '9' });
+    expect(applyDialPlan(createDialPlan([invalid, add]), '1001', DOMAIN)).toEqual({
+      targetUri: `sip:91001@${DOMAIN}`,
+      blockedBy: null,
+      appliedRules: [add],
+    });
+    expect(validateDialPlanRule(invalid)).toBe('パターンが正規表現として不正です');
+  });
+
+  it('すべての番号を削除した場合は発信先を作成しない', () => {
+    const strip = createRule('strip', { action: 'strip-prefix', pattern: '', value: '1001' });
+    expect(applyDialPlan(createDialPlan([strip]), '1001', DOMAIN)).toMatchObject({
+      targetUri: null,
+      blockedBy: null,
+      appliedRules: [strip],
+    });
+  });
+});
+
+describe('validateDialPlanRule', () => {
+  it('値が必要な処理で値が空の場合は誤りを返す', () => {
+    expect(validateDialPlanRule(createRule('add', { action: 'add-prefix', pattern: '' })))
+      .toBe('プレフィックスを入力してください');
+    expect(validateDialPlanRule(createRule('domain', { action: 'set-domain', pattern: '', value: ' ' })))
+      .toBe('ドメインを入力してください');
+    expect(validateDialPlanRule(createRule('e164', { action: 'e164', pattern: '^0' }))).toBeNull();
+  });
+});
@@ -0,0 +1,186 @@
+import type { DialPlan, DialPlanResult, DialPlanRule } from '@/@types/sip.types';
+
+/**
+ * ダイアルプランを保存するlocalStorageのキー
+ */
+const DIAL_PLAN_STORAGE_KEY = 'sipjs-example:dial-plan';
+
+/**
+ * ダイアルプランの初期値（ルールなし、E.164変換は日本の番号体系）
+ */
+export const DEFAULT_DIAL_PLAN: DialPlan = {
+  countryCode: '81',
+  internationalPrefix: '010',
+  trunkPrefix: '0',
+  rules: [],
+};
+
+/**
+ * localStorageからダイアルプランを読み込む
+ * @returns ダイアルプラン。読み込めない場合は初期値
+ */
+export const loadDialPlan = (): DialPlan => {
+  try {
+    const raw = localStorage.getItem(DIAL_PLAN_STORAGE_KEY);
+    if (!raw) {
+      return DEFAULT_DIAL_PLAN;
+    }
+    return { ...DEFAULT_DIAL_PLAN, ...(JSON.parse(raw) as Partial<DialPlan>) };
+  }
+  catch (error) {
+    console.error('ダイアルプランの読み込みに失敗しました:', error);
+    return DEFAULT_DIAL_PLAN;
+  }
+};
+
+/**
+ * ダイアルプランをlocalStorageへ保存する
+ * @param dialPlan - ダイアルプラン
+ */
+export const saveDialPlan = (dialPlan: DialPlan): void => {
+  try {
+    localStorage.setItem(DIAL_PLAN_STORAGE_KEY, JSON.stringify(dialPlan));
+  }
+  catch (error) {
+    console.error('ダイアルプランの保存に失敗しました:', error);
+  }
+};
+
+/**
+ * 新しいルールを作成
+ * @returns すべての番号に一致するプレフィックス追加のルール
+ */
+export const createDialPlanRule = (): DialPlanRule => ({
+  id: crypto.randomUUID(),
+  description: '',
+  pattern: '',
+  action: 'add-prefix',
+  value: '',
+});
+
+/**
+ * ルールのパターンを正規表現に変換する
+ * @param pattern - 正規表現の文字列（空文字はすべての番号に一致する）
+ * @returns 正規表現（不正なパターンの場合はnull）
+ */
+export const compileDialPlanPattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern);
+  }
+  catch {
+    return null;
+  }
+};
+
+/**
+ * ルールの設定の誤りを確認する
+ * @param rule - ダイアルプランのルール
+ * @returns 誤りの説明（誤りがなければnull）
+ */
+export const validateDialPlanRule = (rule: DialPlanRule): string | null => {
+  if (!compileDialPlanPattern(rule.pattern)) {
+    return 'パターンが正規表現として不正です';
+  }
+  if ((rule.action === 'add-prefix' || rule.action === 'strip-prefix' || rule.action === 'set-domain') && !rule.value.trim()) {
+    return rule.action === 'set-domain' ? 'ドメインを入力してください' : 'プレフィックスを入力してください';
+  }
+  return null;
+};
+
+/**
+ * ダイアル番号から表記上の区切り文字（空白、ハイフン、括弧、ピリオド）を取り除く
+ * 番号以外（英字を含むユーザ名など）はそのまま返す
+ * @param user - ダイアル番号またはSIPアドレスのユーザ部
+ * @returns 区切り文字を除いた番号
+ */
+export const normalizeDialedNumber = (user: string): string => {
+  return /^[+\d\s\-().#*]+$/.test(user) ? user.replace(/[\s\-().]/g, '') : user;
+};
+
+/**
+ * 番号をE.164形式（+国番号から始まる形式）に変換する
+ * 国際プレフィックスから始まる番号は国際番号、国内プレフィックスから始まる番号は国内番号として扱う
+ * @param number - 区切り文字を除いた番号
+ * @param dialPlan - 国番号・国際プレフィックス・国内プレフィックス
+ * @returns E.164形式の番号（数字以外を含む番号や既に+から始まる番号はそのまま）
+ */
+export const toE164 = (number: string, dialPlan: Pick<DialPlan, 'countryCode' | 'internationalPrefix' | 'trunkPrefix'>): string => {
+  if (!/^\d+$/.test(number)) {
+    return number;
+  }
+  if (dialPlan.internationalPrefix && number.startsWith(dialPlan.internationalPrefix)) {
+    return `+${number.slice(dialPlan.internationalPrefix.length)}`;
+  }
+  const national = dialPlan.trunkPrefix && number.startsWith(dialPlan.trunkPrefix)
+    ? number.slice(dialPlan.trunkPrefix.length)
+    : number;
+  return `+${dialPlan.countryCode}${national}`;
+};
+
+/**
+ * ダイアル番号にダイアルプランを適用し、発信先のSIP URIを作成する
+ * 番号の区切り文字を取り除いてから、パターンに一致したルールを上から順にすべて適用する
+ * 禁止のルールに一致した時点で評価を終了する
+ * ドメインを含まない場合は登録先のドメインを付加する
+ * @param dialPlan - ダイアルプラン
+ * @param dialedNumber - ダイアル番号またはSIPアドレス（例: 090-1234-5678, sip:1001@example.com）
+ * @param domain - 登録先のドメイン
+ * @returns 発信先のSIP URIと適用したルール
+ */
+export const applyDialPlan = (dialPlan: DialPlan, dialedNumber: string, domain: string): DialPlanResult => {
+  const appliedRules: DialPlanRule[] = [];
+  const input = dialedNumber.trim();
+  if (!input) {
+    return { targetUri: null, blockedBy: null, appliedRules };
+  }
+
+  const scheme = /^sips:/i.test(input) ? 'sips' : 'sip';
+  const address = input.replace(/^sips?:/i, '');
+  const atIndex = address.lastIndexOf('@');
+  let user = normalizeDialedNumber(atIndex >= 0 ? address.slice(0, atIndex) : address);
+  let targetDomain = atIndex >= 0 ? address.slice(atIndex + 1) : '';
+
+  for (const rule of dialPlan.rules) {
+    const regex = compileDialPlanPattern(rule.pattern);
+    if (!regex?.test(user)) {
+      continue;
+    }
+    appliedRules.push(rule);
+
+    switch (rule.action) {
+      case 'add-prefix':
+        user = `${rule.value}${user}`;
+        break;
+      case 'block':
+        return { targetUri: null, blockedBy: rule, appliedRules };
+      case 'e164':
+        user = toE164(user, dialPlan);
+        break;
+      case 'set-domain':
+        targetDomain = rule.value.trim();
+        break;
+      case 'strip-prefix':
+        if (user.startsWith(rule.value)) {
+          user = user.slice(rule.value.length);
+        }
+        break;
+    }
+  }
+
+  if (!user) {
+    return { targetUri: null, blockedBy: null, appliedRules };
+  }
+  return { targetUri: `${scheme}:${user}@${targetDomain || domain}`, blockedBy: null, appliedRules };
+};
+
+/**
+ * ダイアルプランの適用結果を表示用の文字列に変換する
+ * @param result - ダイアルプランの適用結果
+ * @returns 発信先のURI、または発信できない理由
+ */
+export const formatDialPlanResult = (result: DialPlanResult): string => {
+  if (result.blockedBy) {
+    return `発信禁止: ${result.blockedBy.description || result.blockedBy.pattern}`;
+  }
+  return result.targetUri ?? '';
+};
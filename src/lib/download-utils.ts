@@ -0,0 +1,13 @@
+/**
+ * Blobをファイルとしてダウンロードする
+ * @param blob - ダウンロードするデータ
+ * @param fileName - 保存時のファイル名
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = fileName;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,88 @@
+import type { AudioDeviceSelection } from '@/@types/sip.types';
+
+/**
+ * 選択した音声デバイスを保存するlocalStorageのキー
+ */
+const AUDIO_DEVICE_STORAGE_KEY = 'sipjs-example:audio-devices';
+
+/**
+ * 既定のデバイスを使用する場合の選択値
+ */
+export const DEFAULT_AUDIO_DEVICE_SELECTION: AudioDeviceSelection = {
+  audioInputId: '',
+  audioOutputId: '',
+};
+
+/**
+ * localStorageから選択した音声デバイスを読み込む
+ * @returns 選択した音声デバイス。読み込めない場合は既定のデバイス
+ */
+export const loadAudioDeviceSelection = (): AudioDeviceSelection => {
+  try {
+    const raw = localStorage.getItem(AUDIO_DEVICE_STORAGE_KEY);
+    if (!raw) {
+      return DEFAULT_AUDIO_DEVICE_SELECTION;
+    }
+    return { ...DEFAULT_AUDIO_DEVICE_SELECTION, ...(JSON.parse(raw) as Partial<AudioDeviceSelection>) };
+  }
+  catch (error) {
+    console.error('音声デバイス設定の読み込みに失敗しました:', error);
+    return DEFAULT_AUDIO_DEVICE_SELECTION;
+  }
+};
+
+/**
+ * 選択した音声デバイスをlocalStorageへ保存する
+ * @param selection - 選択した音声デバイス
+ */
+export const saveAudioDeviceSelection = (selection: AudioDeviceSelection): void => {
+  try {
+    localStorage.setItem(AUDIO_DEVICE_STORAGE_KEY, JSON.stringify(selection));
+  }
+  catch (error) {
+    console.error('音声デバイス設定の保存に失敗しました:', error);
+  }
+};
+
+/**
+ * 選択したデバイスが接続中のデバイスに含まれていればそのIDを、含まれていなければ既定のデバイスを返す
+ * ヘッドセットを外した場合などに既定のデバイスへ戻すために使用する
+ * @param deviceId - 選択したデバイスID
+ * @param devices - 接続中のデバイス一覧
+ * @returns 使用するデバイスID（空文字は既定のデバイス）
+ */
+export const resolveDeviceId = (deviceId: string, devices: MediaDeviceInfo[]): string => {
+  return devices.some(device => device.deviceId === deviceId) ? deviceId : '';
+};
+
+/**
+ * マイクのデバイスIDからgetUserMediaの音声制約を作成する
+ * @param deviceId - デバイスID（空文字は既定のデバイス）
+ * @returns 音声の制約
+ */
+export const toAudioConstraints = (deviceId: string): MediaTrackConstraints | true => {
+  return deviceId ? { deviceId: { exact: deviceId } } : true;
+};
+
+/**
+ * デバイスの表示名を取得する
+ * 権限が許可されるまではラベルが空のため、種類と連番で表示する
+ * @param device - デバイス情報
+ * @param index - 同じ種類のデバイス内での順番
+ * @returns 表示名
+ */
+export const getDeviceLabel = (device: MediaDeviceInfo, index: number): string => {
+  if (device.label) {
+    return device.label;
+  }
+  const kindLabel = device.kind === 'audioinput' ? 'マイク' : 'スピーカー';
+  return `${kindLabel} ${String(index + 1)}`;
+};
+
+/**
+ * 音声の出力先の切り替え（setSinkId）に対応しているか判定する
+ * @returns 対応している場合true
+ */
+export const isAudioOutputSelectionSupported = (): boolean => {
+  return 'setSinkId' in HTMLMediaElement.prototype;
+};
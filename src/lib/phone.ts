@@ -0,0 +1,2238 @@
+import {
+  Invitation,
+  Inviter,
+  type LogConnector,
+  type Message,
+  Messager,
+  Registerer,
+  type RegistererOptions,
+  type RegistererRegisterOptions,
+  RegistererState,
+  type Session,
+  type SessionDescriptionHandlerFactory,
+  type SessionReferOptions,
+  SessionState,
+  Subscriber,
+  SubscriptionState,
+  type URI,
+  UserAgent,
+} from 'sip.js';
+
+import {
+  type CallDirection,
+  type CallEvent,
+  type CallHistoryEntry,
+  type CallLine,
+  type CallPolicy,
+  type ChatMessage,
+  type ChatThread,
+  type DialPlan,
+  type DtmfTransport,
+  LINE_COUNT,
+  type PhoneState,
+  type PresenceSettings,
+  type PresenceState,
+  type RegistrationState,
+  type RejectStatusCode,
+  type RemoteIdentity,
+  type SipConfig,
+  type SipError,
+  type SipErrorOperation,
+  type TransferState,
+} from '@/@types/sip.types';
+import { decideIncomingCall, DEFAULT_CALL_POLICY } from '@/lib/call-policy-utils';
+import { CALL_STATE_TIMEOUTS_MS, ENDED_CALL_DISPLAY_MS, transitionCallStatus } from '@/lib/call-state-utils';
+import { appendChatMessage, toPeerUri, updateChatMessage } from '@/lib/chat-utils';
+import { type ConferenceBridge, createConferenceBridge } from '@/lib/conference-utils';
+import { applyDialPlan, DEFAULT_DIAL_PLAN } from '@/lib/dial-plan-utils';
+import { toAudioConstraints } from '@/lib/media-device-utils';
+import {
+  DEFAULT_PRESENCE_SETTINGS,
+  parsePresenceNotify,
+  PRESENCE_CONTENT_TYPES,
+  PRESENCE_RESUBSCRIBE_DELAY_MS,
+  PRESENCE_SUBSCRIBE_EXPIRES,
+} from '@/lib/presence-utils';
+import { computeReconnectDelay, RECONNECT_MAX_ATTEMPTS } from '@/lib/reconnect-utils';
+import { createSipError, SIP_ERROR_OPERATION_LABELS } from '@/lib/sip-error-utils';
+import {
+  buildTargetUri,
+  getLocalMediaStream,
+  getPeerConnection,
+  getRemoteIdentity,
+  getSipDomain,
+  hasVideoSdp,
+  isHoldSdp,
+  parseSipfrag,
+  reinviteSession,
+  replaceAudioInputTrack,
+  sendDtmfTone,
+  setSessionTracksEnabled,
+} from '@/lib/sip-session-utils';
+import { redactSipMessage } from '@/lib/sip-trace-utils';
+import { TypedEventEmitter } from '@/lib/typed-event-emitter';
+
+/**
+ * REGISTERを更新するタイミング（有効期限に対する割合、%）
+ */
+const REGISTER_REFRESH_FREQUENCY = 90;
+
+/**
+ * 未登録状態の初期値
+ */
+const UNREGISTERED_STATE: RegistrationState = {
+  status: 'unregistered',
+  statusCode: null,
+  reasonPhrase: '',
+};
+
+/**
+ * 転送していない状態の初期値
+ */
+const IDLE_TRANSFER_STATE: TransferState = {
+  status: 'idle',
+  mode: null,
+  target: '',
+  lineId: null,
+  consultLineId: null,
+  isConsultEstablished: false,
+  statusCode: null,
+  reasonPhrase: '',
+};
+
+/**
+ * 電話エンジンの状態の初期値
+ */
+const INITIAL_PHONE_STATE: PhoneState = {
+  connectionStatus: 'disconnected',
+  reconnectAttempt: 0,
+  nextRetryAt: null,
+  registrationState: UNREGISTERED_STATE,
+  lines: [],
+  activeLineId: null,
+  isCallDropped: false,
+  transferState: IDLE_TRANSFER_STATE,
+  chatThreads: [],
+  activeChatPeerUri: null,
+  presenceStates: {},
+};
+
+/**
+ * 通話で使用するメディアの制約を作成
+ * @param video - 映像を送信する場合true
+ * @param audioInputId - 使用するマイクのデバイスID（空文字は既定のデバイス）
+ * @returns getUserMediaの制約
+ */
+const getMediaConstraints = (video: boolean, audioInputId: string): MediaStreamConstraints => ({
+  audio: toAudioConstraints(audioInputId),
+  video,
+});
+
+/**
+ * 更新のREGISTERの応答も受け取れるRegisterer
+ * sip.jsのRegistererは有効期限の前にオプションなしでregisterを呼び直すため、
+ * その場合も最初のREGISTERと同じrequestDelegateで応答を受け取れるようにする
+ */
+class RefreshingRegisterer extends Registerer {
+  private readonly requestDelegate: RegistererRegisterOptions['requestDelegate'];
+
+  /**
+   * Registererを作成する
+   * @param userAgent - UserAgentインスタンス
+   * @param options - Registererのオプション
+   * @param requestDelegate - 最初と更新のREGISTERの応答を受け取るデリゲート
+   */
+  constructor(
+    userAgent: UserAgent,
+    options: RegistererOptions,
+    requestDelegate: RegistererRegisterOptions['requestDelegate'],
+  ) {
+    super(userAgent, options);
+    this.requestDelegate = requestDelegate;
+  }
+
+  override register(options: RegistererRegisterOptions = {}): ReturnType<Registerer['register']> {
+    return super.register({ ...options, requestDelegate: options.requestDelegate ?? this.requestDelegate });
+  }
+}
+
+/**
+ * sip.jsのログをコンソールへ出力する（sip.jsの組み込みのログと同じく、debugは出力しない）
+ * @param level - ログレベル
+ * @param category - ログのカテゴリ
+ * @param label - ログのラベル
+ * @param content - ログの本文（認証情報は伏せ字にしておく）
+ */
+const writeSipLog = (level: string, category: string, label: string | undefined, content: string): void => {
+  const message = `${category}${label ? ` | ${label}` : ''} | ${content}`;
+  switch (level) {
+    case 'error':
+      console.error(message);
+      break;
+    case 'log':
+      console.log(message);
+      break;
+    case 'warn':
+      console.warn(message);
+      break;
+    default:
+      break;
+  }
+};
+
+/**
+ * 電話エンジンが発行するイベントと引数
+ * active-media: 選択中の回線のメディアが変わった（回線がない場合はundefined、会議中は合成した音声）
+ * call-ended: 通話が終了し、通話履歴の記録が確定した
+ * error: 登録・発信・応答に失敗した
+ * message: SIP MESSAGEを受信した（スレッドへ追加した後に発行する）
+ * reconnected: 接続断の後に再接続した（登録していた場合は再登録する）
+ * sender-track: 回線の送信音声トラックを差し替えた（マイクの切り替え、会議の開始・終了）
+ * state: 状態のスナップショットが変わった
+ * transport-lost: サーバとの接続が失われた（通話は切断済みとして終了する）
+ */
+export interface PhoneEvents {
+  'active-media': [session: Session | undefined, audioStream: MediaStream | undefined];
+  'call-ended': [entry: CallHistoryEntry, lineId: string];
+  'error': [error: SipError];
+  'message': [peerUri: string, message: ChatMessage];
+  'reconnected': [];
+  'sender-track': [lineId: string];
+  'state': [state: PhoneState];
+  'transport-lost': [];
+}
+
+/**
+ * 電話エンジンのオプション
+ * sessionDescriptionHandlerFactoryはWebRTCを使用しない環境（テストなど）でSDPを扱う場合に指定する
+ * chatThreadsは保存していたチャットスレッド（状態の初期値として復元する）
+ */
+export interface PhoneOptions {
+  sessionDescriptionHandlerFactory?: SessionDescriptionHandlerFactory;
+  chatThreads?: ChatThread[];
+}
+
+/**
+ * 進行中の通話の記録
+ */
+interface ActiveCallRecord {
+  direction: CallDirection;
+  remoteIdentity: RemoteIdentity;
+  startedAt: number;
+  answeredAt: number | null;
+  rejected: boolean;
+  forwarded: boolean;
+  dropped: boolean;
+  cancelled: boolean;
+  /** 応答していない着信の自動応答・無応答転送のタイマー（応答・終了時に解除する） */
+  policyTimers: ReturnType<typeof setTimeout>[];
+}
+
+/**
+ * 進行中の会議（音声を合成している回線とブリッジ）
+ */
+interface ActiveConference {
+  lineIds: string[];
+  bridge: ConferenceBridge;
+}
+
+/**
+ * 内線ごとの在席状態の購読と再購読のタイマー
+ */
+interface PresenceSubscription {
+  subscriber: Subscriber;
+  resubscribeTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * UIに依存しない電話エンジン
+ * UserAgentの接続と自動再接続、REGISTER、複数回線の通話と転送、チャット（MESSAGE）、在席状態（SUBSCRIBE）をまとめて管理し、
+ * 状態はスナップショット（getSnapshot）と変更の購読（subscribe）で、その他の通知はイベントで公開する
+ * Reactからは useSyncExternalStore で、それ以外のページや拡張機能からは直接利用する
+ * 公開する操作は分割代入して渡せるよう、インスタンスに束縛した関数として定義する
+ */
+export class Phone extends TypedEventEmitter<PhoneEvents> {
+  private state: PhoneState = INITIAL_PHONE_STATE;
+  private userAgent: UserAgent | null = null;
+  private logConnector: LogConnector | undefined;
+  private shouldBeConnected = false;
+  private isReconnecting = false;
+  private isReconnectAttemptInProgress = false;
+  private isTransportLost = false;
+  private isNetworkWatched = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private registerer: Registerer | null = null;
+  private registerExpires: number | null = null;
+  private readonly sessions = new Map<string, Session>();
+  private readonly lineNumbers = new Map<string, number>();
+  private readonly lineStatuses = new Map<string, CallLine['status']>();
+  private readonly stateTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly callRecords = new Map<string, ActiveCallRecord>();
+  private readonly heldLineIds = new Set<string>();
+  private readonly mutedLineIds = new Set<string>();
+  private readonly cameraOffLineIds = new Set<string>();
+  private conference: ActiveConference | null = null;
+  private activeMediaKey = '';
+  private audioInputId = '';
+  private callPolicy: CallPolicy = DEFAULT_CALL_POLICY;
+  private dialPlan: DialPlan = DEFAULT_DIAL_PLAN;
+  private presenceSettings: PresenceSettings = DEFAULT_PRESENCE_SETTINGS;
+  private readonly presenceSubscriptions = new Map<string, PresenceSubscription>();
+  private isPresenceActive = false;
+  private readonly sessionDescriptionHandlerFactory: SessionDescriptionHandlerFactory | undefined;
+
+  /**
+   * 電話エンジンを作成する
+   * @param options - オプション
+   */
+  constructor(options: PhoneOptions = {}) {
+    super();
+    this.sessionDescriptionHandlerFactory = options.sessionDescriptionHandlerFactory;
+    this.state = { ...INITIAL_PHONE_STATE, chatThreads: options.chatThreads ?? [] };
+  }
+
+  /**
+   * 状態の変更を購読する（useSyncExternalStoreのsubscribe）
+   * @param listener - 状態が変わったときに呼び出す関数
+   * @returns 購読を解除する関数
+   */
+  readonly subscribe = (listener: () => void): (() => void) => {
+    return this.on('state', () => {
+      listener();
+    });
+  };
+
+  /**
+   * 現在の状態のスナップショットを取得する（useSyncExternalStoreのgetSnapshot）
+   * @returns 状態のスナップショット（変更されるまで同じオブジェクト）
+   */
+  readonly getSnapshot = (): PhoneState => this.state;
+
+  /**
+   * UserAgentを取得する（電話エンジンが扱わないSIPの操作で使用）
+   * @returns UserAgent（未接続の場合はnull）
+   */
+  readonly getUserAgent = (): UserAgent | null => this.userAgent;
+
+  /**
+   * 回線のセッションを取得する（録音・通話品質の計測など回線外の操作で使用）
+   * @param lineId - 回線のID
+   * @returns セッション（回線が存在しない場合はundefined）
+   */
+  readonly getSession = (lineId: string): Session | undefined => this.sessions.get(lineId);
+
+  /**
+   * sip.jsのログの出力先を設定する（次の接続から送受信したSIPメッセージを渡す）
+   * @param logConnector - ログの出力先
+   */
+  readonly setLogConnector = (logConnector: LogConnector | undefined): void => {
+    this.logConnector = logConnector;
+  };
+
+  /**
+   * 着信時の処理の設定を変更する
+   * @param callPolicy - 着信時の処理の設定
+   */
+  readonly setCallPolicy = (callPolicy: CallPolicy): void => {
+    this.callPolicy = callPolicy;
+  };
+
+  /**
+   * 発信と転送に適用するダイアルプランを変更する
+   * @param dialPlan - ダイアルプラン
+   */
+  readonly setDialPlan = (dialPlan: DialPlan): void => {
+    this.dialPlan = dialPlan;
+  };
+
+  /**
+   * 在席状態を購読する内線の設定を変更する（購読中の場合は新しい設定で購読し直す）
+   * @param presenceSettings - 在席状態の購読設定
+   */
+  readonly setPresenceSettings = (presenceSettings: PresenceSettings): void => {
+    if (this.presenceSettings === presenceSettings) {
+      return;
+    }
+    this.presenceSettings = presenceSettings;
+    if (this.isPresenceActive) {
+      this.startPresence();
+    }
+  };
+
+  /**
+   * 使用するマイクを変更し、通話中の全回線の送信音声トラックを差し替える
+   * 会議中は合成した音声トラックを送信しているため、会議を分割してから差し替える
+   * @param audioInputId - マイクのデバイスID（空文字は既定のデバイス）
+   */
+  readonly setAudioInput = (audioInputId: string): void => {
+    if (this.audioInputId === audioInputId) {
+      return;
+    }
+    this.audioInputId = audioInputId;
+
+    const replaceTracks = async (): Promise<void> => {
+      if (this.conference) {
+        console.warn('マイクを切り替えるため会議を分割します');
+        await this.splitConference();
+      }
+      await Promise.all([...this.sessions].map(async ([lineId, session]) => {
+        if (session.state !== SessionState.Established) {
+          return;
+        }
+        try {
+          await replaceAudioInputTrack(session, toAudioConstraints(audioInputId));
+          this.applyLineTracks(lineId);
+          this.emit('sender-track', lineId);
+          console.log('マイクを切り替えました:', lineId);
+        }
+        catch (error) {
+          console.error('マイクの切り替えに失敗しました:', error);
+        }
+      }));
+    };
+    void replaceTracks();
+  };
+
+  /**
+   * SIP接続を確立
+   * 接続中に呼ばれた場合は、前の接続の登録を解除してUserAgentを停止してから接続し直す
+   * @param config - SIP設定
+   */
+  readonly connect = async (config: SipConfig): Promise<void> => {
+    this.resetReconnectState();
+    this.setState({ connectionStatus: 'connecting' });
+    console.log('SIP接続を開始します:', { ...config, password: '[REDACTED]' });
+
+    if (this.userAgent) {
+      this.shouldBeConnected = false;
+      this.watchNetwork(false);
+      if (this.registerer) {
+        await this.unregister();
+      }
+      await this.stopUserAgent();
+    }
+
+    try {
+      // WebSocket URI の構築
+      const serverUri = config.url.startsWith('ws://') || config.url.startsWith('wss://')
+        ? config.url
+        : `wss://${config.url}`;
+
+      // ドメインを抽出（ポート番号を含む場合も対応）
+      const domain = getSipDomain(config.url);
+
+      const uri = UserAgent.makeURI(`sip:${config.username}@${domain}`);
+      if (!uri) {
+        throw new Error(`SIP URIを作成できません: ${config.username}@${domain}`);
+      }
+
+      // UserAgent の作成
+      const userAgent = new UserAgent({
+        authorizationPassword: config.password,
+        authorizationUsername: config.username,
+        delegate: {
+          onDisconnect: this.handleServerDisconnect,
+          onInvite: this.handleInvite,
+          onMessage: this.handleMessage,
+        },
+        // 送受信したSIPメッセージをトレースへ渡す
+        // 組み込みのログは認証ヘッダをそのまま出力するため無効にし、伏せ字にしてからコンソールへ出力する
+        logBuiltinEnabled: false,
+        logConnector: (level, category, label, content) => {
+          this.logConnector?.(level, category, label, content);
+          writeSipLog(level, category, label, redactSipMessage(content, [config.password]));
+        },
+        sessionDescriptionHandlerFactory: this.sessionDescriptionHandlerFactory,
+        transportOptions: { server: serverUri },
+        uri,
+      });
+      this.userAgent = userAgent;
+
+      // 接続開始（再接続はこのエンジンで行うため、UserAgent内部の再接続は使用しない）
+      await userAgent.start();
+
+      this.shouldBeConnected = true;
+      this.watchNetwork(true);
+      this.setState({ connectionStatus: 'connected' });
+      console.log('SIP接続が完了しました');
+    }
+    catch (error) {
+      this.setState({ connectionStatus: 'error' });
+      console.error('SIP接続に失敗しました:', error);
+      // 接続できなかったUserAgentもトランスポートを破棄するために停止する
+      await this.stopUserAgent();
+      throw error;
+    }
+  };
+
+  /**
+   * SIP接続を切断
+   */
+  readonly disconnect = async (): Promise<void> => {
+    this.shouldBeConnected = false;
+    this.resetReconnectState();
+    this.watchNetwork(false);
+
+    try {
+      // 登録したまま切断した場合も、登録を解除してから切断する
+      if (this.registerer) {
+        await this.unregister();
+      }
+      if (this.userAgent) {
+        await this.userAgent.stop();
+        this.userAgent = null;
+      }
+      this.setState({ connectionStatus: 'disconnected' });
+      console.log('SIP接続を切断しました');
+    }
+    catch (error) {
+      console.error('SIP切断エラー:', error);
+      this.setState({ connectionStatus: 'error' });
+      throw error;
+    }
+  };
+
+  /**
+   * REGISTERを送信
+   * 最初と更新のREGISTERの応答はrequestDelegateで受け取り、拒否・タイムアウトの場合は失敗として通知する
+   * 応答がないまま登録が失われた場合（有効期限切れなど）も、登録の解除を要求していなければ失敗とする
+   * 有効期限は接続断の後に再登録するときにも使用する
+   * @param expires - 登録の有効期限（秒）
+   */
+  readonly register = async (expires: number): Promise<void> => {
+    const userAgent = this.userAgent;
+    if (!userAgent) {
+      return;
+    }
+
+    // 再接続後の再登録では古いRegistererを破棄してから作り直す
+    this.disposeRegisterer();
+    this.registerExpires = expires;
+    const registerer = new RefreshingRegisterer(userAgent, {
+      expires,
+      refreshFrequency: REGISTER_REFRESH_FREQUENCY,
+    }, {
+      onAccept: (response) => {
+        if (this.registerer !== registerer) {
+          return;
+        }
+        this.setState({
+          registrationState: {
+            status: 'registered',
+            statusCode: response.message.statusCode ?? null,
+            reasonPhrase: response.message.reasonPhrase ?? '',
+          },
+        });
+      },
+      // タイムアウトした場合もsip.jsが408の応答として通知する
+      onReject: (response) => {
+        if (this.registerer !== registerer) {
+          return;
+        }
+        console.error('SIP登録が拒否されました:', response.message.statusCode);
+        const statusCode = response.message.statusCode ?? null;
+        const reasonPhrase = response.message.reasonPhrase ?? '';
+        this.setState({ registrationState: { status: 'failed', statusCode, reasonPhrase } });
+        this.emit('error', createSipError('register', { statusCode, reasonPhrase }));
+      },
+    });
+    this.registerer = registerer;
+
+    registerer.stateChange.addListener((state) => {
+      if (this.registerer !== registerer) {
+        return;
+      }
+      const { registrationState } = this.state;
+      if (state === RegistererState.Registered && registrationState.status !== 'registered') {
+        this.setState({ registrationState: { ...registrationState, status: 'registered' } });
+      }
+      // 登録の解除を要求せずに未登録になった場合は、登録または更新に失敗している
+      // sip.jsは未登録へ遷移してからonRejectを呼ぶため、応答による失敗の通知を待ってから判定し、
+      // 応答がない場合（有効期限切れなど）はステータスコードなしの失敗とする
+      if (state === RegistererState.Unregistered && registrationState.status !== 'failed') {
+        setTimeout(() => {
+          if (this.registerer !== registerer || this.state.registrationState.status === 'failed') {
+            return;
+          }
+          console.error('SIP登録が失われました');
+          this.setState({ registrationState: { status: 'failed', statusCode: null, reasonPhrase: '' } });
+          this.emit('error', createSipError('register', { kind: 'timeout' }));
+        }, 0);
+      }
+    });
+
+    try {
+      this.setState({ registrationState: { status: 'registering', statusCode: null, reasonPhrase: '' } });
+      await registerer.register();
+      console.log('REGISTERを送信しました');
+    }
+    catch (error) {
+      console.error('SIP登録に失敗しました:', error);
+      this.setState({ registrationState: { status: 'failed', statusCode: null, reasonPhrase: '' } });
+      this.emit('error', createSipError('register', { error }));
+    }
+  };
+
+  /**
+   * 登録を解除（Expires: 0のREGISTERを送信）
+   */
+  readonly unregister = async (): Promise<void> => {
+    const registerer = this.registerer;
+    this.registerExpires = null;
+    if (!registerer) {
+      this.setState({ registrationState: UNREGISTERED_STATE });
+      return;
+    }
+    this.registerer = null;
+
+    try {
+      await registerer.unregister();
+      await registerer.dispose();
+      console.log('SIP登録を解除しました');
+    }
+    catch (error) {
+      console.error('SIP登録解除に失敗しました:', error);
+    }
+    finally {
+      this.setState({ registrationState: UNREGISTERED_STATE });
+    }
+  };
+
+  /**
+   * 発信処理（空き回線で発信し、他の回線は保留する）
+   * @param dialedNumber - ダイアル番号
+   * @param video - ビデオ通話として発信する場合true
+   */
+  readonly makeCall = async (dialedNumber: string, video = false): Promise<void> => {
+    const userAgent = this.userAgent;
+    if (!userAgent || !dialedNumber) {
+      console.error('発信できません: UserAgentまたは番号が未設定');
+      return;
+    }
+
+    const targetUri = this.resolveTargetUri(userAgent, dialedNumber, 'call');
+    const inviter = targetUri && await this.createOutgoingLine(userAgent, targetUri, dialedNumber, 'call', video);
+    if (!inviter) {
+      return;
+    }
+    console.log('発信開始:', inviter.remoteIdentity.uri.toString(), video ? '（ビデオ）' : '');
+    await this.sendInvite(inviter, dialedNumber, 'call');
+  };
+
+  /**
+   * 着信応答処理（他の回線は保留する）
+   * @param lineId - 回線のID
+   * @param video - ビデオで応答する場合true
+   */
+  readonly answerCall = async (lineId: string, video = false): Promise<void> => {
+    const invitation = this.sessions.get(lineId);
+    if (!(invitation instanceof Invitation) || invitation.state !== SessionState.Initial) {
+      return;
+    }
+
+    this.clearPolicyTimers(lineId);
+    try {
+      await this.holdOtherLines(lineId);
+      this.updateLine(lineId, { isIncomingCallIgnored: false, isVideo: video, isCameraOn: video });
+      this.activateLine(lineId);
+      await invitation.accept({
+        sessionDescriptionHandlerOptions: { constraints: getMediaConstraints(video, this.audioInputId) },
+      });
+      console.log('着信に応答しました');
+    }
+    catch (error) {
+      console.error('着信応答に失敗しました:', error);
+      const record = this.callRecords.get(lineId);
+      this.emit('error', createSipError('answer', { error }, record?.remoteIdentity.uri));
+      // 応答できなかった着信はsip.jsが480で拒否して終了する
+      this.transitionLine(lineId, 'fail');
+    }
+  };
+
+  /**
+   * 通話中着信への応答処理（選択中の回線の通話を終了してから応答する）
+   * 他の保留中の回線はそのまま保留される
+   * @param lineId - 着信中の回線のID
+   * @param video - ビデオで応答する場合true
+   */
+  readonly endAndAnswerCall = async (lineId: string, video = false): Promise<void> => {
+    const currentLineId = this.state.activeLineId;
+    if (currentLineId && currentLineId !== lineId) {
+      await this.hangupCall(currentLineId);
+    }
+    await this.answerCall(lineId, video);
+  };
+
+  /**
+   * 着信拒否処理
+   * @param lineId - 回線のID
+   * @param statusCode - 拒否時に送信するSIPステータスコード
+   */
+  readonly declineCall = async (lineId: string, statusCode: RejectStatusCode): Promise<void> => {
+    const invitation = this.sessions.get(lineId);
+    if (!(invitation instanceof Invitation) || !this.transitionLine(lineId, 'reject')) {
+      return;
+    }
+
+    const record = this.callRecords.get(lineId);
+    if (record) {
+      record.rejected = true;
+    }
+
+    try {
+      await invitation.reject({ statusCode });
+      console.log('着信を拒否しました:', statusCode);
+    }
+    catch (error) {
+      // 拒否した時点で終了した状態のため、失敗への遷移は行わずに回線を解放する
+      console.error('着信拒否に失敗しました:', error);
+      this.releaseLine(lineId);
+    }
+  };
+
+  /**
+   * 着信を無視（呼出音の停止のみ行い、応答も拒否もしない）
+   * @param lineId - 回線のID
+   */
+  readonly ignoreCall = (lineId: string): void => {
+    this.updateLine(lineId, { isIncomingCallIgnored: true });
+  };
+
+  /**
+   * 通話終了処理（呼出中はCANCEL、着信中は拒否、通話中はBYE）
+   * @param lineId - 回線のID
+   */
+  readonly hangupCall = async (lineId: string): Promise<void> => {
+    const session = this.sessions.get(lineId);
+    if (!session || !this.transitionLine(lineId, 'hangup')) {
+      return;
+    }
+
+    try {
+      switch (session.state) {
+        case SessionState.Established:
+          await session.bye();
+          break;
+        case SessionState.Establishing:
+        case SessionState.Initial:
+          if (session instanceof Inviter) {
+            const record = this.callRecords.get(lineId);
+            if (record) {
+              record.cancelled = true;
+            }
+            await session.cancel();
+          }
+          else if (session instanceof Invitation) {
+            await session.reject();
+          }
+          break;
+        default:
+          break;
+      }
+      console.log('通話を終了しました');
+    }
+    catch (error) {
+      console.error('通話終了に失敗しました:', error);
+      this.transitionLine(lineId, 'fail');
+      this.releaseLine(lineId);
+    }
+  };
+
+  /**
+   * 通話保留処理
+   * @param lineId - 回線のID
+   */
+  readonly holdCall = async (lineId: string): Promise<void> => {
+    try {
+      await this.setLineHold(lineId, true);
+      console.log('通話を保留しました');
+    }
+    catch (error) {
+      console.error('通話保留に失敗しました:', error);
+    }
+  };
+
+  /**
+   * 回線を切り替え（他の回線を保留し、選択した回線の保留を解除）
+   * @param lineId - 切り替え先の回線のID（nullの場合は全回線を保留して空き回線を選択）
+   */
+  readonly switchLine = async (lineId: string | null): Promise<void> => {
+    try {
+      await this.holdOtherLines(lineId);
+      if (lineId) {
+        await this.setLineHold(lineId, false);
+      }
+      this.activateLine(lineId);
+    }
+    catch (error) {
+      console.error('回線の切り替えに失敗しました:', error);
+    }
+  };
+
+  /**
+   * 保留解除処理（他の回線は保留する）
+   * @param lineId - 回線のID
+   */
+  readonly resumeCall = async (lineId: string): Promise<void> => {
+    await this.switchLine(lineId);
+    console.log('保留を解除しました');
+  };
+
+  /**
+   * 2つの回線を会議にする（両方の保留を解除し、音声をWebAudioで合成する）
+   * 各参加者には自分と他の参加者の音声が送られ、自分は両方の音声を聞く
+   * 会議の開始時はミュートを解除する
+   * @param lineId - 選択する回線のID
+   * @param otherLineId - 会議に加える回線のID
+   */
+  readonly mergeLines = async (lineId: string, otherLineId: string): Promise<void> => {
+    const lineIds = [lineId, otherLineId];
+    const sessions = lineIds.map(id => this.sessions.get(id));
+    if (
+      this.conference
+      || lineId === otherLineId
+      || sessions.some(session => session?.state !== SessionState.Established)
+    ) {
+      console.error('会議を開始できません: 通話中の2つの回線が必要です');
+      return;
+    }
+
+    try {
+      await Promise.all(lineIds.map(id => this.setLineHold(id, false)));
+      const participants = sessions.map((session) => {
+        const peerConnection = session && getPeerConnection(session);
+        const microphoneTrack = session && getLocalMediaStream(session)?.getAudioTracks().find(track => track.readyState === 'live');
+        if (!peerConnection || !microphoneTrack) {
+          throw new Error('通話のメディアが確立していません');
+        }
+        return { peerConnection, microphoneTrack };
+      });
+      const bridge = await createConferenceBridge(participants);
+      this.conference = { lineIds, bridge };
+      for (const id of lineIds) {
+        this.mutedLineIds.delete(id);
+        this.applyLineTracks(id);
+        this.updateLine(id, { isInConference: true, isMuted: false });
+        this.emit('sender-track', id);
+      }
+      this.activateLine(lineId);
+      console.log('会議を開始しました');
+    }
+    catch (error) {
+      console.error('会議の開始に失敗しました:', error);
+    }
+  };
+
+  /**
+   * 会議を分割し、選択中の回線以外を保留して個別の通話へ戻す
+   */
+  readonly splitConference = async (): Promise<void> => {
+    if (!this.conference) {
+      return;
+    }
+
+    try {
+      await this.closeConference();
+      await this.holdOtherLines(this.state.activeLineId);
+      console.log('会議を個別の通話へ分割しました');
+    }
+    catch (error) {
+      console.error('会議の分割に失敗しました:', error);
+    }
+  };
+
+  /**
+   * ミュート切り替え処理（会議中は会議の全回線をまとめて切り替える）
+   * @param lineId - 回線のID
+   */
+  readonly toggleMute = (lineId: string): void => {
+    const session = this.sessions.get(lineId);
+    if (session?.state !== SessionState.Established) {
+      return;
+    }
+
+    const isMuted = !this.mutedLineIds.has(lineId);
+    const conferenceLineIds = this.conference?.lineIds ?? [];
+    const lineIds = conferenceLineIds.includes(lineId) ? conferenceLineIds : [lineId];
+    for (const id of lineIds) {
+      if (isMuted) {
+        this.mutedLineIds.add(id);
+      }
+      else {
+        this.mutedLineIds.delete(id);
+      }
+      this.applyLineTracks(id);
+      this.updateLine(id, { isMuted });
+    }
+  };
+
+  /**
+   * カメラのオン/オフ切り替え処理（映像トラックの送信を止めるだけで、re-INVITEは送信しない）
+   * @param lineId - 回線のID
+   */
+  readonly toggleCamera = (lineId: string): void => {
+    const session = this.sessions.get(lineId);
+    if (session?.state !== SessionState.Established) {
+      return;
+    }
+    if (!getLocalMediaStream(session)?.getVideoTracks().length) {
+      console.warn('映像を送信していない通話です。先にビデオへ切り替えてください');
+      return;
+    }
+
+    const isCameraOn = this.cameraOffLineIds.has(lineId);
+    if (isCameraOn) {
+      this.cameraOffLineIds.delete(lineId);
+    }
+    else {
+      this.cameraOffLineIds.add(lineId);
+    }
+    this.applyLineTracks(lineId);
+    this.updateLine(lineId, { isCameraOn });
+  };
+
+  /**
+   * 音声通話をビデオ通話へ切り替え（映像を含むre-INVITEを送信）
+   * @param lineId - 回線のID
+   */
+  readonly upgradeToVideo = async (lineId: string): Promise<void> => {
+    const session = this.sessions.get(lineId);
+    if (session?.state !== SessionState.Established || this.heldLineIds.has(lineId)) {
+      return;
+    }
+    if (this.conference?.lineIds.includes(lineId)) {
+      console.warn('会議中はビデオへ切り替えできません。先に会議を分割してください');
+      return;
+    }
+
+    try {
+      const answer = await reinviteSession(session, { constraints: getMediaConstraints(true, this.audioInputId) });
+      this.cameraOffLineIds.delete(lineId);
+      this.applyLineTracks(lineId);
+      this.updateLine(lineId, { isVideo: true, isCameraOn: true, hasRemoteVideo: hasVideoSdp(answer) });
+      console.log('ビデオ通話へ切り替えました');
+    }
+    catch (error) {
+      console.error('ビデオ通話への切り替えに失敗しました:', error);
+    }
+  };
+
+  /**
+   * 通話中のDTMF送信処理
+   * @param lineId - 回線のID
+   * @param tone - 送信するトーン（0-9、*、#、A-D）
+   * @param transport - 送信方式（SIP INFO / RFC 4733）
+   */
+  readonly sendDtmf = async (lineId: string, tone: string, transport: DtmfTransport): Promise<void> => {
+    const session = this.sessions.get(lineId);
+    if (session?.state !== SessionState.Established) {
+      return;
+    }
+
+    try {
+      await sendDtmfTone(session, tone, transport);
+      this.updateLine(lineId, line => ({ sentDtmfDigits: line.sentDtmfDigits + tone }));
+      console.log('DTMFを送信しました:', tone);
+    }
+    catch (error) {
+      console.error('DTMF送信に失敗しました:', error);
+    }
+  };
+
+  /**
+   * ブラインド転送（通話へ転送先を指定したREFERを送信）
+   * 転送先には発信と同じくダイアルプランを適用する
+   * @param lineId - 転送元の回線のID
+   * @param target - 転送先の番号またはSIPアドレス
+   */
+  readonly blindTransfer = async (lineId: string, target: string): Promise<void> => {
+    const userAgent = this.userAgent;
+    const session = this.sessions.get(lineId);
+    if (!userAgent || !session) {
+      console.error('転送できません: 転送元の通話がありません');
+      return;
+    }
+    const targetUri = this.resolveTargetUri(userAgent, target, 'transfer');
+    if (!targetUri) {
+      return;
+    }
+
+    try {
+      this.setState({ transferState: { ...IDLE_TRANSFER_STATE, status: 'referring', mode: 'blind', target, lineId } });
+      await session.refer(targetUri, this.createReferOptions(lineId));
+      console.log('REFERを送信しました:', targetUri.toString());
+    }
+    catch (error) {
+      console.error('ブラインド転送に失敗しました:', error);
+      this.updateTransferState({ status: 'failed' });
+    }
+  };
+
+  /**
+   * 打診転送を開始（転送先へ打診通話を発信）
+   * 打診通話は空き回線で通常の発信と同じく行い、転送元を含む他の回線は保留する
+   * @param lineId - 転送元の回線のID
+   * @param target - 転送先の番号またはSIPアドレス
+   */
+  readonly startConsultation = async (lineId: string, target: string): Promise<void> => {
+    const userAgent = this.userAgent;
+    if (!userAgent || !this.sessions.has(lineId)) {
+      console.error('打診できません: 転送元の通話がありません');
+      return;
+    }
+
+    const targetUri = this.resolveTargetUri(userAgent, target, 'transfer');
+    const inviter = targetUri && await this.createOutgoingLine(userAgent, targetUri, target, 'transfer', false);
+    if (!inviter) {
+      return;
+    }
+    this.setState({
+      transferState: {
+        ...IDLE_TRANSFER_STATE,
+        status: 'consulting',
+        mode: 'attended',
+        target,
+        lineId,
+        consultLineId: inviter.id,
+      },
+    });
+    inviter.stateChange.addListener((state) => {
+      if (state === SessionState.Established && this.state.transferState.consultLineId === inviter.id) {
+        this.updateTransferState({ isConsultEstablished: true });
+      }
+    });
+    console.log('打診通話を発信します:', inviter.remoteIdentity.uri.toString());
+    await this.sendInvite(inviter, target, 'transfer');
+  };
+
+  /**
+   * 打診転送を実行（打診を開始した転送元の通話へ、打診通話を置き換えるREFERを送信）
+   */
+  readonly completeAttendedTransfer = async (): Promise<void> => {
+    const { lineId, consultLineId } = this.state.transferState;
+    const session = lineId === null ? undefined : this.sessions.get(lineId);
+    const consultSession = consultLineId === null ? undefined : this.sessions.get(consultLineId);
+    if (lineId === null || !session || consultSession?.state !== SessionState.Established) {
+      console.error('転送できません: 打診通話が確立していません');
+      return;
+    }
+
+    try {
+      this.updateTransferState({ status: 'referring' });
+      await session.refer(consultSession, this.createReferOptions(lineId));
+      console.log('REFER (Replaces) を送信しました');
+    }
+    catch (error) {
+      console.error('打診転送に失敗しました:', error);
+      this.updateTransferState({ status: 'failed' });
+    }
+  };
+
+  /**
+   * 打診を中止（打診通話を終了し、転送元の通話の保留を解除）
+   */
+  readonly cancelConsultation = async (): Promise<void> => {
+    const { status, lineId, consultLineId } = this.state.transferState;
+    if (status !== 'consulting') {
+      return;
+    }
+    this.setState({ transferState: IDLE_TRANSFER_STATE });
+    if (consultLineId !== null) {
+      await this.hangupCall(consultLineId);
+    }
+    if (lineId !== null && this.sessions.has(lineId)) {
+      await this.resumeCall(lineId);
+    }
+  };
+
+  /**
+   * 転送の状態をリセット（完了・失敗の表示を閉じる）
+   */
+  readonly resetTransfer = (): void => {
+    this.setState({ transferState: IDLE_TRANSFER_STATE });
+  };
+
+  /**
+   * 表示するチャットスレッドを変更し、未読を既読にする
+   * @param peerUri - 相手のAOR（nullの場合はスレッドを閉じる）
+   */
+  readonly openChatThread = (peerUri: string | null): void => {
+    this.setState({
+      activeChatPeerUri: peerUri,
+      chatThreads: peerUri
+        ? this.state.chatThreads.map(thread => (thread.peerUri === peerUri ? { ...thread, unreadCount: 0 } : thread))
+        : this.state.chatThreads,
+    });
+  };
+
+  /**
+   * SIP MESSAGEでメッセージを送信し、送信先のスレッドを表示する
+   * 送信したメッセージの状態は最終応答（2xx/4xx以上）で更新する
+   * @param target - 宛先の番号またはSIPアドレス
+   * @param body - 本文
+   */
+  readonly sendMessage = async (target: string, body: string): Promise<void> => {
+    const { userAgent } = this;
+    const targetUri = userAgent && UserAgent.makeURI(buildTargetUri(target, userAgent.configuration.uri.host));
+    if (!userAgent || !targetUri || !body.trim()) {
+      console.error('メッセージを送信できません: 接続または宛先が不正です');
+      return;
+    }
+
+    const peerUri = toPeerUri(targetUri.toString());
+    const message: ChatMessage = {
+      id: crypto.randomUUID(),
+      direction: 'outgoing',
+      body,
+      timestamp: Date.now(),
+      status: 'sending',
+      statusCode: null,
+    };
+    this.setState({
+      chatThreads: appendChatMessage(this.state.chatThreads, { peerUri, displayName: '' }, message, false),
+    });
+    this.openChatThread(peerUri);
+
+    /**
+     * 送信したメッセージの状態を更新
+     * @param update - 更新内容
+     */
+    const updateMessage = (update: Pick<ChatMessage, 'status' | 'statusCode'>): void => {
+      this.setState({ chatThreads: updateChatMessage(this.state.chatThreads, peerUri, message.id, update) });
+    };
+
+    try {
+      const messager = new Messager(userAgent, targetUri, body, 'text/plain');
+      await messager.message({
+        requestDelegate: {
+          onAccept: (response) => {
+            updateMessage({ status: 'delivered', statusCode: response.message.statusCode ?? null });
+          },
+          onReject: (response) => {
+            console.error('メッセージが拒否されました:', response.message.statusCode);
+            updateMessage({ status: 'failed', statusCode: response.message.statusCode ?? null });
+          },
+        },
+      });
+      console.log('メッセージを送信しました:', peerUri);
+    }
+    catch (error) {
+      console.error('メッセージの送信に失敗しました:', error);
+      updateMessage({ status: 'failed', statusCode: null });
+    }
+  };
+
+  /**
+   * チャットスレッドを削除
+   * @param peerUri - 相手のAOR
+   */
+  readonly deleteChatThread = (peerUri: string): void => {
+    this.setState({
+      chatThreads: this.state.chatThreads.filter(thread => thread.peerUri !== peerUri),
+      activeChatPeerUri: this.state.activeChatPeerUri === peerUri ? null : this.state.activeChatPeerUri,
+    });
+  };
+
+  /**
+   * 通話切断の通知を閉じる
+   */
+  readonly dismissCallDropped = (): void => {
+    this.setState({ isCallDropped: false });
+  };
+
+  /**
+   * 状態を更新し、購読者へ通知する
+   * 選択中の回線のメディアが変わった場合はactive-mediaイベントも発行する
+   * 登録状態が変わった場合は在席状態の購読を開始・終了する
+   * @param update - 更新する状態
+   */
+  private setState(update: Partial<PhoneState>): void {
+    this.state = { ...this.state, ...update };
+    this.emit('state', this.state);
+    this.notifyActiveMedia();
+    if (update.registrationState) {
+      this.syncPresence();
+    }
+  }
+
+  /**
+   * 選択中の回線のメディアが変わった場合にactive-mediaイベントを発行する
+   * 他の回線は保留中のためメディアはなく、会議中は全参加者の音声を合成したストリームを再生する
+   */
+  private notifyActiveMedia(): void {
+    const { activeLineId, lines } = this.state;
+    const activeLine = lines.find(line => line.id === activeLineId);
+    const mediaKey = activeLine
+      ? [activeLine.id, activeLine.status, activeLine.isVideo, activeLine.hasRemoteVideo, activeLine.isInConference, this.sessions.has(activeLine.id)].join(':')
+      : '';
+    if (mediaKey === this.activeMediaKey) {
+      return;
+    }
+    this.activeMediaKey = mediaKey;
+    const conferenceStream = activeLine?.isInConference ? this.conference?.bridge.localStream : undefined;
+    this.emit('active-media', activeLineId ? this.sessions.get(activeLineId) : undefined, conferenceStream);
+  }
+
+  /**
+   * 登録中は在席状態を購読し、登録の解除・失敗・接続断で購読を終了する
+   */
+  private syncPresence(): void {
+    const isRegistered = this.state.registrationState.status === 'registered';
+    if (isRegistered === this.isPresenceActive) {
+      return;
+    }
+    if (isRegistered) {
+      this.startPresence();
+    }
+    else {
+      this.stopPresence();
+    }
+  }
+
+  /**
+   * 設定したすべての内線の在席状態の購読を開始（購読中の場合は購読し直す）
+   * 購読の更新（期限の90%経過時のre-SUBSCRIBE）はsip.jsのSubscriberが自動で行い、
+   * 更新の失敗やサーバからの終了で購読が終わった場合は一定時間後に購読し直す
+   */
+  private startPresence(): void {
+    this.stopPresence();
+    const { userAgent } = this;
+    if (!userAgent) {
+      return;
+    }
+    this.isPresenceActive = true;
+
+    const { eventPackage, extensions } = this.presenceSettings;
+
+    /**
+     * 内線の購読を開始
+     * @param extension - 内線番号またはSIPアドレス
+     */
+    const subscribe = (extension: string): void => {
+      const targetUri = UserAgent.makeURI(buildTargetUri(extension, userAgent.configuration.uri.host));
+      if (!targetUri) {
+        console.error('在席状態を購読できません: 宛先が不正です', extension);
+        return;
+      }
+
+      const subscriber = new Subscriber(userAgent, targetUri, eventPackage, {
+        expires: PRESENCE_SUBSCRIBE_EXPIRES,
+        extraHeaders: [`Accept: ${PRESENCE_CONTENT_TYPES[eventPackage]}`],
+      });
+      const subscription: PresenceSubscription = { subscriber, resubscribeTimer: null };
+
+      subscriber.delegate = {
+        onNotify: (notification) => {
+          void notification.accept().catch((error: unknown) => {
+            console.error('NOTIFYへの応答に失敗しました:', error);
+          });
+          const state = parsePresenceNotify(eventPackage, notification.request.body);
+          if (state) {
+            this.setPresenceState(extension, state);
+          }
+        },
+      };
+
+      subscriber.stateChange.addListener((state: SubscriptionState) => {
+        // stopPresenceで購読を終了した場合は購読し直さない
+        if (state !== SubscriptionState.Terminated || this.presenceSubscriptions.get(extension) !== subscription) {
+          return;
+        }
+        this.setPresenceState(extension, 'unknown');
+        subscription.resubscribeTimer = setTimeout(() => {
+          if (this.presenceSubscriptions.get(extension) === subscription) {
+            subscribe(extension);
+          }
+        }, PRESENCE_RESUBSCRIBE_DELAY_MS);
+      });
+
+      this.presenceSubscriptions.set(extension, subscription);
+      subscriber.subscribe().catch((error: unknown) => {
+        console.error('在席状態の購読に失敗しました:', error);
+      });
+    };
+
+    extensions.forEach(subscribe);
+    console.log('在席状態の購読を開始しました:', extensions.length);
+  }
+
+  /**
+   * すべての在席状態の購読を終了
+   */
+  private stopPresence(): void {
+    this.isPresenceActive = false;
+    const subscriptions = [...this.presenceSubscriptions.values()];
+    this.presenceSubscriptions.clear();
+    for (const { subscriber, resubscribeTimer } of subscriptions) {
+      if (resubscribeTimer !== null) {
+        clearTimeout(resubscribeTimer);
+      }
+      subscriber.unsubscribe().catch((error: unknown) => {
+        console.error('在席状態の購読解除に失敗しました:', error);
+      });
+    }
+    this.setState({ presenceStates: {} });
+  }
+
+  /**
+   * 内線の在席状態を更新
+   * @param extension - 内線番号またはSIPアドレス
+   * @param state - 在席状態
+   */
+  private setPresenceState(extension: string, state: PresenceState): void {
+    this.setState({ presenceStates: { ...this.state.presenceStates, [extension]: state } });
+  }
+
+  /**
+   * 選択中の回線を変更
+   * @param lineId - 選択する回線のID（nullの場合は空き回線）
+   */
+  private activateLine(lineId: string | null): void {
+    this.setState({ activeLineId: lineId });
+  }
+
+  /**
+   * 転送の状態を更新
+   * @param update - 更新内容
+   */
+  private updateTransferState(update: Partial<TransferState>): void {
+    this.setState({ transferState: { ...this.state.transferState, ...update } });
+  }
+
+  /**
+   * 回線の表示状態を更新
+   * @param lineId - 回線のID
+   * @param update - 更新内容、または現在の回線から更新内容を求める関数
+   */
+  private updateLine(lineId: string, update: Partial<CallLine> | ((line: CallLine) => Partial<CallLine>)): void {
+    this.setState({
+      lines: this.state.lines.map(line => (
+        line.id === lineId
+          ? { ...line, ...(typeof update === 'function' ? update(line) : update) }
+          : line
+      )),
+    });
+  }
+
+  /**
+   * 回線の通話状態を遷移表に従って遷移させる
+   * 不正な遷移は無視し、遷移先が発信中・アーリーメディアの呼出中・着信中の場合は時間切れのタイマーを設定する
+   * @param lineId - 回線のID
+   * @param event - イベント
+   * @returns 遷移できた場合true（不正な遷移の場合false）
+   */
+  private transitionLine(lineId: string, event: CallEvent): boolean {
+    const status = this.lineStatuses.get(lineId);
+    const nextStatus = status && transitionCallStatus(status, event);
+    if (!status || !nextStatus) {
+      console.warn('不正な通話状態の遷移を無視しました:', status ?? 'idle', event);
+      return false;
+    }
+    if (nextStatus === status) {
+      return true;
+    }
+
+    this.lineStatuses.set(lineId, nextStatus);
+    clearTimeout(this.stateTimers.get(lineId));
+    this.stateTimers.delete(lineId);
+    const timeoutMs = CALL_STATE_TIMEOUTS_MS[nextStatus];
+    if (timeoutMs !== undefined) {
+      this.stateTimers.set(lineId, setTimeout(() => {
+        this.stateTimers.delete(lineId);
+        this.timeoutLine(lineId);
+      }, timeoutMs));
+    }
+    this.updateLine(lineId, { status: nextStatus });
+    return true;
+  }
+
+  /**
+   * 空いている最小の回線番号を取得
+   * @returns 回線番号（空きがない場合はnull）
+   */
+  private findFreeLineNumber(): number | null {
+    const usedNumbers = new Set(this.lineNumbers.values());
+    for (let lineNumber = 1; lineNumber <= LINE_COUNT; lineNumber++) {
+      if (!usedNumbers.has(lineNumber)) {
+        return lineNumber;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 通話記録を確定し、call-endedイベントを発行
+   * 同じ回線に対して複数回呼ばれても最初の1回だけ記録する
+   * @param lineId - 回線のID
+   */
+  private finishCallRecord(lineId: string): void {
+    const record = this.callRecords.get(lineId);
+    if (!record) {
+      return;
+    }
+    this.callRecords.delete(lineId);
+
+    const endedAt = Date.now();
+    let endReason: CallHistoryEntry['endReason'];
+    if (record.dropped) {
+      endReason = 'dropped';
+    }
+    else if (record.answeredAt !== null) {
+      endReason = 'answered';
+    }
+    else if (record.forwarded) {
+      endReason = 'forwarded';
+    }
+    else if (record.rejected) {
+      endReason = 'rejected';
+    }
+    else {
+      endReason = record.direction === 'incoming' ? 'missed' : 'failed';
+    }
+
+    this.emit('call-ended', {
+      id: crypto.randomUUID(),
+      direction: record.direction,
+      remoteIdentity: record.remoteIdentity,
+      startedAt: record.startedAt,
+      answeredAt: record.answeredAt,
+      endedAt,
+      duration: record.answeredAt === null ? 0 : Math.round((endedAt - record.answeredAt) / 1000),
+      endReason,
+    }, lineId);
+  }
+
+  /**
+   * 保留・ミュート・カメラの状態に合わせて回線のトラックを有効化または無効化
+   * 会議中の回線は合成した音声トラックを送信しているため、ミュートはブリッジで行う
+   * @param lineId - 回線のID
+   */
+  private applyLineTracks(lineId: string): void {
+    const session = this.sessions.get(lineId);
+    if (!session) {
+      return;
+    }
+    const isHeld = this.heldLineIds.has(lineId);
+    const isMuted = this.mutedLineIds.has(lineId);
+    const conference = this.conference;
+    const isInConference = conference?.lineIds.includes(lineId) ?? false;
+    if (conference && isInConference) {
+      conference.bridge.setMuted(isMuted);
+    }
+    setSessionTracksEnabled(session, {
+      audio: !isHeld && (isInConference || !isMuted),
+      video: !isHeld && !this.cameraOffLineIds.has(lineId),
+      receiver: !isHeld,
+    });
+  }
+
+  /**
+   * 会議を終了し、各回線の送信トラックを元のマイクへ戻す
+   * 回線は通話中のまま残る（保留は呼び出し側で行う）
+   */
+  private async closeConference(): Promise<void> {
+    const conference = this.conference;
+    if (!conference) {
+      return;
+    }
+    this.conference = null;
+    await conference.bridge.close();
+    for (const lineId of conference.lineIds) {
+      this.applyLineTracks(lineId);
+      this.updateLine(lineId, { isInConference: false });
+      this.emit('sender-track', lineId);
+    }
+    console.log('会議を終了しました');
+  }
+
+  /**
+   * 終了した回線を解放
+   * 終了した通話の状態を表示するため、回線は一定時間残してから空き回線に戻す
+   * 同じ回線に対して複数回呼ばれても最初の1回だけ処理する
+   * @param lineId - 回線のID
+   */
+  private releaseLine(lineId: string): void {
+    if (!this.sessions.has(lineId)) {
+      return;
+    }
+    this.transitionLine(lineId, 'terminated');
+    this.clearPolicyTimers(lineId);
+    this.finishCallRecord(lineId);
+    // 打診中に転送元または打診通話が終了した場合は打診をやめ、残った通話は通常の通話として続ける
+    const { transferState } = this.state;
+    if (transferState.status === 'consulting' && (transferState.lineId === lineId || transferState.consultLineId === lineId)) {
+      this.setState({ transferState: IDLE_TRANSFER_STATE });
+    }
+    // 会議の参加者が終了した場合は会議を終了し、残った相手との通話を選択する
+    const conference = this.conference;
+    let partnerLineId: string | null = null;
+    if (conference?.lineIds.includes(lineId)) {
+      partnerLineId = conference.lineIds.find(candidate => candidate !== lineId && this.sessions.has(candidate)) ?? null;
+      void this.closeConference().catch((error: unknown) => {
+        console.error('会議の終了に失敗しました:', error);
+      });
+    }
+    this.sessions.delete(lineId);
+    this.heldLineIds.delete(lineId);
+    this.mutedLineIds.delete(lineId);
+    this.cameraOffLineIds.delete(lineId);
+    if (partnerLineId && this.state.activeLineId === lineId) {
+      this.activateLine(partnerLineId);
+    }
+    // 終了した回線を選択したままの場合はメディアを解除する
+    this.notifyActiveMedia();
+    setTimeout(() => {
+      this.lineNumbers.delete(lineId);
+      this.lineStatuses.delete(lineId);
+      this.setState({ lines: this.state.lines.filter(line => line.id !== lineId) });
+      if (this.state.activeLineId === lineId) {
+        this.activateLine(null);
+      }
+    }, ENDED_CALL_DISPLAY_MS);
+  }
+
+  /**
+   * 発信中・アーリーメディアの呼出中・着信中のまま時間切れになった回線を終了
+   * 発信はCANCELで取り消し、着信は480 Temporarily Unavailableで拒否する
+   * @param lineId - 回線のID
+   */
+  private timeoutLine(lineId: string): void {
+    const session = this.sessions.get(lineId);
+    const record = this.callRecords.get(lineId);
+    if (!session || !this.transitionLine(lineId, 'timeout')) {
+      return;
+    }
+
+    console.warn('応答がないため通話を終了します:', lineId);
+    const terminate = async (): Promise<void> => {
+      if (session instanceof Inviter) {
+        if (record) {
+          record.cancelled = true;
+        }
+        this.emit('error', createSipError('call', { kind: 'timeout' }, record?.remoteIdentity.uri));
+        await session.cancel();
+      }
+      else if (session instanceof Invitation) {
+        await session.reject({ statusCode: 480 });
+      }
+    };
+    void terminate().catch((error: unknown) => {
+      console.error('時間切れの通話の終了に失敗しました:', error);
+      this.releaseLine(lineId);
+    });
+  }
+
+  /**
+   * セッションを空き回線へ割り当てる
+   * @param session - InviterまたはInvitation
+   * @param direction - 通話方向
+   * @param event - 通話を開始するイベント（発信または着信）
+   * @param identity - 通話相手
+   * @param media - 映像の送信有無と相手の映像の有無
+   * @param media.isVideo - 映像を送信する場合true
+   * @param media.hasRemoteVideo - 相手のSDPに映像が含まれる場合true
+   * @returns 割り当てた場合true（空き回線がない場合false）
+   */
+  private assignLine(
+    session: Session,
+    direction: CallDirection,
+    event: Extract<CallEvent, 'dial' | 'incoming'>,
+    identity: RemoteIdentity,
+    media: { isVideo: boolean; hasRemoteVideo: boolean },
+  ): boolean {
+    const lineNumber = this.findFreeLineNumber();
+    if (lineNumber === null) {
+      return false;
+    }
+
+    const lineId = session.id;
+    this.sessions.set(lineId, session);
+    this.lineNumbers.set(lineId, lineNumber);
+    this.lineStatuses.set(lineId, 'idle');
+    this.callRecords.set(lineId, {
+      direction,
+      remoteIdentity: identity,
+      startedAt: Date.now(),
+      answeredAt: null,
+      rejected: false,
+      forwarded: false,
+      dropped: false,
+      cancelled: false,
+      policyTimers: [],
+    });
+    const line: CallLine = {
+      id: lineId,
+      lineNumber,
+      direction,
+      status: 'idle',
+      remoteIdentity: identity,
+      isMuted: false,
+      isVideo: media.isVideo,
+      isCameraOn: media.isVideo,
+      hasRemoteVideo: media.hasRemoteVideo,
+      isHeldByRemote: false,
+      isIncomingCallIgnored: false,
+      isInConference: false,
+      sentDtmfDigits: '',
+    };
+    this.setState({ lines: [...this.state.lines, line].sort((a, b) => a.lineNumber - b.lineNumber) });
+    this.transitionLine(lineId, event);
+
+    session.stateChange.addListener((state) => {
+      switch (state) {
+        case SessionState.Established: {
+          const record = this.callRecords.get(lineId);
+          if (record && record.answeredAt === null) {
+            record.answeredAt = Date.now();
+          }
+          this.transitionLine(lineId, 'established');
+          break;
+        }
+        case SessionState.Terminated:
+          // sip.jsは失敗の最終応答の通知や発信・応答のPromiseの拒否より先にセッションを終了するため、
+          // それらで終了の理由（失敗・拒否）が確定してから回線を解放する
+          setTimeout(() => {
+            this.releaseLine(lineId);
+          }, 0);
+          break;
+        case SessionState.Terminating:
+          this.transitionLine(lineId, 'terminating');
+          break;
+        default:
+          break;
+      }
+    });
+
+    // 相手からのre-INVITEによる保留/保留解除と映像の追加/削除を検出する
+    session.delegate = {
+      ...session.delegate,
+      onInvite: (request, _response, statusCode) => {
+        if (statusCode === 200) {
+          this.updateLine(lineId, {
+            isHeldByRemote: isHoldSdp(request.body),
+            hasRemoteVideo: hasVideoSdp(request.body),
+          });
+        }
+      },
+    };
+    return true;
+  }
+
+  /**
+   * 回線を保留または保留解除（re-INVITEを送信し、応答を待つ）
+   * @param lineId - 回線のID
+   * @param hold - 保留する場合true
+   */
+  private async setLineHold(lineId: string, hold: boolean): Promise<void> {
+    const session = this.sessions.get(lineId);
+    if (session?.state !== SessionState.Established || this.heldLineIds.has(lineId) === hold) {
+      return;
+    }
+
+    // 会議中の回線を保留する場合は先に会議を終了する
+    if (hold && this.conference?.lineIds.includes(lineId)) {
+      await this.closeConference();
+    }
+    await reinviteSession(session, { hold });
+    if (hold) {
+      this.heldLineIds.add(lineId);
+    }
+    else {
+      this.heldLineIds.delete(lineId);
+    }
+    this.applyLineTracks(lineId);
+    this.transitionLine(lineId, hold ? 'hold' : 'resume');
+  }
+
+  /**
+   * 指定した回線以外の通話中の回線をすべて保留
+   * 指定した回線が会議中の場合、同じ会議の回線は保留しない
+   * @param exceptLineId - 保留しない回線のID（nullの場合はすべて保留）
+   */
+  private async holdOtherLines(exceptLineId: string | null): Promise<void> {
+    const conferenceLineIds = this.conference?.lineIds ?? [];
+    const keepLineIds = exceptLineId !== null && conferenceLineIds.includes(exceptLineId)
+      ? conferenceLineIds
+      : [exceptLineId];
+    const lineIds = [...this.sessions.keys()].filter(lineId => !keepLineIds.includes(lineId));
+    await Promise.all(lineIds.map(lineId => this.setLineHold(lineId, true).catch((error: unknown) => {
+      console.error('回線の自動保留に失敗しました:', error);
+    })));
+  }
+
+  /**
+   * 発信先にダイアルプランを適用してSIP URIを作成
+   * 発信が禁止されている場合や発信先が不正な場合は、失敗を通知する
+   * @param userAgent - UserAgentインスタンス
+   * @param target - 発信先の番号またはSIPアドレス
+   * @param operation - 失敗した場合に通知する操作（発信・転送）
+   * @returns SIP URI（作成できない場合はnull）
+   */
+  private resolveTargetUri(userAgent: UserAgent, target: string, operation: SipErrorOperation): null | URI {
+    const label = SIP_ERROR_OPERATION_LABELS[operation];
+    const dialPlanResult = applyDialPlan(this.dialPlan, target, userAgent.configuration.uri.host);
+    if (dialPlanResult.blockedBy) {
+      console.error(`${label}できません: ダイアルプランで発信が禁止されています`, target);
+      this.emit('error', createSipError(operation, { kind: 'blocked' }, target));
+      return null;
+    }
+    const targetUri = dialPlanResult.targetUri ? UserAgent.makeURI(dialPlanResult.targetUri) : undefined;
+    if (!targetUri) {
+      console.error(`${label}できません: ${label}先のURIが不正です`, target);
+      this.emit('error', createSipError(operation, { kind: 'invalid-target' }, target));
+      return null;
+    }
+    return targetUri;
+  }
+
+  /**
+   * 空き回線に発信する通話を割り当てる（他の回線は保留し、発信する回線を選択する）
+   * 通常の発信と打診通話で共通に使用し、選択したマイクで発信する
+   * @param userAgent - UserAgentインスタンス
+   * @param targetUri - 発信先のSIP URI
+   * @param target - 入力された発信先（失敗の通知に使用）
+   * @param operation - 失敗した場合に通知する操作（発信・転送）
+   * @param video - ビデオ通話として発信する場合true
+   * @returns 発信するセッション（空き回線がない場合はnull）
+   */
+  private async createOutgoingLine(
+    userAgent: UserAgent,
+    targetUri: URI,
+    target: string,
+    operation: SipErrorOperation,
+    video: boolean,
+  ): Promise<Inviter | null> {
+    if (this.findFreeLineNumber() === null) {
+      console.error(`${SIP_ERROR_OPERATION_LABELS[operation]}できません: 空き回線がありません`);
+      this.emit('error', createSipError(operation, { kind: 'no-free-line' }, target));
+      return null;
+    }
+
+    await this.holdOtherLines(null);
+
+    const inviter = new Inviter(userAgent, targetUri, {
+      earlyMedia: true,
+      sessionDescriptionHandlerOptions: { constraints: getMediaConstraints(video, this.audioInputId) },
+    });
+    this.assignLine(
+      inviter,
+      'outgoing',
+      'dial',
+      { displayName: '', uri: targetUri.toString() },
+      { isVideo: video, hasRemoteVideo: false },
+    );
+    this.activateLine(inviter.id);
+    this.setState({ isCallDropped: false });
+    return inviter;
+  }
+
+  /**
+   * 回線を割り当てた通話のINVITEを送信
+   * @param inviter - 発信するセッション
+   * @param target - 入力された発信先（失敗の通知に使用）
+   * @param operation - 失敗した場合に通知する操作（発信・転送）
+   */
+  private async sendInvite(inviter: Inviter, target: string, operation: SipErrorOperation): Promise<void> {
+    try {
+      await inviter.invite({
+        requestDelegate: {
+          onAccept: (response) => {
+            this.updateLine(inviter.id, { hasRemoteVideo: hasVideoSdp(response.message.body) });
+          },
+          // SDPを含む暫定応答（183 Session Progressなど）はアーリーメディアとして再生する
+          onProgress: (response) => {
+            if (response.message.body) {
+              this.transitionLine(inviter.id, 'early-media');
+            }
+          },
+          // 最終応答で失敗した理由を通知する（自分で取り消した場合の487は除く）
+          onReject: (response) => {
+            const { statusCode, reasonPhrase } = response.message;
+            console.error('発信が失敗しました:', statusCode, reasonPhrase);
+            if (statusCode === 487 && this.callRecords.get(inviter.id)?.cancelled) {
+              return;
+            }
+            this.transitionLine(inviter.id, 'reject');
+            this.emit('error', createSipError(operation, { statusCode, reasonPhrase }, target));
+          },
+        },
+      });
+    }
+    catch (error) {
+      console.error('発信に失敗しました:', error);
+      this.emit('error', createSipError(operation, { error }, target));
+      this.transitionLine(inviter.id, 'fail');
+      this.releaseLine(inviter.id);
+    }
+  }
+
+  /**
+   * 転送のREFERのオプションを作成
+   * NOTIFYで2xxを受信したら転送完了として、転送元の通話と打診通話を終了する
+   * @param lineId - 転送元の回線のID
+   * @returns REFERオプション
+   */
+  private createReferOptions(lineId: string): SessionReferOptions {
+    return {
+      requestDelegate: {
+        onAccept: () => {
+          this.updateTransferState({ status: 'trying' });
+        },
+        onReject: (response) => {
+          console.error('REFERが拒否されました:', response.message.statusCode);
+          this.updateTransferState({
+            status: 'failed',
+            statusCode: response.message.statusCode ?? null,
+            reasonPhrase: response.message.reasonPhrase ?? '',
+          });
+        },
+      },
+      onNotify: (notification) => {
+        void notification.accept();
+        const sipfrag = parseSipfrag(notification.request.body);
+        if (!sipfrag) {
+          return;
+        }
+
+        if (sipfrag.statusCode < 200) {
+          this.updateTransferState({ status: 'trying', ...sipfrag });
+          return;
+        }
+        if (sipfrag.statusCode < 300) {
+          this.updateTransferState({ status: 'completed', ...sipfrag });
+          console.log('転送が完了しました');
+          // 転送先が打診通話を置き換えて終了している場合もあるため、通話中の回線のみ終了する
+          const { consultLineId } = this.state.transferState;
+          for (const endedLineId of [consultLineId, lineId]) {
+            if (endedLineId !== null && this.sessions.get(endedLineId)?.state === SessionState.Established) {
+              void this.hangupCall(endedLineId);
+            }
+          }
+          return;
+        }
+        console.error('転送に失敗しました:', sipfrag.statusCode);
+        this.updateTransferState({ status: 'failed', ...sipfrag });
+      },
+    };
+  }
+
+  /**
+   * 着信を302 Moved Temporarilyで転送先へリダイレクト
+   * 転送先にはダイアルプランを適用する
+   * @param invitation - 応答していない着信
+   * @param target - 転送先の番号またはSIPアドレス
+   * @returns リダイレクトした場合true
+   */
+  private async forwardInvitation(invitation: Invitation, target: string): Promise<boolean> {
+    const { targetUri } = applyDialPlan(this.dialPlan, target, invitation.userAgent.configuration.uri.host);
+    if (!targetUri) {
+      console.error('着信を転送できません: 転送先が不正か、ダイアルプランで禁止されています', target);
+      return false;
+    }
+
+    try {
+      await invitation.reject({ statusCode: 302, extraHeaders: [`Contact: <${targetUri}>`] });
+      console.log('着信を転送しました:', targetUri);
+      return true;
+    }
+    catch (error) {
+      console.error('着信の転送に失敗しました:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 着信処理（UserAgentのデリゲート）
+   * 着信時の処理の設定に従って鳴動・拒否・転送し、空き回線がない場合は486 Busy Hereで拒否する
+   * @param invitation - 着信
+   */
+  private readonly handleInvite = (invitation: Invitation): void => {
+    const identity = getRemoteIdentity(invitation);
+    const decision = decideIncomingCall(this.callPolicy, {
+      uri: identity.uri,
+      intercomHeaders: [...invitation.request.getHeaders('Alert-Info'), ...invitation.request.getHeaders('Call-Info')],
+      hasOtherCall: this.sessions.size > 0,
+    });
+
+    // おやすみモードとすべての着信の転送では回線を割り当てずに応答し、通話履歴にのみ記録する
+    if (decision.action !== 'ring') {
+      const record: ActiveCallRecord = {
+        direction: 'incoming',
+        remoteIdentity: identity,
+        startedAt: Date.now(),
+        answeredAt: null,
+        rejected: decision.action === 'reject',
+        forwarded: decision.action === 'forward',
+        dropped: false,
+        cancelled: false,
+        policyTimers: [],
+      };
+      this.callRecords.set(invitation.id, record);
+
+      const applyDecision = async (): Promise<void> => {
+        if (decision.action === 'reject') {
+          await invitation.reject({ statusCode: decision.statusCode });
+          return;
+        }
+        if (!await this.forwardInvitation(invitation, decision.target)) {
+          // 転送できない場合は不在として拒否する
+          record.forwarded = false;
+          await invitation.reject({ statusCode: 480 });
+        }
+      };
+      void applyDecision()
+        .catch((error: unknown) => {
+          console.error('着信時の処理に失敗しました:', error);
+        })
+        .finally(() => {
+          this.finishCallRecord(invitation.id);
+        });
+      console.log('着信時の処理を適用しました:', decision.action);
+      return;
+    }
+
+    const media = { isVideo: false, hasRemoteVideo: hasVideoSdp(invitation.body) };
+    if (!this.assignLine(invitation, 'incoming', 'incoming', identity, media)) {
+      console.warn('空き回線がないため着信を拒否します');
+      void invitation.reject({ statusCode: 486 }).catch((error: unknown) => {
+        console.error('着信拒否に失敗しました:', error);
+      });
+      return;
+    }
+    console.log('着信を受信しました');
+    this.setState({ isCallDropped: false });
+
+    // 応答していない間に時間が経過した場合のみ自動応答・転送する
+    // タイマーは通話の記録に保持し、応答・終了した時点で解除する
+    const record = this.callRecords.get(invitation.id);
+    if (!record) {
+      return;
+    }
+    if (decision.autoAnswerAfterMs !== null) {
+      record.policyTimers.push(setTimeout(() => {
+        console.log('着信に自動応答します');
+        void this.answerCall(invitation.id);
+      }, decision.autoAnswerAfterMs));
+    }
+    if (decision.forwardAfterMs !== null) {
+      record.policyTimers.push(setTimeout(() => {
+        if (invitation.state !== SessionState.Initial) {
+          return;
+        }
+        this.clearPolicyTimers(invitation.id);
+        record.forwarded = true;
+        void this.forwardInvitation(invitation, this.callPolicy.forwardTarget).then((isForwarded) => {
+          if (!isForwarded) {
+            record.forwarded = false;
+          }
+        });
+      }, decision.forwardAfterMs));
+    }
+  };
+
+  /**
+   * メッセージの受信処理（UserAgentのデリゲート）
+   * 相手（AOR）のスレッドへ追加し、表示中のスレッド以外で受信したメッセージは未読として数える
+   * @param incomingMessage - 受信したMESSAGE
+   */
+  private readonly handleMessage = (incomingMessage: Message): void => {
+    const { body, from } = incomingMessage.request;
+    void incomingMessage.accept().catch((error: unknown) => {
+      console.error('メッセージへの応答に失敗しました:', error);
+    });
+
+    const peerUri = toPeerUri(from.uri.toString());
+    const message: ChatMessage = {
+      id: crypto.randomUUID(),
+      direction: 'incoming',
+      body,
+      timestamp: Date.now(),
+      status: 'received',
+      statusCode: null,
+    };
+    const isUnread = this.state.activeChatPeerUri !== peerUri;
+    this.setState({
+      chatThreads: appendChatMessage(this.state.chatThreads, { peerUri, displayName: from.displayName }, message, isUnread),
+    });
+    this.emit('message', peerUri, message);
+    console.log('メッセージを受信しました:', peerUri);
+  };
+
+  /**
+   * 着信の自動応答・無応答転送のタイマーを解除
+   * @param lineId - 回線のID
+   */
+  private clearPolicyTimers(lineId: string): void {
+    const record = this.callRecords.get(lineId);
+    if (!record) {
+      return;
+    }
+    for (const timer of record.policyTimers) {
+      clearTimeout(timer);
+    }
+    record.policyTimers = [];
+  }
+
+  /**
+   * サーバとの接続断により通話が失われたことを記録
+   * すべての回線を切断済みとして記録し、セッションを破棄する
+   */
+  private markCallDropped(): void {
+    const sessions = [...this.sessions.entries()];
+    if (sessions.length === 0) {
+      return;
+    }
+
+    for (const [lineId, session] of sessions) {
+      const record = this.callRecords.get(lineId);
+      if (record) {
+        record.dropped = true;
+      }
+      this.transitionLine(lineId, 'fail');
+      this.releaseLine(lineId);
+      void session.dispose().catch((error: unknown) => {
+        console.error('セッションの破棄に失敗しました:', error);
+      });
+    }
+    this.setState({ isCallDropped: true });
+    console.warn('接続断により通話が切断されました');
+  }
+
+  /**
+   * 現在のUserAgentを停止
+   * 接続し直す場合と接続に失敗した場合に使用するため、停止の失敗は通知しない
+   */
+  private async stopUserAgent(): Promise<void> {
+    const userAgent = this.userAgent;
+    if (!userAgent) {
+      return;
+    }
+    this.userAgent = null;
+    try {
+      await userAgent.stop();
+    }
+    catch (error) {
+      console.error('UserAgentの停止に失敗しました:', error);
+    }
+  }
+
+  /**
+   * 現在のRegistererを破棄
+   * 接続断後は送信できないため、登録解除の成否は問わない
+   */
+  private disposeRegisterer(): void {
+    const registerer = this.registerer;
+    if (!registerer) {
+      return;
+    }
+    this.registerer = null;
+    void registerer.dispose().catch((error: unknown) => {
+      console.error('Registererの破棄に失敗しました:', error);
+    });
+  }
+
+  /**
+   * 接続断で登録が失われた場合に状態を更新
+   * 再接続後に再登録するため、登録中として扱う
+   */
+  private resetRegistration(): void {
+    this.disposeRegisterer();
+    if (this.state.registrationState.status !== 'unregistered') {
+      this.setState({ registrationState: { ...UNREGISTERED_STATE, status: 'registering' } });
+    }
+  }
+
+  /**
+   * 予約済みの再接続タイマーを解除
+   */
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * 再接続状態をリセット
+   */
+  private resetReconnectState(): void {
+    this.clearReconnectTimer();
+    this.isReconnecting = false;
+    this.isTransportLost = false;
+    this.setState({ reconnectAttempt: 0, nextRetryAt: null });
+  }
+
+  /**
+   * 再接続を1回試行
+   * 再接続できた場合、登録していれば同じ有効期限で再登録する
+   * @returns 再接続に成功した場合、または再接続が不要になった場合true
+   */
+  private async attemptReconnect(): Promise<boolean> {
+    const userAgent = this.userAgent;
+    if (!userAgent || !this.shouldBeConnected) {
+      return true;
+    }
+
+    try {
+      this.setState({ nextRetryAt: null });
+      this.isReconnectAttemptInProgress = true;
+      await userAgent.reconnect();
+      this.completeReconnect();
+      return true;
+    }
+    catch (error) {
+      console.error('SIP再接続に失敗しました:', error);
+      return false;
+    }
+    finally {
+      this.isReconnectAttemptInProgress = false;
+    }
+  }
+
+  /**
+   * 再接続の完了を処理
+   * 接続断で登録が失われているため、登録していた場合は同じ有効期限で再登録する
+   */
+  private completeReconnect(): void {
+    this.resetReconnectState();
+    this.setState({ connectionStatus: 'connected' });
+    console.log('SIP再接続が完了しました');
+    this.emit('reconnected');
+    if (this.registerExpires !== null) {
+      void this.register(this.registerExpires);
+    }
+  }
+
+  /**
+   * 接続が失われたことを処理（オフラインへの変化と接続断のうち、先に起きた方で1回だけ行う）
+   * 通話は切断済みとして終了し、登録は再接続後にやり直す
+   */
+  private handleTransportLost(): void {
+    if (this.isTransportLost) {
+      return;
+    }
+    this.isTransportLost = true;
+    this.markCallDropped();
+    this.resetRegistration();
+    this.emit('transport-lost');
+  }
+
+  /**
+   * 次の再接続を予約
+   * オフライン中は予約せず、onlineイベントを待つ
+   */
+  private scheduleReconnect(): void {
+    this.clearReconnectTimer();
+    if (!this.userAgent || !this.shouldBeConnected) {
+      return;
+    }
+
+    this.isReconnecting = true;
+    this.setState({ connectionStatus: 'reconnecting' });
+
+    if (!navigator.onLine) {
+      this.setState({ nextRetryAt: null });
+      console.log('オフラインのため、ネットワーク復帰後に再接続します');
+      return;
+    }
+
+    const attempt = this.state.reconnectAttempt + 1;
+    if (attempt > RECONNECT_MAX_ATTEMPTS) {
+      this.shouldBeConnected = false;
+      this.resetReconnectState();
+      this.setState({ connectionStatus: 'error' });
+      console.error('再接続の試行回数が上限に達しました');
+      return;
+    }
+
+    const delay = computeReconnectDelay(attempt);
+    this.setState({ reconnectAttempt: attempt, nextRetryAt: Date.now() + delay });
+    console.log(`${String(delay)}ms後に再接続します（${String(attempt)}回目）`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.attemptReconnect().then((succeeded) => {
+        if (!succeeded) {
+          this.scheduleReconnect();
+        }
+      });
+    }, delay);
+  }
+
+  /**
+   * サーバとの接続断を処理（UserAgentのデリゲート）
+   * 通話は切断済みとして終了し、登録は再接続後にやり直す
+   * @param error - 接続断の原因（ユーザ操作による切断の場合はundefined）
+   */
+  private readonly handleServerDisconnect = (error?: Error): void => {
+    if (!this.shouldBeConnected) {
+      return;
+    }
+    // 再接続の試行中の失敗はattemptReconnect側で扱う
+    // オフラインで再接続を待機している間の接続断は、通話と登録の後始末のため処理する
+    if (this.isReconnectAttemptInProgress) {
+      return;
+    }
+
+    console.warn('SIPサーバとの接続が失われました:', error);
+    this.handleTransportLost();
+    this.scheduleReconnect();
+  };
+
+  /**
+   * ブラウザのオンライン/オフライン状態の変化への追従を開始または停止
+   * @param enabled - 追従する場合true
+   */
+  private watchNetwork(enabled: boolean): void {
+    if (this.isNetworkWatched === enabled) {
+      return;
+    }
+    this.isNetworkWatched = enabled;
+    if (enabled) {
+      window.addEventListener('offline', this.handleOffline);
+      window.addEventListener('online', this.handleOnline);
+    }
+    else {
+      window.removeEventListener('offline', this.handleOffline);
+      window.removeEventListener('online', this.handleOnline);
+    }
+  }
+
+  /**
+   * ネットワークがオフラインになった場合は再接続を待機する
+   * WebSocketの切断より先に通知されることが多いため、この時点で接続が失われたものとして扱う
+   */
+  private readonly handleOffline = (): void => {
+    if (!this.shouldBeConnected || !this.userAgent) {
+      return;
+    }
+    console.log('ネットワークがオフラインになりました');
+    this.clearReconnectTimer();
+    this.isReconnecting = true;
+    this.handleTransportLost();
+    this.setState({ connectionStatus: 'reconnecting', nextRetryAt: null });
+  };
+
+  /**
+   * ネットワークが復帰した場合はすぐに再接続する
+   */
+  private readonly handleOnline = (): void => {
+    const userAgent = this.userAgent;
+    if (!this.shouldBeConnected || !userAgent || !this.isReconnecting) {
+      return;
+    }
+    console.log('ネットワークが復帰しました');
+    // WebSocketが切断されずに残っていた場合も、オフラインで失った登録をやり直す
+    if (userAgent.isConnected()) {
+      this.completeReconnect();
+      return;
+    }
+    this.clearReconnectTimer();
+    this.setState({ reconnectAttempt: 0 });
+    void this.attemptReconnect().then((succeeded) => {
+      if (!succeeded) {
+        this.scheduleReconnect();
+      }
+    });
+  };
+}
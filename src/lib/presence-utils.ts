@@ -0,0 +1,174 @@
+import type { PresenceEventPackage, PresenceSettings, PresenceState } from '@/@types/sip.types';
+
+/**
+ * 在席状態の購読設定を保存するlocalStorageのキー
+ */
+const PRESENCE_SETTINGS_STORAGE_KEY = 'sipjs-example:presence';
+
+/**
+ * 購読設定の初期値
+ */
+export const DEFAULT_PRESENCE_SETTINGS: PresenceSettings = {
+  eventPackage: 'dialog',
+  extensions: [],
+};
+
+/**
+ * SUBSCRIBEで要求する購読期間（秒）
+ */
+export const PRESENCE_SUBSCRIBE_EXPIRES = 600;
+
+/**
+ * 購読が終了した場合に再購読するまでの待ち時間（ミリ秒）
+ */
+export const PRESENCE_RESUBSCRIBE_DELAY_MS = 30000;
+
+/**
+ * イベントパッケージごとのNOTIFY本文のContent-Type
+ */
+export const PRESENCE_CONTENT_TYPES: Record<PresenceEventPackage, string> = {
+  dialog: 'application/dialog-info+xml',
+  presence: 'application/pidf+xml',
+};
+
+/**
+ * localStorageから在席状態の購読設定を読み込む
+ * @returns 購読設定。読み込めない場合は初期値
+ */
+export const loadPresenceSettings = (): PresenceSettings => {
+  try {
+    const raw = localStorage.getItem(PRESENCE_SETTINGS_STORAGE_KEY);
+    if (!raw) {
+      return DEFAULT_PRESENCE_SETTINGS;
+    }
+    return { ...DEFAULT_PRESENCE_SETTINGS, ...(JSON.parse(raw) as Partial<PresenceSettings>) };
+  }
+  catch (error) {
+    console.error('在席状態の設定の読み込みに失敗しました:', error);
+    return DEFAULT_PRESENCE_SETTINGS;
+  }
+};
+
+/**
+ * 在席状態の購読設定をlocalStorageへ保存する
+ * @param settings - 購読設定
+ */
+export const savePresenceSettings = (settings: PresenceSettings): void => {
+  try {
+    localStorage.setItem(PRESENCE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  }
+  catch (error) {
+    console.error('在席状態の設定の保存に失敗しました:', error);
+  }
+};
+
+/**
+ * XML文字列を解析する
+ * @param xml - XML文字列
+ * @returns 解析したドキュメント（XMLとして不正な場合はnull）
+ */
+const parseXml = (xml: string): Document | null => {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  return document.getElementsByTagName('parsererror').length > 0 ? null : document;
+};
+
+/**
+ * 名前空間に関係なく要素をローカル名で取得する
+ * @param parent - 検索する要素またはドキュメント
+ * @param localName - 要素のローカル名
+ * @returns 一致した要素
+ */
+const getElements = (parent: Document | Element, localName: string): Element[] => {
+  return Array.from(parent.getElementsByTagNameNS('*', localName));
+};
+
+/**
+ * dialog-info+xml（RFC 4235）の本文から内線の状態を判定する
+ * 確立済みのダイアログがあれば通話中、着信側の早期ダイアログがあれば呼出中、
+ * 発信側の早期ダイアログは発信中のため通話中として扱う
+ * 部分通知（state="partial"）も全体通知として扱う
+ * @param xml - NOTIFYの本文
+ * @returns 内線の状態（解析できない場合はnull）
+ */
+export const parseDialogInfo = (xml: string): PresenceState | null => {
+  const document = parseXml(xml);
+  if (!document || getElements(document, 'dialog-info').length === 0) {
+    return null;
+  }
+
+  const dialogs = getElements(document, 'dialog').map(dialog => ({
+    direction: dialog.getAttribute('direction'),
+    state: dialog.getElementsByTagNameNS('*', 'state').item(0)?.textContent?.trim().toLowerCase() ?? '',
+  })).filter(dialog => dialog.state !== '' && dialog.state !== 'terminated');
+
+  if (dialogs.some(dialog => dialog.state === 'confirmed' || dialog.direction !== 'recipient')) {
+    return 'busy';
+  }
+  return dialogs.length > 0 ? 'ringing' : 'idle';
+};
+
+/**
+ * PIDF（RFC 3863）の本文から内線の状態を判定する
+ * RPIDの活動（on-the-phone/busy）や注記（Asteriskなどが送る "Ringing"/"On the phone"）を
+ * 基本状態（open/closed）より優先する
+ * @param xml - NOTIFYの本文
+ * @returns 内線の状態（解析できない場合はnull）
+ */
+export const parsePidf = (xml: string): PresenceState | null => {
+  const document = parseXml(xml);
+  if (!document || getElements(document, 'presence').length === 0) {
+    return null;
+  }
+
+  const notes = getElements(document, 'note').map(note => note.textContent?.toLowerCase() ?? '');
+  if (notes.some(note => note.includes('ringing'))) {
+    return 'ringing';
+  }
+  const isBusy = getElements(document, 'on-the-phone').length > 0
+    || getElements(document, 'busy').length > 0
+    || notes.some(note => note.includes('on the phone') || note.includes('busy'));
+  if (isBusy) {
+    return 'busy';
+  }
+
+  const basics = getElements(document, 'basic').map(basic => basic.textContent?.trim().toLowerCase());
+  if (basics.includes('open')) {
+    return 'idle';
+  }
+  return basics.includes('closed') ? 'offline' : 'unknown';
+};
+
+/**
+ * NOTIFYの本文をイベントパッケージに応じて解析する
+ * @param eventPackage - 購読しているイベントパッケージ
+ * @param body - NOTIFYの本文
+ * @returns 内線の状態（本文が空または解析できない場合はnull）
+ */
+export const parsePresenceNotify = (eventPackage: PresenceEventPackage, body: string): PresenceState | null => {
+  if (!body.trim()) {
+    return null;
+  }
+  return eventPackage === 'dialog' ? parseDialogInfo(body) : parsePidf(body);
+};
+
+/**
+ * 在席状態の表示ラベル
+ */
+export const PRESENCE_STATE_LABELS: Record<PresenceState, string> = {
+  busy: '通話中',
+  idle: '空き',
+  offline: 'オフライン',
+  ringing: '呼出中',
+  unknown: '不明',
+};
+
+/**
+ * 在席状態ごとのランプの色
+ */
+export const PRESENCE_LAMP_CLASS_NAMES: Record<PresenceState, string> = {
+  busy: 'bg-red-500',
+  idle: 'bg-green-500',
+  offline: 'bg-gray-400',
+  ringing: 'bg-yellow-400 animate-pulse',
+  unknown: 'bg-gray-200',
+};
@@ -0,0 +1,26 @@
+/**
+ * 再接続の初回待機時間（ミリ秒）
+ */
+export const RECONNECT_BASE_DELAY_MS = 1000;
+
+/**
+ * 再接続の最大待機時間（ミリ秒）
+ */
+export const RECONNECT_MAX_DELAY_MS = 30000;
+
+/**
+ * 再接続の最大試行回数
+ */
+export const RECONNECT_MAX_ATTEMPTS = 10;
+
+/**
+ * 再接続までの待機時間を計算する（指数バックオフ + ジッター）
+ * 待機時間の上限値の半分を固定で待ち、残り半分をランダムに揺らす
+ * @param attempt - 試行回数（1始まり）
+ * @param random - 0以上1未満の乱数を返す関数
+ * @returns 待機時間（ミリ秒）
+ */
+export const computeReconnectDelay = (attempt: number, random: () => number = Math.random): number => {
+  const ceiling = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+};
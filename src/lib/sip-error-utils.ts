@@ -0,0 +1,224 @@
+import { Core } from 'sip.js';
+
+import type { SipError, SipErrorKind, SipErrorOperation } from '@/@types/sip.types';
+
+/**
+ * 失敗の理由ごとの表示メッセージ
+ */
+export const SIP_ERROR_MESSAGES: Record<SipErrorKind, { title: string; description: string }> = {
+  'bad-credentials': {
+    title: '認証に失敗しました',
+    description: 'ユーザ名またはパスワードが正しいか確認してください。',
+  },
+  'blocked': {
+    title: '発信が禁止されています',
+    description: 'ダイアルプランのルールで発信が禁止されている番号です。',
+  },
+  'busy': {
+    title: '相手が話し中です',
+    description: 'しばらくしてからかけ直してください。',
+  },
+  'cancelled': {
+    title: '呼び出しが取り消されました',
+    description: '相手が応答する前に呼び出しが終了しました。',
+  },
+  'codec-mismatch': {
+    title: '通話の形式が合いません',
+    description: '相手と共通の音声/映像の形式（コーデック）がありません。',
+  },
+  'declined': {
+    title: '相手が着信を拒否しました',
+    description: '相手が通話を受けられない状態です。',
+  },
+  'invalid-target': {
+    title: '発信先が正しくありません',
+    description: '番号またはSIPアドレスを確認してください。',
+  },
+  'microphone-denied': {
+    title: 'マイクの使用が許可されていません',
+    description: 'ブラウザのサイト設定でマイクの使用を許可してください。',
+  },
+  'microphone-unavailable': {
+    title: 'マイクを使用できません',
+    description: 'マイクが接続されているか、他のアプリで使用中でないか確認してください。',
+  },
+  'no-free-line': {
+    title: '空き回線がありません',
+    description: 'いずれかの通話を終了してから発信してください。',
+  },
+  'not-found': {
+    title: '相手が見つかりません',
+    description: '番号またはSIPアドレスが存在しないか、登録されていません。',
+  },
+  'server-error': {
+    title: 'サーバでエラーが発生しました',
+    description: 'SIPサーバが要求を処理できませんでした。',
+  },
+  'timeout': {
+    title: '応答がありませんでした',
+    description: 'サーバまたは相手から時間内に応答がありませんでした。',
+  },
+  'unavailable': {
+    title: '相手が応答できません',
+    description: '相手が未登録か、一時的に通話できない状態です。',
+  },
+  'unknown': {
+    title: 'エラーが発生しました',
+    description: '詳細はSIPトレースまたはコンソールを確認してください。',
+  },
+  'websocket-unreachable': {
+    title: 'サーバに接続できません',
+    description: 'WebSocketサーバのURLとネットワークの状態を確認してください。',
+  },
+};
+
+/**
+ * 失敗した操作の表示名
+ */
+export const SIP_ERROR_OPERATION_LABELS: Record<SipErrorOperation, string> = {
+  answer: '応答',
+  call: '発信',
+  connect: '接続',
+  register: '登録',
+  transfer: '転送',
+};
+
+/**
+ * SIPの最終応答のステータスコードから失敗の理由を分類する
+ * @param statusCode - SIPステータスコード
+ * @returns 失敗の理由
+ */
+export const getSipErrorKindFromStatus = (statusCode: number): SipErrorKind => {
+  switch (statusCode) {
+    case 401:
+    case 403:
+    case 407:
+      return 'bad-credentials';
+    case 404:
+    case 484:
+    case 604:
+      return 'not-found';
+    case 408:
+      return 'timeout';
+    case 410:
+    case 480:
+      return 'unavailable';
+    case 415:
+    case 488:
+    case 606:
+      return 'codec-mismatch';
+    case 486:
+    case 600:
+      return 'busy';
+    case 487:
+      return 'cancelled';
+    case 603:
+      return 'declined';
+    default:
+      return statusCode >= 500 && statusCode < 600 ? 'server-error' : 'unknown';
+  }
+};
+
+/**
+ * 例外から失敗の理由を分類する
+ * getUserMediaのDOMException、sip.jsのTransportError、SDPの処理の失敗を判別する
+ * 接続時の分類できないエラーはサーバに接続できないものとして扱う
+ * @param error - 発生した例外
+ * @param operation - 失敗した操作
+ * @returns 失敗の理由
+ */
+export const classifySipError = (error: unknown, operation: SipErrorOperation): SipErrorKind => {
+  if (error instanceof Error) {
+    switch (error.name) {
+      case 'AbortError':
+      case 'NotFoundError':
+      case 'NotReadableError':
+      case 'OverconstrainedError':
+        return 'microphone-unavailable';
+      case 'InvalidAccessError':
+        return 'codec-mismatch';
+      case 'NotAllowedError':
+      case 'SecurityError':
+        return 'microphone-denied';
+      default:
+        break;
+    }
+    if (error instanceof Core.TransportError || /websocket/i.test(error.message)) {
+      return 'websocket-unreachable';
+    }
+    if (/setRemoteDescription|codec/i.test(error.message)) {
+      return 'codec-mismatch';
+    }
+  }
+  return operation === 'connect' ? 'websocket-unreachable' : 'unknown';
+};
+
+/**
+ * 失敗の理由を作成する
+ * 種類の指定がなければ、ステータスコード、例外の順に分類する
+ * @param operation - 失敗した操作
+ * @param source - 失敗の原因
+ * @param source.kind - 失敗の理由の種類
+ * @param source.statusCode - SIPの最終応答のステータスコード
+ * @param source.reasonPhrase - SIPの最終応答のリーズンフレーズ
+ * @param source.error - 発生した例外
+ * @param target - 発信先など再試行に使う値
+ * @returns 失敗の理由
+ */
+export const createSipError = (
+  operation: SipErrorOperation,
+  source: { kind?: SipErrorKind; statusCode?: number | null; reasonPhrase?: string; error?: unknown },
+  target = '',
+): SipError => {
+  const statusCode = source.statusCode ?? null;
+  let kind: SipErrorKind;
+  if (source.kind) {
+    kind = source.kind;
+  }
+  else if (statusCode !== null) {
+    kind = getSipErrorKindFromStatus(statusCode);
+  }
+  else {
+    kind = classifySipError(source.error, operation);
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    kind,
+    operation,
+    statusCode,
+    reasonPhrase: source.reasonPhrase ?? '',
+    target,
+    occurredAt: Date.now(),
+  };
+};
+
+/**
+ * 失敗の詳細（ステータスコードと発信先）を表示用の文字列に変換する
+ * @param error - 失敗の理由
+ * @returns 表示用の文字列（詳細がない場合は空文字）
+ */
+export const formatSipErrorDetail = (error: SipError): string => {
+  const parts: string[] = [];
+  if (error.statusCode !== null) {
+    parts.push(`${String(error.statusCode)} ${error.reasonPhrase}`.trim());
+  }
+  if (error.target) {
+    parts.push(error.target);
+  }
+  return parts.join(' ・ ');
+};
+
+/**
+ * 失敗した操作を再試行できるか判定する
+ * 応答は着信が終了しているため、転送は転送先の入力をやり直す必要があるため、
+ * 発信は発信先がない場合は再試行できない
+ * @param error - 失敗の理由
+ * @returns 再試行できる場合true
+ */
+export const isRetryableSipError = (error: SipError): boolean => {
+  if (error.operation === 'answer' || error.operation === 'transfer') {
+    return false;
+  }
+  return error.operation !== 'call' || error.target !== '';
+};
@@ -0,0 +1,121 @@
+import type { SipConfig, SipProfile } from '@/@types/sip.types';
+
+/**
+ * SIP設定の初期値
+ */
+export const DEFAULT_SIP_CONFIG: SipConfig = {
+  dtmfTransport: 'rfc4733',
+  password: '',
+  registerExpires: 600,
+  url: '',
+  username: '',
+};
+
+/**
+ * プロファイル一覧を保存するlocalStorageのキー
+ */
+const SIP_PROFILES_STORAGE_KEY = 'sipjs-example:sip-profiles';
+
+/**
+ * デフォルトプロファイルIDを保存するlocalStorageのキー
+ */
+const DEFAULT_SIP_PROFILE_STORAGE_KEY = 'sipjs-example:default-sip-profile';
+
+/**
+ * localStorageからプロファイル一覧を読み込む
+ * @returns プロファイル一覧。読み込めない場合は空配列
+ */
+export const loadSipProfiles = (): SipProfile[] => {
+  try {
+    const raw = localStorage.getItem(SIP_PROFILES_STORAGE_KEY);
+    if (!raw) {
+      return [];
+    }
+    const parsed = JSON.parse(raw);
+    // 後から追加された設定項目は初期値で補完する
+    return Array.isArray(parsed)
+      ? (parsed as SipProfile[]).map(profile => ({ ...DEFAULT_SIP_CONFIG, ...profile }))
+      : [];
+  }
+  catch (error) {
+    console.error('SIPプロファイルの読み込みに失敗しました:', error);
+    return [];
+  }
+};
+
+/**
+ * プロファイル一覧をlocalStorageへ保存する
+ * パスワードを記憶しないプロファイルはパスワードを除外して保存する
+ * @param profiles - プロファイル一覧
+ */
+export const saveSipProfiles = (profiles: SipProfile[]): void => {
+  try {
+    const sanitized = profiles.map(profile => ({
+      ...profile,
+      password: profile.rememberPassword ? profile.password : '',
+    }));
+    localStorage.setItem(SIP_PROFILES_STORAGE_KEY, JSON.stringify(sanitized));
+  }
+  catch (error) {
+    console.error('SIPプロファイルの保存に失敗しました:', error);
+  }
+};
+
+/**
+ * localStorageからデフォルトプロファイルIDを読み込む
+ * @returns デフォルトプロファイルID（未設定の場合はnull）
+ */
+export const loadDefaultSipProfileId = (): string | null => {
+  return localStorage.getItem(DEFAULT_SIP_PROFILE_STORAGE_KEY);
+};
+
+/**
+ * デフォルトプロファイルIDをlocalStorageへ保存する
+ * @param id - デフォルトプロファイルID（nullの場合は解除）
+ */
+export const saveDefaultSipProfileId = (id: string | null): void => {
+  if (id) {
+    localStorage.setItem(DEFAULT_SIP_PROFILE_STORAGE_KEY, id);
+  }
+  else {
+    localStorage.removeItem(DEFAULT_SIP_PROFILE_STORAGE_KEY);
+  }
+};
+
+/**
+ * プロファイルからSIP設定を取り出す
+ * @param profile - SIPプロファイル
+ * @returns SIP設定
+ */
+export const toSipConfig = (profile: SipProfile): SipConfig => {
+  return {
+    dtmfTransport: profile.dtmfTransport,
+    password: profile.rememberPassword ? profile.password : '',
+    registerExpires: profile.registerExpires,
+    url: profile.url,
+    username: profile.username,
+  };
+};
+
+/**
+ * URLクエリパラメータに一致するプロファイルを探す
+ * ?profile= はIDまたはプロファイル名、?url=&user= はサーバURLとユーザ名で照合する
+ * @param profiles - プロファイル一覧
+ * @param query - URLクエリパラメータ
+ * @param query.profile - プロファイルIDまたは名前
+ * @param query.url - サーバURL
+ * @param query.user - ユーザ名
+ * @returns 一致したプロファイル（なければundefined）
+ */
+export const findSipProfileByQuery = (
+  profiles: SipProfile[],
+  query: { profile: string | null; url: string | null; user: string | null },
+): SipProfile | undefined => {
+  if (query.profile) {
+    return profiles.find(profile => profile.id === query.profile || profile.name === query.profile);
+  }
+  if (query.url && query.user) {
+    return profiles.find(profile => profile.url === query.url && profile.username === query.user);
+  }
+  return undefined;
+};
@@ -0,0 +1,314 @@
+import { type Session, Web } from 'sip.js';
+
+import type { DtmfTransport, RemoteIdentity, TransferState } from '@/@types/sip.types';
+
+/**
+ * SIP INFOで送信するDTMFの長さ（ミリ秒）
+ */
+const DTMF_INFO_DURATION_MS = 2000;
+
+/**
+ * セッションのリモートメディアストリームを取得する
+ * @param session - SIPセッション
+ * @returns リモートメディアストリーム（メディア未確立の場合はundefined）
+ */
+export const getRemoteMediaStream = (session: Session): MediaStream | undefined => {
+  const sessionDescriptionHandler = session.sessionDescriptionHandler;
+  if (!(sessionDescriptionHandler instanceof Web.SessionDescriptionHandler)) {
+    return undefined;
+  }
+  return sessionDescriptionHandler.remoteMediaStream;
+};
+
+/**
+ * セッションのローカルメディアストリームを取得する
+ * @param session - SIPセッション
+ * @returns ローカルメディアストリーム（メディア未確立の場合はundefined）
+ */
+export const getLocalMediaStream = (session: Session): MediaStream | undefined => {
+  const sessionDescriptionHandler = session.sessionDescriptionHandler;
+  if (!(sessionDescriptionHandler instanceof Web.SessionDescriptionHandler)) {
+    return undefined;
+  }
+  return sessionDescriptionHandler.localMediaStream;
+};
+
+/**
+ * セッションのRTCPeerConnectionを取得する
+ * @param session - SIPセッション
+ * @returns RTCPeerConnection（メディア未確立の場合はundefined）
+ */
+export const getPeerConnection = (session: Session): RTCPeerConnection | undefined => {
+  const sessionDescriptionHandler = session.sessionDescriptionHandler;
+  if (!(sessionDescriptionHandler instanceof Web.SessionDescriptionHandler)) {
+    return undefined;
+  }
+  return sessionDescriptionHandler.peerConnection;
+};
+
+/**
+ * セッションの送信/受信トラックを有効化または無効化する
+ * 保留中は送受信とも、ミュート中は音声の送信のみ、カメラオフ中は映像の送信のみ無効にする
+ * @param session - SIPセッション
+ * @param enabled - 種類ごとのトラックの有効/無効
+ * @param enabled.audio - 音声の送信トラックを有効にする場合true
+ * @param enabled.video - 映像の送信トラックを有効にする場合true
+ * @param enabled.receiver - 受信トラックを有効にする場合true
+ */
+export const setSessionTracksEnabled = (
+  session: Session,
+  enabled: { audio: boolean; video: boolean; receiver: boolean },
+): void => {
+  const sessionDescriptionHandler = session.sessionDescriptionHandler;
+  if (!(sessionDescriptionHandler instanceof Web.SessionDescriptionHandler)) {
+    return;
+  }
+  const peerConnection = sessionDescriptionHandler.peerConnection;
+  if (!peerConnection) {
+    return;
+  }
+  for (const sender of peerConnection.getSenders()) {
+    if (sender.track) {
+      sender.track.enabled = sender.track.kind === 'video' ? enabled.video : enabled.audio;
+    }
+  }
+  for (const receiver of peerConnection.getReceivers()) {
+    receiver.track.enabled = enabled.receiver;
+  }
+};
+
+/**
+ * 通話中のセッションの送信音声トラックを別のマイクのトラックへ差し替える
+ * re-INVITEは送信せず、RTPSenderのトラックのみを置き換える
+ * 以降のre-INVITEでも同じマイクを使うよう、re-INVITE用の制約も更新する
+ * @param session - SIPセッション
+ * @param audio - 新しいマイクの音声制約
+ */
+export const replaceAudioInputTrack = async (
+  session: Session,
+  audio: MediaTrackConstraints | true,
+): Promise<void> => {
+  const sessionDescriptionHandler = session.sessionDescriptionHandler;
+  if (!(sessionDescriptionHandler instanceof Web.SessionDescriptionHandler)) {
+    return;
+  }
+  const peerConnection = sessionDescriptionHandler.peerConnection;
+  const sender = peerConnection?.getSenders().find(candidate => candidate.track?.kind === 'audio');
+  if (!sender?.track) {
+    return;
+  }
+
+  const stream = await navigator.mediaDevices.getUserMedia({ audio, video: false });
+  const [nextTrack] = stream.getAudioTracks();
+  const previousTrack = sender.track;
+  nextTrack.enabled = previousTrack.enabled;
+  await sender.replaceTrack(nextTrack);
+
+  const localMediaStream = sessionDescriptionHandler.localMediaStream;
+  localMediaStream.removeTrack(previousTrack);
+  localMediaStream.addTrack(nextTrack);
+  previousTrack.stop();
+
+  const reInviteOptions: Web.SessionDescriptionHandlerOptions = session.sessionDescriptionHandlerOptionsReInvite;
+  const constraints = reInviteOptions.constraints ?? { audio: true, video: false };
+  session.sessionDescriptionHandlerOptionsReInvite = {
+    ...reInviteOptions,
+    constraints: { ...constraints, audio },
+  };
+};
+
+/**
+ * SDHオプションを変更してre-INVITEを送信し、応答を待つ
+ * 拒否された場合は変更前のSDHオプションへ戻す
+ * @param session - SIPセッション
+ * @param sessionDescriptionHandlerOptions - 変更するSDHオプション（保留、メディアの制約など）
+ * @returns 2xx応答の本文（相手のSDP）で解決し、拒否または送信失敗で棄却されるPromise
+ */
+export const reinviteSession = (
+  session: Session,
+  sessionDescriptionHandlerOptions: Web.SessionDescriptionHandlerOptions,
+): Promise<string> => {
+  const previousOptions = session.sessionDescriptionHandlerOptionsReInvite;
+  const nextOptions: Web.SessionDescriptionHandlerOptions = {
+    ...previousOptions,
+    ...sessionDescriptionHandlerOptions,
+  };
+  session.sessionDescriptionHandlerOptionsReInvite = nextOptions;
+
+  return new Promise<string>((resolve, reject) => {
+    session.invite({
+      requestDelegate: {
+        onAccept: (response) => {
+          resolve(response.message.body);
+        },
+        onReject: (response) => {
+          session.sessionDescriptionHandlerOptionsReInvite = previousOptions;
+          reject(new Error(`re-INVITEが拒否されました: ${String(response.message.statusCode)}`));
+        },
+      },
+    }).catch((error: unknown) => {
+      session.sessionDescriptionHandlerOptionsReInvite = previousOptions;
+      reject(error instanceof Error ? error : new Error(String(error)));
+    });
+  });
+};
+
+/**
+ * セッションでDTMFを送信する
+ * RFC 4733はRTCDTMFSenderで、SIP INFOはapplication/dtmf-relay本文で送信する
+ * @param session - SIPセッション
+ * @param tone - 送信するトーン（0-9、*、#、A-D）
+ * @param transport - 送信方式
+ */
+export const sendDtmfTone = async (session: Session, tone: string, transport: DtmfTransport): Promise<void> => {
+  if (transport === 'rfc4733') {
+    if (!session.sessionDescriptionHandler?.sendDtmf(tone)) {
+      throw new Error('RTCDTMFSenderでのDTMF送信に失敗しました');
+    }
+    return;
+  }
+  await session.info({
+    requestOptions: {
+      body: {
+        contentDisposition: 'render',
+        contentType: 'application/dtmf-relay',
+        content: `Signal=${tone}\r\nDuration=${String(DTMF_INFO_DURATION_MS)}`,
+      },
+    },
+  });
+};
+
+/**
+ * ダイアル番号から自分のドメイン宛のSIP URIを組み立てる
+ * 既に@を含む場合はsip:スキームのみ補完する
+ * @param dialedNumber - ダイアル番号またはSIPアドレス
+ * @param domain - 自分のAORのドメイン
+ * @returns SIP URI文字列
+ */
+export const buildTargetUri = (dialedNumber: string, domain: string): string => {
+  const withScheme = /^sips?:/.test(dialedNumber) ? dialedNumber : `sip:${dialedNumber}`;
+  return withScheme.includes('@') ? withScheme : `${withScheme}@${domain}`;
+};
+
+/**
+ * WebSocketサーバのURLから自分のAORのドメインを取り出す
+ * @param url - WebSocketサーバのURL（例: wss://sip.example.com:7443/ws）
+ * @returns ドメイン（ポート番号を含む場合はポート番号付き）
+ */
+export const getSipDomain = (url: string): string => {
+  return url.replace(/^(ws|wss):\/\//, '').split('/')[0];
+};
+
+/**
+ * message/sipfrag本文からステータス行を取り出す（REFERのNOTIFY用）
+ * @param body - sipfrag本文（例: "SIP/2.0 200 OK"）
+ * @returns ステータスコードと理由句（解析できない場合はnull）
+ */
+export const parseSipfrag = (body: string): { statusCode: number; reasonPhrase: string } | null => {
+  const match = /^SIP\/2\.0\s+(\d{3})\s*(.*)$/m.exec(body.trim());
+  if (!match) {
+    return null;
+  }
+  return {
+    statusCode: Number(match[1]),
+    reasonPhrase: match[2].trim(),
+  };
+};
+
+/**
+ * セッションから通話相手の識別情報を取得する
+ * @param session - SIPセッション
+ * @returns 表示名とURI
+ */
+export const getRemoteIdentity = (session: Session): RemoteIdentity => {
+  const { displayName, uri } = session.remoteIdentity;
+  return {
+    displayName,
+    uri: uri.toString(),
+  };
+};
+
+/**
+ * SDPが有効な映像メディアを含んでいるか判定する
+ * @param sdp - SDP本文
+ * @returns ポート番号が0以外のm=video行が含まれている場合true
+ */
+export const hasVideoSdp = (sdp: string | undefined): boolean => {
+  if (!sdp) {
+    return false;
+  }
+  return /^m=video\s+[1-9]/m.test(sdp);
+};
+
+/**
+ * SDPが保留（相手からの送信のみ、または送受信なし）を示しているか判定する
+ * @param sdp - SDP本文
+ * @returns 保留を示すメディア方向が含まれている場合true
+ */
+export const isHoldSdp = (sdp: string | undefined): boolean => {
+  if (!sdp) {
+    return false;
+  }
+  return /^a=(sendonly|inactive)\r?$/m.test(sdp);
+};
+
+/**
+ * DTMFとして送信可能な文字か判定する
+ * @param key - 判定対象の文字
+ * @returns 0-9、*、#、A-Dのいずれかの場合true
+ */
+export const isDtmfTone = (key: string): boolean => {
+  return /^[0-9*#A-D]$/i.test(key);
+};
+
+/**
+ * SIP URIからユーザ部（番号）を取り出す
+ * @param uri - SIP URI（例: sip:1001@example.com）
+ * @returns ユーザ部（例: 1001）
+ */
+export const getUriUser = (uri: string): string => {
+  return uri.replace(/^sips?:/, '').split('@')[0];
+};
+
+/**
+ * 通話相手の識別情報を表示用の文字列に変換する
+ * @param remoteIdentity - 通話相手の識別情報
+ * @returns 表示名があれば表示名、なければURIのユーザ部
+ */
+export const formatRemoteIdentity = (remoteIdentity: RemoteIdentity | null): string => {
+  if (!remoteIdentity) {
+    return '';
+  }
+  if (remoteIdentity.displayName) {
+    return remoteIdentity.displayName;
+  }
+  return getUriUser(remoteIdentity.uri);
+};
+
+/**
+ * 転送の進行状況を表示用の文字列に変換する
+ * @param transferState - 転送状態
+ * @returns 進行状況の説明（転送していない場合は空文字）
+ */
+export const formatTransferStatus = (transferState: TransferState): string => {
+  const response = transferState.statusCode === null
+    ? ''
+    : ` (${`${String(transferState.statusCode)} ${transferState.reasonPhrase}`.trim()})`;
+
+  switch (transferState.status) {
+    case 'completed':
+      return `${transferState.target} へ転送しました`;
+    case 'consulting':
+      return transferState.isConsultEstablished
+        ? `${transferState.target} と打診中`
+        : `${transferState.target} を呼び出し中...`;
+    case 'failed':
+      return `${transferState.target} への転送に失敗しました${response}`;
+    case 'referring':
+      return `${transferState.target} への転送を要求中...`;
+    case 'trying':
+      return `${transferState.target} へ転送中...${response}`;
+    default:
+      return '';
+  }
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+
+import { redactSipMessage } from '@/lib/sip-trace-utils';
+
+describe('redactSipMessage', () => {
+  it('Authorization/Proxy-Authorizationヘッダの値全体を伏せ字にする', () => {
+    const message = [
+      'REGISTER sip:example.com SIP/2.0',
+      'Authorization: Digest username="1001", response="abc"',
+      'proxy-authorization: Digest username="1001", response="def"',
+      'Content-Length: 0',
+    ].join('\r\n');
+    expect(redactSipMessage(message)).toBe([
+      'REGISTER sip:example.com SIP/2.0',
+      'Authorization: [REDACTED]',
+      'proxy-authorization: [REDACTED]',
+      'Content-Length: 0',
+    ].join('\r\n'));
+  });
+
+  it('パスワードと完全に一致するトークンを伏せ字にする', () => {
+    const message = [
+      'MESSAGE sip:1002@example.com SIP/2.0',
+      'Content-Type: text/plain',
+      '',
+      'password=s3cret and s3cret',
+    ].join('\r\n');
+    expect(redactSipMessage(message, ['s3cret']).split('\r\n')[3]).toBe('password=[REDACTED] and [REDACTED]');
+  });
+
+  it('パスワードを一部に含む番号や値は置き換えない', () => {
+    const message = [
+      'INVITE sip:12345@example.com SIP/2.0',
+      'CSeq: 1234 INVITE',
+      'Content-Length: 11234',
+    ].join('\r\n');
+    expect(redactSipMessage(message, ['234'])).toBe(message);
+    expect(redactSipMessage(message, ['1234']).split('\r\n')[1]).toBe('CSeq: [REDACTED] INVITE');
+  });
+
+  it('正規表現の記号を含むパスワードも文字どおりに一致させる', () => {
+    expect(redactSipMessage('secret a.b+c end', ['a.b+c'])).toBe('secret [REDACTED] end');
+    expect(redactSipMessage('secret axb+c end', ['a.b+c'])).toBe('secret axb+c end');
+  });
+});
@@ -0,0 +1,238 @@
+import type {
+  SipTraceDialog,
+  SipTraceDirection,
+  SipTraceEntry,
+  SipTraceExportFormat,
+} from '@/@types/sip.types';
+
+/**
+ * 保持するSIPトレースの最大件数（超えた分は古いものから破棄する）
+ */
+export const SIP_TRACE_MAX_ENTRIES = 1000;
+
+/**
+ * 伏せ字にする認証ヘッダ
+ */
+const REDACTED_HEADERS = ['authorization', 'proxy-authorization'];
+
+/**
+ * 伏せ字の表記
+ */
+const REDACTED_VALUE = '[REDACTED]';
+
+/**
+ * sip.jsのトランスポートのログからSIPメッセージを取り出す
+ * Transportは送受信したメッセージを「Sending WebSocket message:」「Received WebSocket text message:」に続けてログ出力する
+ * @param content - ログの本文
+ * @returns 送受信方向とメッセージ全文。SIPメッセージのログでない場合はnull
+ */
+export const parseTransportLog = (content: string): { direction: SipTraceDirection; message: string } | null => {
+  const match = /^(Sending WebSocket message|Received WebSocket text message):\n\n([\s\S]*)$/.exec(content);
+  if (!match) {
+    return null;
+  }
+  return {
+    direction: match[1].startsWith('Sending') ? 'sent' : 'received',
+    message: match[2].replace(/\n$/, ''),
+  };
+};
+
+/**
+ * 秘密の文字列の前後に置ける区切り文字（空白とSIPのヘッダ・パラメータ・本文で使われる記号）
+ */
+const TOKEN_DELIMITERS = '\\s"\'<>()\\[\\]{},;:=&?/@';
+
+/**
+ * 秘密の文字列と完全に一致するトークンを検索する正規表現を作成する
+ * 「1234」のような短いパスワードが番号やContent-Lengthの一部として置き換えられないよう、前後が区切り文字の場合のみ一致させる
+ * @param secret - 秘密の文字列
+ * @returns 正規表現（区切り文字を1番目のグループとする）
+ */
+const createSecretPattern = (secret: string): RegExp => {
+  const escaped = secret.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[${TOKEN_DELIMITERS}])${escaped}(?=$|[${TOKEN_DELIMITERS}])`, 'g');
+};
+
+/**
+ * SIPメッセージの認証情報を伏せ字にする
+ * Authorization/Proxy-Authorizationヘッダは値全体を、指定した秘密の文字列はそれと完全に一致するトークンのみを置き換える
+ * @param message - SIPメッセージ全文
+ * @param secrets - 伏せ字にする文字列（パスワードなど）
+ * @returns 伏せ字にしたメッセージ
+ */
+export const redactSipMessage = (message: string, secrets: string[] = []): string => {
+  let redacted = message
+    .split(/\r?\n/)
+    .map((line) => {
+      const separator = line.indexOf(':');
+      if (separator <= 0) {
+        return line;
+      }
+      const name = line.slice(0, separator).trim().toLowerCase();
+      return REDACTED_HEADERS.includes(name) ? `${line.slice(0, separator)}: ${REDACTED_VALUE}` : line;
+    })
+    .join('\r\n');
+  for (const secret of secrets) {
+    if (secret) {
+      redacted = redacted.replace(createSecretPattern(secret), `$1${REDACTED_VALUE}`);
+    }
+  }
+  return redacted;
+};
+
+/**
+ * SIPメッセージのヘッダの値を取得する（短縮形のヘッダ名にも対応）
+ * @param lines - メッセージの行
+ * @param names - ヘッダ名（小文字）
+ * @returns ヘッダの値（見つからない場合は空文字）
+ */
+const getHeaderValue = (lines: string[], names: string[]): string => {
+  for (const line of lines) {
+    if (line === '') {
+      break;
+    }
+    const separator = line.indexOf(':');
+    if (separator > 0 && names.includes(line.slice(0, separator).trim().toLowerCase())) {
+      return line.slice(separator + 1).trim();
+    }
+  }
+  return '';
+};
+
+/**
+ * 送受信したSIPメッセージからトレースを作成する
+ * @param direction - 送受信方向
+ * @param message - 伏せ字にしたSIPメッセージ全文
+ * @param timestamp - 送受信した時刻
+ * @returns SIPトレース
+ */
+export const createSipTraceEntry = (
+  direction: SipTraceDirection,
+  message: string,
+  timestamp: number = Date.now(),
+): SipTraceEntry => {
+  const lines = message.split(/\r?\n/);
+  const startLine = lines[0].trim();
+  const headerLines = lines.slice(1);
+  const cseqMethod = /^\d+\s+(\S+)/.exec(getHeaderValue(headerLines, ['cseq']))?.[1] ?? '';
+  const status = /^SIP\/2\.0\s+(\d{3})/.exec(startLine);
+
+  return {
+    id: crypto.randomUUID(),
+    timestamp,
+    direction,
+    callId: getHeaderValue(headerLines, ['call-id', 'i']),
+    method: status ? cseqMethod : startLine.split(/\s+/)[0],
+    statusCode: status ? Number(status[1]) : null,
+    startLine,
+    raw: message,
+  };
+};
+
+/**
+ * トレースがフィルタに一致するか判定する
+ * フィルタはメソッド名（例: INVITE）またはステータスコード（例: 486、4xx、4）で、空白区切りで複数指定できる
+ * @param entry - SIPトレース
+ * @param filter - フィルタ（空文字の場合はすべて一致）
+ * @returns 一致する場合true
+ */
+export const matchesSipTraceFilter = (entry: SipTraceEntry, filter: string): boolean => {
+  const terms = filter.trim().split(/\s+/).filter(term => term !== '');
+  if (terms.length === 0) {
+    return true;
+  }
+  return terms.some((term) => {
+    const statusPattern = /^(\d{1,3})x*$/i.exec(term);
+    if (statusPattern) {
+      return entry.statusCode !== null && String(entry.statusCode).startsWith(statusPattern[1]);
+    }
+    return entry.method.toUpperCase() === term.toUpperCase();
+  });
+};
+
+/**
+ * トレースをCall-IDごとのダイアログにまとめる
+ * ダイアログは最初のメッセージの時刻順に、メッセージは送受信順に並べる
+ * @param entries - SIPトレース（送受信順）
+ * @returns ダイアログの一覧
+ */
+export const groupSipTraceByCallId = (entries: SipTraceEntry[]): SipTraceDialog[] => {
+  const dialogs = new Map<string, SipTraceDialog>();
+  for (const entry of entries) {
+    const dialog = dialogs.get(entry.callId);
+    if (dialog) {
+      dialog.entries.push(entry);
+      continue;
+    }
+    dialogs.set(entry.callId, {
+      callId: entry.callId,
+      method: entry.method,
+      startedAt: entry.timestamp,
+      entries: [entry],
+    });
+  }
+  return [...dialogs.values()];
+};
+
+/**
+ * トレースをテキスト形式に変換する
+ * @param entries - SIPトレース
+ * @returns メッセージごとに時刻と方向を付けたテキスト
+ */
+export const formatSipTraceText = (entries: SipTraceEntry[]): string => {
+  return entries
+    .map(entry => [
+      `${new Date(entry.timestamp).toISOString()} ${entry.direction === 'sent' ? '>>> 送信' : '<<< 受信'}`,
+      entry.raw,
+    ].join('\n'))
+    .join('\n\n');
+};
+
+/**
+ * トレースをHAR形式に準じたJSONに変換する
+ * HTTPのrequest/responseの代わりに、SIPメッセージを_sip拡張フィールドへ格納する
+ * @param entries - SIPトレース
+ * @returns JSON文字列
+ */
+export const formatSipTraceHar = (entries: SipTraceEntry[]): string => {
+  return JSON.stringify({
+    log: {
+      version: '1.2',
+      creator: { name: 'sipjs-example', version: '1.0' },
+      entries: entries.map(entry => ({
+        startedDateTime: new Date(entry.timestamp).toISOString(),
+        time: 0,
+        _sip: {
+          direction: entry.direction,
+          callId: entry.callId,
+          method: entry.method,
+          statusCode: entry.statusCode,
+          startLine: entry.startLine,
+          message: entry.raw,
+        },
+      })),
+    },
+  }, null, 2);
+};
+
+/**
+ * トレースを指定した形式のファイルに変換する
+ * @param entries - SIPトレース
+ * @param format - 出力形式
+ * @returns ファイル名とBlob
+ */
+export const buildSipTraceFile = (
+  entries: SipTraceEntry[],
+  format: SipTraceExportFormat,
+): { fileName: string; blob: Blob } => {
+  if (format === 'har') {
+    return {
+      fileName: 'sip-trace.har',
+      blob: new Blob([formatSipTraceHar(entries)], { type: 'application/json' }),
+    };
+  }
+  return {
+    fileName: 'sip-trace.txt',
+    blob: new Blob([formatSipTraceText(entries)], { type: 'text/plain' }),
+  };
+};
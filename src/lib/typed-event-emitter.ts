@@ -0,0 +1,48 @@
+/**
+ * イベント名と引数の型を対応づけたイベントエミッター
+ * Eventsにはイベント名をキー、リスナーの引数のタプルを値とする型を指定する
+ */
+export class TypedEventEmitter<Events extends { [K in keyof Events]: unknown[] }> {
+  private readonly listeners: { [K in keyof Events]?: Set<(...args: Events[K]) => void> } = {};
+
+  /**
+   * イベントのリスナーを登録する
+   * @param event - イベント名
+   * @param listener - リスナー
+   * @returns 登録を解除する関数
+   */
+  on<K extends keyof Events>(event: K, listener: (...args: Events[K]) => void): () => void {
+    const listeners = this.listeners[event] ?? new Set<(...args: Events[K]) => void>();
+    listeners.add(listener);
+    this.listeners[event] = listeners;
+    return () => {
+      this.off(event, listener);
+    };
+  }
+
+  /**
+   * イベントのリスナーの登録を解除する
+   * @param event - イベント名
+   * @param listener - 登録したリスナー
+   */
+  off<K extends keyof Events>(event: K, listener: (...args: Events[K]) => void): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * イベントを発行する
+   * リスナーの中で登録・解除されても影響しないよう、発行時点のリスナーを順に呼び出す
+   * @param event - イベント名
+   * @param args - リスナーへ渡す引数
+   */
+  protected emit<K extends keyof Events>(event: K, ...args: Events[K]): void {
+    for (const listener of [...(this.listeners[event] ?? [])]) {
+      try {
+        listener(...args);
+      }
+      catch (error) {
+        console.error('イベントリスナーの実行に失敗しました:', error);
+      }
+    }
+  }
+}
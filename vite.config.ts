@@ -3,12 +3,15 @@ import react from '@vitejs/plugin-react';
 import tsconfigPaths from 'vite-tsconfig-paths';
 import checker from 'vite-plugin-checker';
 
+import { sipStandIn } from './server/sip-stand-in/vite-plugin.ts';
+
 export default defineConfig({
   plugins: [
     react(),
     tsconfigPaths(),
+    sipStandIn(),
     checker({
-      typescript: true,
+      typescript: { tsconfigPath: './tsconfig.app.json' },
       eslint: {
         lintCommand: 'eslint "./src/**/*.{ts,tsx}"',
       },
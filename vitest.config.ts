@@ -0,0 +1,20 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts', 'e2e/**/*.test.ts'],
+    poolOptions: {
+      forks: {
+        // Node 20ではWebSocketのグローバルが既定で無効のため、E2Eテストで有効にする
+        execArgv: typeof WebSocket === 'undefined' ? ['--experimental-websocket'] : [],
+      },
+    },
+  },
+});